@@ -0,0 +1,312 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { Coin, parseCoins } from '../common/utils/coin.utils';
+import { buildNextCursor, decodeCursor, KeysetCursor } from '../common/utils/cursor.utils';
+import { ValidatorsService } from '../validators/validators.service';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { AccountsService } from './accounts.service';
+import { StakingActivityType, StakingTimelineQueryDto } from './dto/staking-timeline-query.dto';
+
+export interface UnbondingEntry {
+  creation_height: string;
+  completion_time: string;
+  initial_balance: string;
+  balance: string;
+}
+
+export interface AccountUnbondingDelegations {
+  delegator_address: string;
+  total_balance: string;
+  unbonding_delegations: Array<{
+    validator_address: string;
+    validator_moniker: string | null;
+    entries: UnbondingEntry[];
+  }>;
+}
+
+export interface AccountRedelegations {
+  delegator_address: string;
+  redelegations: Array<{
+    source_validator_address: string;
+    source_validator_moniker: string | null;
+    destination_validator_address: string;
+    destination_validator_moniker: string | null;
+    entries: UnbondingEntry[];
+  }>;
+}
+
+export interface StakingTimelineEntry {
+  tx_hash: string;
+  height: number;
+  block_time: string;
+  type: StakingActivityType;
+  validator_address: string | null;
+  validator_moniker: string | null;
+  destination_validator_address: string | null;
+  destination_validator_moniker: string | null;
+  amount: Coin[];
+  completion_time: string | null;
+}
+
+export interface StakingTimeline {
+  data: StakingTimelineEntry[];
+  limit: number;
+  offset: number;
+  next_cursor: string | null;
+}
+
+const BOND_DENOM = 'uzig';
+
+// Postgres event types behind each timeline entry type
+const ACTIVITY_EVENT_TYPES: Record<StakingActivityType, string> = {
+  delegate: 'delegate',
+  undelegate: 'unbond',
+  redelegate: 'redelegate',
+  withdraw_rewards: 'withdraw_rewards',
+};
+
+@Injectable()
+export class AccountStakingService {
+  private readonly logger = new Logger(AccountStakingService.name);
+
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly validatorsService: ValidatorsService,
+  ) {}
+
+  async getUnbondingDelegations(
+    address: string,
+  ): Promise<AccountUnbondingDelegations | { error: string }> {
+    const validationError = this.accountsService.validateAddress(address);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    try {
+      const [response, monikers] = await Promise.all([
+        this.blockchainService.getFromApi<Record<string, any>>(
+          `/cosmos/staking/v1beta1/delegators/${address}/unbonding_delegations`,
+          { params: { 'pagination.limit': 1000 } },
+        ),
+        this.validatorsService.getValidatorMonikers(),
+      ]);
+
+      if (response.status !== 200 && response.status !== 404) {
+        return { error: `Failed to fetch unbonding delegations: HTTP ${response.status}` };
+      }
+
+      const unbonding = (response.data?.unbonding_responses ?? []) as Array<{
+        validator_address: string;
+        entries: Array<Record<string, string>>;
+      }>;
+
+      let total = 0n;
+      const unbondingDelegations = unbonding.map(item => {
+        const entries = item.entries
+          .map(entry => this.toEntry(entry, entry.balance))
+          .sort((a, b) => a.completion_time.localeCompare(b.completion_time));
+        total += entries.reduce((sum, entry) => sum + BigInt(entry.balance || '0'), 0n);
+        return {
+          validator_address: item.validator_address,
+          validator_moniker: monikers.get(item.validator_address) ?? null,
+          entries,
+        };
+      });
+
+      return {
+        delegator_address: address,
+        total_balance: total.toString(),
+        unbonding_delegations: unbondingDelegations,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch unbonding delegations for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  async getRedelegations(address: string): Promise<AccountRedelegations | { error: string }> {
+    const validationError = this.accountsService.validateAddress(address);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    try {
+      const [response, monikers] = await Promise.all([
+        this.blockchainService.getFromApi<Record<string, any>>(
+          `/cosmos/staking/v1beta1/delegators/${address}/redelegations`,
+          { params: { 'pagination.limit': 1000 } },
+        ),
+        this.validatorsService.getValidatorMonikers(),
+      ]);
+
+      if (response.status !== 200 && response.status !== 404) {
+        return { error: `Failed to fetch redelegations: HTTP ${response.status}` };
+      }
+
+      const redelegations = (response.data?.redelegation_responses ?? []) as Array<{
+        redelegation: { validator_src_address: string; validator_dst_address: string };
+        entries: Array<{ redelegation_entry: Record<string, string>; balance: string }>;
+      }>;
+
+      return {
+        delegator_address: address,
+        redelegations: redelegations.map(item => ({
+          source_validator_address: item.redelegation.validator_src_address,
+          source_validator_moniker: monikers.get(item.redelegation.validator_src_address) ?? null,
+          destination_validator_address: item.redelegation.validator_dst_address,
+          destination_validator_moniker:
+            monikers.get(item.redelegation.validator_dst_address) ?? null,
+          entries: item.entries
+            .map(entry => this.toEntry(entry.redelegation_entry, entry.balance))
+            .sort((a, b) => a.completion_time.localeCompare(b.completion_time)),
+        })),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch redelegations for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Delegate, undelegate, redelegate and reward withdrawal events of an account, newest first.
+   * Pages are cut on transaction boundaries, so one page may hold a few more entries than
+   * `limit` when a transaction contains several staking messages.
+   */
+  async getStakingTimeline(
+    address: string,
+    query: StakingTimelineQueryDto,
+  ): Promise<StakingTimeline | { error: string }> {
+    const validationError = this.accountsService.validateAddress(address);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    let cursor: KeysetCursor | null = null;
+    if (query.cursor) {
+      cursor = decodeCursor(query.cursor);
+      if (!cursor) {
+        throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+      }
+    }
+
+    const limit = Math.min(Math.max(Number(query.limit ?? 10), 1), 1000);
+    const offset = cursor ? 0 : Math.max(Number(query.offset ?? 0), 0);
+    const eventTypes = query.type
+      ? [ACTIVITY_EVENT_TYPES[query.type]]
+      : Object.values(ACTIVITY_EVENT_TYPES);
+
+    const params: Array<string | number | string[]> = [address, eventTypes];
+    let cursorClause = '';
+    if (cursor) {
+      params.push(cursor.height, cursor.txIndex);
+      cursorClause = `AND (at.height, at.tx_index) < ($${params.length - 1}, $${params.length})`;
+    }
+    params.push(limit, offset);
+
+    // Older SDK versions omit the delegator attribute; the address_transactions join already
+    // restricts those events to transactions the account took part in
+    const eventFilter = (txAlias: string) => `
+        e.tx_hash = ${txAlias}.tx_hash
+        AND e.event_type = ANY($2)
+        AND COALESCE(e.attributes ->> 'delegator', $1) = $1
+    `;
+
+    try {
+      const [result, monikers] = await Promise.all([
+        this.zigscanPostgresService.query<{
+          tx_hash: string;
+          height: number;
+          tx_index: number;
+          block_time: Date | string;
+          event_type: string;
+          attributes: Record<string, string> | null;
+        }>(
+          `
+            WITH staking_txs AS (
+                SELECT DISTINCT at.tx_hash, at.height, at.tx_index, at.block_time
+                FROM address_transactions at
+                WHERE at.address = $1
+                  AND at.code = 0
+                  ${cursorClause}
+                  AND EXISTS (
+                      SELECT 1
+                      FROM events e
+                      WHERE ${eventFilter('at')}
+                  )
+                ORDER BY at.height DESC, at.tx_index DESC
+                LIMIT $${params.length - 1}
+                OFFSET $${params.length}
+            )
+            SELECT t.tx_hash, t.height, t.tx_index, t.block_time, e.event_type, e.attributes
+            FROM staking_txs t
+            JOIN events e ON ${eventFilter('t')}
+            ORDER BY t.height DESC, t.tx_index DESC
+          `,
+          params,
+        ),
+        this.validatorsService.getValidatorMonikers(),
+      ]);
+
+      const activityTypes = Object.fromEntries(
+        Object.entries(ACTIVITY_EVENT_TYPES).map(([type, eventType]) => [eventType, type]),
+      ) as Record<string, StakingActivityType>;
+
+      const data = result.rows.map(row => {
+        const attributes = row.attributes ?? {};
+        const type = activityTypes[row.event_type];
+        const validator =
+          type === 'redelegate' ? attributes.source_validator : attributes.validator;
+        const destination = type === 'redelegate' ? attributes.destination_validator : null;
+
+        return {
+          tx_hash: row.tx_hash,
+          height: Number(row.height),
+          block_time: new Date(row.block_time).toISOString(),
+          type,
+          validator_address: validator ?? null,
+          validator_moniker: validator ? (monikers.get(validator) ?? null) : null,
+          destination_validator_address: destination ?? null,
+          destination_validator_moniker: destination ? (monikers.get(destination) ?? null) : null,
+          amount: this.parseAmount(attributes.amount),
+          completion_time: attributes.completion_time ?? null,
+        };
+      });
+
+      const transactions = [
+        ...new Map(result.rows.map(row => [row.tx_hash, row] as const)).values(),
+      ];
+
+      return {
+        data,
+        limit,
+        offset,
+        next_cursor: buildNextCursor(transactions, limit),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch staking timeline for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private toEntry(entry: Record<string, string>, balance: string): UnbondingEntry {
+    return {
+      creation_height: entry.creation_height,
+      completion_time: entry.completion_time,
+      initial_balance: entry.initial_balance,
+      balance,
+    };
+  }
+
+  private parseAmount(raw: string | undefined): Coin[] {
+    // Staking events on older SDK versions report a bare bond-denom integer
+    if (raw && /^\d+$/.test(raw)) {
+      return [{ amount: raw, denom: BOND_DENOM }];
+    }
+    return parseCoins(raw);
+  }
+}
@@ -10,6 +10,8 @@ import {
   UseInterceptors,
 } from '@nestjs/common';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import {
   AccountDetails,
   AccountTransactionsResponse,
@@ -19,15 +21,31 @@ import {
   ValdoraStakingTransaction,
 } from '../dto/schema.dto';
 import { AccountsService } from './accounts.service';
-import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import {
+  AccountRedelegations,
+  AccountStakingService,
+  AccountUnbondingDelegations,
+  StakingTimeline,
+} from './account-staking.service';
+import { AccountPortfolio, PortfolioService } from './portfolio.service';
+import { BalanceHistory, BalanceHistoryService } from './balance-history.service';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { AccountTransactionsQueryDto } from './dto/account-transactions-query.dto';
+import { BalanceHistoryQueryDto } from './dto/balance-history-query.dto';
+import { StakingTimelineQueryDto } from './dto/staking-timeline-query.dto';
 
 @ApiTags('Accounts')
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.ACCOUNTS_READ)
 export class AccountsController {
-  constructor(private readonly accountsService: AccountsService) {}
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly portfolioService: PortfolioService,
+    private readonly balanceHistoryService: BalanceHistoryService,
+    private readonly accountStakingService: AccountStakingService,
+  ) {}
 
   @Get('account/details/:address')
   @UseGuards(ApiKeyGuard)
@@ -45,6 +63,61 @@ export class AccountsController {
     return result;
   }
 
+  @Get('account/portfolio/:address')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({
+    summary: 'Account portfolio valued in USD and ZIG',
+    description:
+      'Prices balances, delegations, unbonding entries and claimable rewards. ZIG is priced from ' +
+      'CoinGecko and other tokens from Degenter; unpriced assets are listed in `missing_prices` ' +
+      'and excluded from the totals.',
+  })
+  async getAccountPortfolio(@Param('address') address: string): Promise<AccountPortfolio> {
+    const result = await this.portfolioService.getPortfolio(address);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status =
+        normalized.includes('invalid') || normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('account/:address/balance-history')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({
+    summary: 'End-of-period balance series for one denom',
+    description:
+      'Reconstructed from coin_spent / coin_received events and anchored to the current LCD ' +
+      'balance. `consistent` is false when untracked transfers made the walk-back go negative.',
+  })
+  async getBalanceHistory(
+    @Param('address') address: string,
+    @Query() query: BalanceHistoryQueryDto,
+  ): Promise<BalanceHistory> {
+    const result = await this.balanceHistoryService.getBalanceHistory(address, query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status =
+        normalized.includes('invalid') ||
+        normalized.includes('supported') ||
+        normalized.includes('range') ||
+        normalized.includes('_date')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
   @Get('account/token-metadata')
   @UseGuards(ApiKeyGuard)
   @CacheTTL(30)
@@ -86,6 +159,71 @@ export class AccountsController {
     return result;
   }
 
+  @Get('account/unbonding/:address')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({ summary: 'Unbonding delegations of an account with completion times' })
+  async getAccountUnbonding(
+    @Param('address') address: string,
+  ): Promise<AccountUnbondingDelegations> {
+    const result = await this.accountStakingService.getUnbondingDelegations(address);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status =
+        normalized.includes('invalid') || normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('account/redelegations/:address')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({ summary: 'In-progress redelegations of an account' })
+  async getAccountRedelegations(@Param('address') address: string): Promise<AccountRedelegations> {
+    const result = await this.accountStakingService.getRedelegations(address);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status =
+        normalized.includes('invalid') || normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('account/staking-timeline/:address')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({
+    summary: 'Delegate, undelegate, redelegate and reward withdrawal history of an account',
+    description: 'Newest first. Page with `next_cursor`.',
+  })
+  async getAccountStakingTimeline(
+    @Param('address') address: string,
+    @Query() query: StakingTimelineQueryDto,
+  ): Promise<StakingTimeline> {
+    const result = await this.accountStakingService.getStakingTimeline(address, query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status =
+        normalized.includes('invalid') || normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
   @Get('accounts/total')
   @UseGuards(ApiKeyGuard)
   @CacheTTL(60)
@@ -3,13 +3,31 @@ import { AuthModule } from '../auth/auth.module';
 import { BlockchainModule } from '../blockchain/blockchain.module';
 import { ClickhouseModule } from '../clickhouse/clickhouse.module';
 import { DatabaseModule } from '../database/database.module';
+import { DefiModule } from '../defi/defi.module';
+import { IbcModule } from '../ibc/ibc.module';
+import { SupplyModule } from '../supply/supply.module';
+import { ValidatorsModule } from '../validators/validators.module';
 import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
 import { AccountsController } from './accounts.controller';
+import { AccountStakingService } from './account-staking.service';
 import { AccountsService } from './accounts.service';
+import { BalanceHistoryService } from './balance-history.service';
+import { PortfolioService } from './portfolio.service';
 
 @Module({
-  imports: [AuthModule, BlockchainModule, ClickhouseModule, DatabaseModule, ZigscanPostgresModule],
+  imports: [
+    AuthModule,
+    BlockchainModule,
+    ClickhouseModule,
+    DatabaseModule,
+    DefiModule,
+    IbcModule,
+    SupplyModule,
+    ValidatorsModule,
+    ZigscanPostgresModule,
+  ],
   controllers: [AccountsController],
-  providers: [AccountsService],
+  providers: [AccountsService, AccountStakingService, BalanceHistoryService, PortfolioService],
+  exports: [AccountsService],
 })
 export class AccountsModule {}
@@ -1,7 +1,8 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { AxiosResponse } from 'axios';
 import axios from 'axios';
 import { BlockchainService } from '../blockchain/blockchain.service';
+import { IbcDenomService } from '../ibc/ibc-denom.service';
 import {
   AccountDetails,
   AccountTransaction,
@@ -14,15 +15,25 @@ import {
 import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
 import { AccountTransactionsQueryDto } from './dto/account-transactions-query.dto';
 import { ClickhouseService } from '../clickhouse/clickhouse.service';
+import { buildNextCursor, decodeCursor, KeysetCursor } from '../common/utils/cursor.utils';
+import { decodeVestingAccount, getBaseAccount } from '../common/utils/vesting.utils';
 
 interface BalanceItem {
   denom: string;
   amount: string;
 }
 
+export interface DenomDisplay {
+  symbol: string;
+  decimals: number;
+}
+
+export type DenomResolver = (denom: string) => Promise<DenomDisplay>;
+
 @Injectable()
 export class AccountsService {
   private readonly logger = new Logger(AccountsService.name);
+  private readonly COUNT_SAMPLE_SIZE = 10000;
 
   // Cached registry asset list (in-memory, soft TTL)
   private registryAssetList: {
@@ -48,6 +59,7 @@ export class AccountsService {
     private readonly blockchainService: BlockchainService,
     private readonly zigscanPostgresService: ZigscanPostgresService,
     private readonly clickhouseService: ClickhouseService,
+    private readonly ibcDenomService: IbcDenomService,
   ) {}
 
   async getAccountDetails(address: string): Promise<AccountDetails | { error: string }> {
@@ -79,10 +91,17 @@ export class AccountsService {
 
       const claimableRewards = 'error' in rewardsResult ? null : rewardsResult;
       const transactionStats = await this.fetchAccountTransactionStats(address);
+      const vesting = accountResponse.data?.account
+        ? decodeVestingAccount(
+            accountResponse.data.account,
+            balanceResponse.status < 400 ? (balanceResponse.data?.balances ?? []) : [],
+          )
+        : null;
 
       return {
         account_info: accountInfo,
         balance,
+        vesting,
         claimable_rewards: claimableRewards,
         total_transactions: transactionStats?.total_transactions ?? null,
         first_block_height: transactionStats?.first_block_height ?? null,
@@ -240,12 +259,33 @@ export class AccountsService {
       return { error: validationError };
     }
 
+    let cursor: KeysetCursor | null = null;
+    if (pagination.cursor) {
+      cursor = decodeCursor(pagination.cursor);
+      if (!cursor) {
+        throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+      }
+    }
+
+    const fromHeight = pagination.from_height ?? null;
+    const toHeight = pagination.to_height ?? null;
+    if (fromHeight !== null && toHeight !== null && fromHeight > toHeight) {
+      return { error: 'Invalid height range: from_height must not exceed to_height' };
+    }
+
+    const fromDate = pagination.from_date ?? null;
+    const toDate = pagination.to_date ?? null;
+    if (fromDate && toDate && new Date(fromDate).getTime() > new Date(toDate).getTime()) {
+      return { error: 'Invalid date range: from_date must not be after to_date' };
+    }
+
     const limit = Math.min(Math.max(Number(pagination.limit ?? 10), 1), 1000);
-    const offset = Math.max(Number(pagination.offset ?? 0), 0);
+    const offset = cursor ? 0 : Math.max(Number(pagination.offset ?? 0), 0);
 
     type AccountTransactionRow = {
       tx_hash: string | null;
       height: number | null;
+      tx_index: number | null;
       block_time: Date | string | null;
       code: number | null;
       signer: string | null;
@@ -281,10 +321,34 @@ export class AccountsService {
       return { list, addParam };
     };
 
+    const buildRangeClause = (addParam: (value: string | number) => string): string => {
+      const conditions: string[] = [];
+      if (fromHeight !== null) {
+        conditions.push(`AND height >= ${addParam(fromHeight)}::bigint`);
+      }
+      if (toHeight !== null) {
+        conditions.push(`AND height <= ${addParam(toHeight)}::bigint`);
+      }
+      if (fromDate) {
+        conditions.push(`AND block_time >= ${addParam(fromDate)}`);
+      }
+      if (toDate) {
+        conditions.push(`AND block_time < ${addParam(toDate)}`);
+      }
+      return conditions.join('\n            ');
+    };
+
     const dataParams = buildParams();
     const addressPlaceholder = dataParams.addParam(address);
     const limitPlaceholder = dataParams.addParam(limit);
     const offsetPlaceholder = dataParams.addParam(offset);
+    const rangeClause = buildRangeClause(dataParams.addParam);
+    let cursorClause = '';
+    if (cursor) {
+      const heightPlaceholder = dataParams.addParam(cursor.height);
+      const txIndexPlaceholder = dataParams.addParam(cursor.txIndex);
+      cursorClause = `AND (height, tx_index) < (${heightPlaceholder}::bigint, ${txIndexPlaceholder}::int)`;
+    }
     let actionClause = '';
     if (hasActionFilter) {
       const actionPlaceholder = dataParams.addParam(actionFilter!);
@@ -296,6 +360,7 @@ export class AccountsService {
 
     const totalParams = buildParams();
     totalParams.addParam(address);
+    const totalRangeClause = buildRangeClause(totalParams.addParam);
     let totalActionClause = '';
     if (hasActionFilter) {
       const totalActionPlaceholder = totalParams.addParam(actionFilter!);
@@ -325,8 +390,9 @@ export class AccountsService {
                 tx_index
             FROM address_transactions
             WHERE address = ${addressPlaceholder}
+            ${rangeClause}
+            ${cursorClause}
             ORDER BY height DESC, tx_index DESC
-            LIMIT 5000
         ),
         filtered_txs AS (
             SELECT *
@@ -340,6 +406,7 @@ export class AccountsService {
         SELECT
             at.tx_hash,
             at.height,
+            at.tx_index,
             at.block_time,
             at.code,
             at.event_types,
@@ -543,8 +610,10 @@ export class AccountsService {
         ORDER BY at.height DESC, at.tx_index DESC
     `;
 
+    // Matching rows are counted exactly within the newest COUNT_SAMPLE_SIZE rows of the range;
+    // past that the total is extrapolated from the raw row count and flagged as estimated.
     const totalSql = `
-        WITH limited_txs AS (
+        WITH sampled_txs AS (
             SELECT
                 tx_hash,
                 height,
@@ -555,22 +624,48 @@ export class AccountsService {
                 tx_index
             FROM address_transactions
             WHERE address = $1
+            ${totalRangeClause}
             ORDER BY height DESC, tx_index DESC
-            LIMIT 10000
+            LIMIT ${this.COUNT_SAMPLE_SIZE}
         )
-        SELECT COUNT(*) AS total_count
-        FROM limited_txs at
-        WHERE ${filteredCondition}
-        ${totalActionClause}
+        SELECT
+            COUNT(*) AS sampled_count,
+            COUNT(*) FILTER (
+                WHERE ${filteredCondition}
+                ${totalActionClause}
+            ) AS total_count
+        FROM sampled_txs at
+    `;
+
+    const rawCountParams = buildParams();
+    rawCountParams.addParam(address);
+    const rawCountSql = `
+        SELECT COUNT(*) AS raw_count
+        FROM address_transactions
+        WHERE address = $1
+        ${buildRangeClause(rawCountParams.addParam)}
     `;
 
     try {
       const [rowsResult, totalRowsResult] = await Promise.all([
         this.zigscanPostgresService.query<AccountTransactionRow>(dataSql, dataParams.list),
-        this.zigscanPostgresService.query<{ total_count: number }>(totalSql, totalParams.list),
+        this.zigscanPostgresService.query<{
+          sampled_count: number | string;
+          total_count: number | string;
+        }>(totalSql, totalParams.list),
       ]);
 
-      const totalCount = Number(totalRowsResult.rows[0]?.total_count ?? 0) || 0;
+      const sampledCount = Number(totalRowsResult.rows[0]?.sampled_count ?? 0) || 0;
+      let totalCount = Number(totalRowsResult.rows[0]?.total_count ?? 0) || 0;
+      const totalCountEstimated = sampledCount >= this.COUNT_SAMPLE_SIZE;
+
+      if (totalCountEstimated) {
+        const rawCountResult = await this.zigscanPostgresService.query<{
+          raw_count: number | string;
+        }>(rawCountSql, rawCountParams.list);
+        const rawCount = Number(rawCountResult.rows[0]?.raw_count ?? 0) || 0;
+        totalCount = Math.round((rawCount * totalCount) / sampledCount);
+      }
 
       return {
         data: rowsResult.rows.map(row => ({
@@ -590,8 +685,10 @@ export class AccountsService {
           raw_wasm: row.raw_wasm ?? null,
         })),
         total_count: totalCount,
+        total_count_estimated: totalCountEstimated,
         limit,
         offset,
+        next_cursor: buildNextCursor(rowsResult.rows, limit),
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -600,7 +697,7 @@ export class AccountsService {
     }
   }
 
-  private validateAddress(address: string): string | null {
+  validateAddress(address: string): string | null {
     if (address.startsWith('zigvaloper')) {
       return "Validator operator addresses are not supported. Please use a regular account address (starting with 'zig1')";
     }
@@ -674,7 +771,9 @@ WHERE address = '${escapedAddress}'
     response: AxiosResponse<Record<string, any>>,
   ): Record<string, any> | string {
     if (response.status === 200 && response.data?.account) {
-      return response.data.account as Record<string, any>;
+      const account = response.data.account as Record<string, any>;
+      // Vesting and module accounts nest address, account_number and sequence; lift them up
+      return { ...account, ...getBaseAccount(account) };
     }
 
     if (response.status === 404) {
@@ -797,37 +896,21 @@ WHERE address = '${escapedAddress}'
       }
 
       if (denom.startsWith('ibc/')) {
-        const ibcHash = denom.replace('ibc/', '');
-        const response = await this.blockchainService.getFromApi<Record<string, any>>(
-          `/ibc/apps/transfer/v1/denom_traces/${ibcHash}`,
-        );
+        const resolved = await this.ibcDenomService.resolve(denom);
 
-        if (response.status === 200 && response.data?.denom_trace) {
-          const trace = response.data.denom_trace as Record<string, any>;
-          const baseDenom = (trace.base_denom as string) ?? denom;
-
-          // Derive a human-friendly symbol from the base denom.
-          // Common pattern: micro-denoms start with 'u' (e.g., 'uatom' -> 'ATOM').
-          let symbol = baseDenom;
-          if (typeof baseDenom === 'string') {
-            if (baseDenom.startsWith('u') && baseDenom.length > 1) {
-              symbol = baseDenom.substring(1).toUpperCase();
-            } else if (baseDenom.includes('-')) {
-              // some denoms use hyphens, take the last segment
-              const parts = baseDenom.split('-');
-              symbol = parts[parts.length - 1].toUpperCase();
-            } else {
-              symbol = baseDenom.toUpperCase();
-            }
-          }
+        if (resolved) {
+          const baseDenom = resolved.base_denom;
+          const origin = resolved.origin_chain_name ?? resolved.origin_chain_id;
 
           return {
-            name: baseDenom,
-            symbol,
-            description: `IBC token from ${trace.path ?? 'unknown'}`,
-            // default decimals for IBC assets commonly follow their base denom (6 assumed here)
-            decimals: 6,
-            image_url: await this.getTokenImageUrl(denom, baseDenom),
+            name: resolved.name ?? baseDenom,
+            symbol: resolved.symbol ?? this.symbolFromBaseDenom(baseDenom),
+            description:
+              resolved.description ??
+              `IBC token ${baseDenom} from ${origin ?? resolved.path ?? 'unknown'}`,
+            // Without a registry entry, assume the common 6 decimals of micro-denoms
+            decimals: resolved.decimals ?? 6,
+            image_url: resolved.image_url ?? (await this.getTokenImageUrl(denom, baseDenom)),
           };
         }
       }
@@ -917,6 +1000,48 @@ WHERE address = '${escapedAddress}'
     }
   }
 
+  /**
+   * Symbol and decimals for showing amounts of a denom, memoized for the lifetime of the
+   * returned resolver so one decode or export looks each denom up once. Denoms without
+   * metadata are shown in base units.
+   */
+  createDenomResolver(): DenomResolver {
+    const cache = new Map<string, Promise<DenomDisplay>>();
+
+    return denom => {
+      let display = cache.get(denom);
+      if (!display) {
+        display = this.getMetadataForDenom(denom).then(result => {
+          if ('error' in result) {
+            this.logger.warn(`Showing ${denom} in base units: ${result.error}`);
+            return { symbol: denom, decimals: 0 };
+          }
+          return {
+            symbol: result.metadata.symbol || denom,
+            decimals: Number(result.metadata.decimals ?? 0) || 0,
+          };
+        });
+        cache.set(denom, display);
+      }
+      return display;
+    };
+  }
+
+  /**
+   * Human-friendly symbol from a base denom, e.g. micro-denoms `uatom` -> `ATOM`
+   */
+  private symbolFromBaseDenom(baseDenom: string): string {
+    if (baseDenom.startsWith('u') && baseDenom.length > 1) {
+      return baseDenom.substring(1).toUpperCase();
+    }
+    if (baseDenom.includes('-')) {
+      // some denoms use hyphens, take the last segment
+      const parts = baseDenom.split('-');
+      return parts[parts.length - 1].toUpperCase();
+    }
+    return baseDenom.toUpperCase();
+  }
+
   private async resolveTokenImageFromUri(uri: string): Promise<string> {
     try {
       // Check if URI points to IPFS (Pinata or other gateways)
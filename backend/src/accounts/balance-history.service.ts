@@ -0,0 +1,270 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoins, toDisplayAmount } from '../common/utils/coin.utils';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { AccountsService } from './accounts.service';
+import { BalanceHistoryInterval, BalanceHistoryQueryDto } from './dto/balance-history-query.dto';
+
+export interface BalanceHistoryPoint {
+  period_start: string;
+  balance: string;
+  display_balance: string;
+  received: string;
+  spent: string;
+  net_change: string;
+}
+
+export interface BalanceHistory {
+  address: string;
+  denom: string;
+  symbol: string;
+  decimals: number;
+  interval: BalanceHistoryInterval;
+  from: string;
+  to: string;
+  anchor: { source: 'lcd'; balance: string; as_of: string };
+  // False when walking back from the anchor produced a negative balance, which means some
+  // transfers happened outside transactions (e.g. end-block payouts) and were not indexed
+  consistent: boolean;
+  points: BalanceHistoryPoint[];
+}
+
+interface FlowRow {
+  block_time: Date | string;
+  event_type: 'coin_spent' | 'coin_received';
+  amount: string | null;
+}
+
+@Injectable()
+export class BalanceHistoryService {
+  private readonly logger = new Logger(BalanceHistoryService.name);
+  private readonly MAX_POINTS = 1000;
+
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+  ) {}
+
+  /**
+   * End-of-period balances for one denom. The series is anchored to the current LCD balance and
+   * walked backwards through the account's coin_spent / coin_received events, so it always ends
+   * at the live balance even if older history is incomplete.
+   */
+  async getBalanceHistory(
+    address: string,
+    query: BalanceHistoryQueryDto,
+  ): Promise<BalanceHistory | { error: string }> {
+    const validationError = this.accountsService.validateAddress(address);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    const denom = query.denom ?? 'uzig';
+    const interval = query.interval ?? 'day';
+    const now = new Date();
+    const to = query.to_date ? new Date(query.to_date) : now;
+    if (to > now) {
+      return { error: 'to_date cannot be in the future' };
+    }
+
+    try {
+      const from = query.from_date
+        ? new Date(query.from_date)
+        : await this.getDefaultStart(address, to, interval);
+      if (from > to) {
+        return { error: 'from_date must be before to_date' };
+      }
+
+      const periods = this.buildPeriods(from, to, interval);
+      if (periods.length > this.MAX_POINTS) {
+        return {
+          error: `Range covers more than ${this.MAX_POINTS} ${interval} periods. Use a larger interval or a shorter range.`,
+        };
+      }
+
+      const [anchor, metadata] = await Promise.all([
+        this.fetchCurrentBalance(address, denom),
+        this.accountsService.getMetadataForDenom(denom),
+      ]);
+      const decimals = 'error' in metadata ? 0 : (metadata.metadata.decimals ?? 0);
+      const symbol = 'error' in metadata ? denom : (metadata.metadata.symbol ?? denom);
+
+      // Flows are needed from the first period up to now, since everything after a period's end
+      // has to be rolled back off the anchor
+      const flows = await this.collectFlows(address, denom, periods[0], interval);
+
+      const points: BalanceHistoryPoint[] = [];
+      let balance = BigInt(anchor);
+      for (const [periodStart, flow] of flows) {
+        if (periodStart > periods[periods.length - 1].getTime()) {
+          balance -= flow.received - flow.spent;
+        }
+      }
+
+      let consistent = true;
+      for (let index = periods.length - 1; index >= 0; index -= 1) {
+        const flow = flows.get(periods[index].getTime()) ?? { received: 0n, spent: 0n };
+        if (balance < 0n) {
+          consistent = false;
+        }
+        points.push({
+          period_start: periods[index].toISOString(),
+          balance: balance.toString(),
+          display_balance: toDisplayAmount(balance.toString(), decimals),
+          received: flow.received.toString(),
+          spent: flow.spent.toString(),
+          net_change: (flow.received - flow.spent).toString(),
+        });
+        balance -= flow.received - flow.spent;
+      }
+      if (balance < 0n) {
+        consistent = false;
+      }
+
+      return {
+        address,
+        denom,
+        symbol,
+        decimals,
+        interval,
+        from: periods[0].toISOString(),
+        to: to.toISOString(),
+        anchor: { source: 'lcd', balance: anchor, as_of: now.toISOString() },
+        consistent,
+        points: points.reverse(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to build balance history for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private async fetchCurrentBalance(address: string, denom: string): Promise<string> {
+    const response = await this.blockchainService.getFromApi<{
+      balance?: { denom: string; amount: string };
+    }>(`/cosmos/bank/v1beta1/balances/${address}/by_denom`, { params: { denom } });
+
+    if (response.status === 404) {
+      return '0';
+    }
+    if (response.status >= 400) {
+      throw new Error(`Failed to fetch balance: HTTP ${response.status}`);
+    }
+    return response.data?.balance?.amount ?? '0';
+  }
+
+  private async getDefaultStart(
+    address: string,
+    to: Date,
+    interval: BalanceHistoryInterval,
+  ): Promise<Date> {
+    const result = await this.zigscanPostgresService.query<{ first_seen: Date | null }>(
+      `
+        SELECT MIN(block_time) AS first_seen
+        FROM address_transactions
+        WHERE address = $1
+      `,
+      [address],
+    );
+
+    const firstSeen = result.rows[0]?.first_seen ? new Date(result.rows[0].first_seen) : to;
+    // Without an explicit range, show the most recent MAX_POINTS periods at most
+    let earliest = this.truncate(to, interval);
+    for (let count = 1; count < this.MAX_POINTS; count += 1) {
+      earliest = this.shift(earliest, interval, -1);
+    }
+    return firstSeen < earliest ? earliest : firstSeen;
+  }
+
+  /**
+   * Net received and spent amounts per period start (epoch ms), from `since` to now
+   */
+  private async collectFlows(
+    address: string,
+    denom: string,
+    since: Date,
+    interval: BalanceHistoryInterval,
+  ): Promise<Map<number, { received: bigint; spent: bigint }>> {
+    const flows = new Map<number, { received: bigint; spent: bigint }>();
+
+    const sql = `
+      SELECT at.block_time, e.event_type, e.attributes ->> 'amount' AS amount
+      FROM (
+          SELECT DISTINCT tx_hash, block_time
+          FROM address_transactions
+          WHERE address = $1
+            AND block_time >= $2
+      ) at
+      JOIN events e ON e.tx_hash = at.tx_hash
+      WHERE (e.event_type = 'coin_spent' AND e.attributes ->> 'spender' = $1)
+         OR (e.event_type = 'coin_received' AND e.attributes ->> 'receiver' = $1)
+    `;
+
+    for await (const batch of this.zigscanPostgresService.stream<FlowRow>(sql, [address, since])) {
+      for (const row of batch) {
+        const coin = parseCoins(row.amount).find(entry => entry.denom === denom);
+        if (!coin) {
+          continue;
+        }
+
+        const key = this.truncate(new Date(row.block_time), interval).getTime();
+        const flow = flows.get(key) ?? { received: 0n, spent: 0n };
+        if (row.event_type === 'coin_received') {
+          flow.received += BigInt(coin.amount);
+        } else {
+          flow.spent += BigInt(coin.amount);
+        }
+        flows.set(key, flow);
+      }
+    }
+
+    return flows;
+  }
+
+  private buildPeriods(from: Date, to: Date, interval: BalanceHistoryInterval): Date[] {
+    const periods: Date[] = [];
+    const last = this.truncate(to, interval).getTime();
+    for (
+      let period = this.truncate(from, interval);
+      period.getTime() <= last && periods.length <= this.MAX_POINTS;
+      period = this.shift(period, interval, 1)
+    ) {
+      periods.push(period);
+    }
+    return periods;
+  }
+
+  private truncate(date: Date, interval: BalanceHistoryInterval): Date {
+    const truncated = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()),
+    );
+    if (interval === 'hour') {
+      return truncated;
+    }
+
+    truncated.setUTCHours(0);
+    if (interval === 'week') {
+      // ISO weeks start on Monday
+      truncated.setUTCDate(truncated.getUTCDate() - ((truncated.getUTCDay() + 6) % 7));
+    } else if (interval === 'month') {
+      truncated.setUTCDate(1);
+    }
+    return truncated;
+  }
+
+  private shift(date: Date, interval: BalanceHistoryInterval, steps: number): Date {
+    const shifted = new Date(date.getTime());
+    if (interval === 'hour') {
+      shifted.setUTCHours(shifted.getUTCHours() + steps);
+    } else if (interval === 'day') {
+      shifted.setUTCDate(shifted.getUTCDate() + steps);
+    } else if (interval === 'week') {
+      shifted.setUTCDate(shifted.getUTCDate() + 7 * steps);
+    } else {
+      shifted.setUTCMonth(shifted.getUTCMonth() + steps);
+    }
+    return shifted;
+  }
+}
@@ -1,8 +1,9 @@
-import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { CursorPaginationQueryDto } from '../../common/dto/cursor-pagination-query.dto';
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, IsString, Min } from 'class-validator';
 
-export class AccountTransactionsQueryDto extends PaginationQueryDto {
+export class AccountTransactionsQueryDto extends CursorPaginationQueryDto {
   @ApiPropertyOptional({
     description: 'Filter results by action type (supports SQL wildcard %)',
     example: '/%',
@@ -10,4 +11,41 @@ export class AccountTransactionsQueryDto extends PaginationQueryDto {
   @IsOptional()
   @IsString()
   action_type?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions at or above this block height',
+    minimum: 1,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  from_height?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions at or below this block height',
+    minimum: 1,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  to_height?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Only include transactions at or after this time (ISO format: 2025-10-01T00:00:00)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions before this time (ISO format: 2025-10-31T23:59:59)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to_date?: string;
 }
@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+
+export const BALANCE_HISTORY_INTERVALS = ['hour', 'day', 'week', 'month'] as const;
+export type BalanceHistoryInterval = (typeof BALANCE_HISTORY_INTERVALS)[number];
+
+export class BalanceHistoryQueryDto {
+  @ApiPropertyOptional({ description: 'Denom to chart', default: 'uzig' })
+  @IsOptional()
+  @IsString()
+  denom = 'uzig';
+
+  @ApiPropertyOptional({
+    description: 'Period length; each point is the balance at the end of its period (UTC)',
+    enum: BALANCE_HISTORY_INTERVALS,
+    default: 'day',
+  })
+  @IsOptional()
+  @IsIn(BALANCE_HISTORY_INTERVALS)
+  interval: BalanceHistoryInterval = 'day';
+
+  @ApiPropertyOptional({
+    description: 'Start of the series (ISO format). Defaults to the first account activity.',
+  })
+  @IsOptional()
+  @IsDateString()
+  from_date?: string;
+
+  @ApiPropertyOptional({ description: 'End of the series (ISO format). Defaults to now.' })
+  @IsOptional()
+  @IsDateString()
+  to_date?: string;
+}
@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { CursorPaginationQueryDto } from '../../common/dto/cursor-pagination-query.dto';
+
+export const STAKING_ACTIVITY_TYPES = [
+  'delegate',
+  'undelegate',
+  'redelegate',
+  'withdraw_rewards',
+] as const;
+export type StakingActivityType = (typeof STAKING_ACTIVITY_TYPES)[number];
+
+export class StakingTimelineQueryDto extends CursorPaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only include one kind of staking activity',
+    enum: STAKING_ACTIVITY_TYPES,
+  })
+  @IsOptional()
+  @IsIn(STAKING_ACTIVITY_TYPES)
+  type?: StakingActivityType;
+}
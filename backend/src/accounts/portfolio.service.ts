@@ -0,0 +1,374 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { toDisplayAmount } from '../common/utils/coin.utils';
+import { DefiService } from '../defi/defi.service';
+import { ZigSupplyService } from '../supply/supply.service';
+import { AccountsService } from './accounts.service';
+
+export type PortfolioPositionType = 'balance' | 'delegation' | 'unbonding' | 'reward';
+
+export interface PortfolioPosition {
+  type: PortfolioPositionType;
+  denom: string;
+  amount: string;
+  display_amount: string;
+  validator_address: string | null;
+  completion_time: string | null;
+  value_usd: number | null;
+  value_zig: number | null;
+}
+
+export interface PortfolioAsset {
+  denom: string;
+  symbol: string;
+  decimals: number;
+  amount: string;
+  display_amount: string;
+  price_usd: number | null;
+  price_zig: number | null;
+  value_usd: number | null;
+  value_zig: number | null;
+  share: number | null;
+  breakdown: Record<PortfolioPositionType, string>;
+}
+
+export interface MissingPrice {
+  denom: string;
+  reason: string;
+}
+
+export interface AccountPortfolio {
+  address: string;
+  priced_at: string;
+  zig_price_usd: number | null;
+  total_value_usd: number;
+  total_value_zig: number;
+  complete: boolean;
+  by_type: Record<PortfolioPositionType, { value_usd: number; value_zig: number }>;
+  assets: PortfolioAsset[];
+  positions: PortfolioPosition[];
+  missing_prices: MissingPrice[];
+}
+
+interface DenomPricing {
+  symbol: string;
+  decimals: number;
+  priceUsd: number | null;
+  priceZig: number | null;
+  missingReason: string | null;
+}
+
+interface RawPosition {
+  type: PortfolioPositionType;
+  denom: string;
+  amount: string;
+  validatorAddress?: string;
+  completionTime?: string;
+}
+
+const BOND_DENOM = 'uzig';
+const POSITION_TYPES: PortfolioPositionType[] = ['balance', 'delegation', 'unbonding', 'reward'];
+
+@Injectable()
+export class PortfolioService {
+  private readonly logger = new Logger(PortfolioService.name);
+  private readonly PRICE_TTL_MS = 60 * 1000;
+
+  // Short-lived price caches so valuing many accounts does not hammer CoinGecko and Degenter
+  private zigPrice: { value: number | null; fetchedAt: number } | null = null;
+  private readonly denomPrices = new Map<string, { value: DenomPricing; fetchedAt: number }>();
+
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly zigSupplyService: ZigSupplyService,
+    private readonly defiService: DefiService,
+  ) {}
+
+  /**
+   * Values every balance, delegation, unbonding entry and claimable reward of an account in USD
+   * and ZIG. Assets missing either price are listed in `missing_prices` and left out of the
+   * totals in that currency.
+   */
+  async getPortfolio(address: string): Promise<AccountPortfolio | { error: string }> {
+    const delegations = await this.accountsService.getAccountDelegations(address);
+    if ('error' in delegations) {
+      return delegations;
+    }
+
+    try {
+      const [balances, unbonding, rewards, zigPriceUsd] = await Promise.all([
+        this.fetchBalances(address),
+        this.fetchUnbonding(address),
+        this.accountsService.getClaimableRewards(address),
+        this.getZigPriceUsd(),
+      ]);
+
+      const positions: RawPosition[] = [
+        ...balances,
+        ...delegations.delegation_responses.map(entry => ({
+          type: 'delegation' as const,
+          denom: entry.balance.denom,
+          amount: entry.balance.amount,
+          validatorAddress: entry.delegation.validator_address,
+        })),
+        ...unbonding,
+        ...('error' in rewards ? [] : rewards.rewards).flatMap(entry =>
+          entry.reward.map(coin => ({
+            type: 'reward' as const,
+            denom: coin.denom,
+            // Rewards are DecCoins; only whole base units can be withdrawn
+            amount: coin.amount.split('.')[0],
+            validatorAddress: entry.validator_address,
+          })),
+        ),
+      ].filter(position => BigInt(position.amount || '0') > 0n);
+
+      const denoms = [...new Set(positions.map(position => position.denom))];
+      const pricing = new Map(
+        await Promise.all(
+          denoms.map(
+            async denom => [denom, await this.getDenomPricing(denom, zigPriceUsd)] as const,
+          ),
+        ),
+      );
+
+      return this.buildPortfolio(address, positions, pricing, zigPriceUsd);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to value portfolio for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private buildPortfolio(
+    address: string,
+    rawPositions: RawPosition[],
+    pricing: Map<string, DenomPricing>,
+    zigPriceUsd: number | null,
+  ): AccountPortfolio {
+    const byType = Object.fromEntries(
+      POSITION_TYPES.map(type => [type, { value_usd: 0, value_zig: 0 }]),
+    ) as AccountPortfolio['by_type'];
+    const totalsByDenom = new Map<string, Record<PortfolioPositionType, bigint>>();
+
+    const positions = rawPositions.map(position => {
+      const price = pricing.get(position.denom);
+      const displayAmount = toDisplayAmount(position.amount, price.decimals);
+      const valueUsd = this.value(displayAmount, price.priceUsd);
+      const valueZig = this.value(displayAmount, price.priceZig);
+
+      byType[position.type].value_usd += valueUsd ?? 0;
+      byType[position.type].value_zig += valueZig ?? 0;
+
+      const totals =
+        totalsByDenom.get(position.denom) ??
+        (Object.fromEntries(POSITION_TYPES.map(type => [type, 0n])) as Record<
+          PortfolioPositionType,
+          bigint
+        >);
+      totals[position.type] += BigInt(position.amount);
+      totalsByDenom.set(position.denom, totals);
+
+      return {
+        type: position.type,
+        denom: position.denom,
+        amount: position.amount,
+        display_amount: displayAmount,
+        validator_address: position.validatorAddress ?? null,
+        completion_time: position.completionTime ?? null,
+        value_usd: valueUsd,
+        value_zig: valueZig,
+      };
+    });
+
+    const totalValueUsd = POSITION_TYPES.reduce((sum, type) => sum + byType[type].value_usd, 0);
+    const totalValueZig = POSITION_TYPES.reduce((sum, type) => sum + byType[type].value_zig, 0);
+
+    const assets = [...totalsByDenom.entries()]
+      .map(([denom, totals]) => {
+        const price = pricing.get(denom);
+        const amount = POSITION_TYPES.reduce((sum, type) => sum + totals[type], 0n).toString();
+        const displayAmount = toDisplayAmount(amount, price.decimals);
+        const valueUsd = this.value(displayAmount, price.priceUsd);
+        return {
+          denom,
+          symbol: price.symbol,
+          decimals: price.decimals,
+          amount,
+          display_amount: displayAmount,
+          price_usd: price.priceUsd,
+          price_zig: price.priceZig,
+          value_usd: valueUsd,
+          value_zig: this.value(displayAmount, price.priceZig),
+          share:
+            valueUsd !== null && totalValueUsd > 0 ? this.round(valueUsd / totalValueUsd) : null,
+          breakdown: Object.fromEntries(
+            POSITION_TYPES.map(type => [
+              type,
+              toDisplayAmount(totals[type].toString(), price.decimals),
+            ]),
+          ) as Record<PortfolioPositionType, string>,
+        };
+      })
+      .sort((a, b) => (b.value_usd ?? -1) - (a.value_usd ?? -1));
+
+    const missingPrices = [...pricing.entries()]
+      .filter(([, price]) => price.missingReason !== null)
+      .map(([denom, price]) => ({ denom, reason: price.missingReason }));
+
+    for (const type of POSITION_TYPES) {
+      byType[type].value_usd = this.round(byType[type].value_usd);
+      byType[type].value_zig = this.round(byType[type].value_zig);
+    }
+
+    return {
+      address,
+      priced_at: new Date().toISOString(),
+      zig_price_usd: zigPriceUsd,
+      total_value_usd: this.round(totalValueUsd),
+      total_value_zig: this.round(totalValueZig),
+      complete: missingPrices.length === 0,
+      by_type: byType,
+      assets,
+      positions,
+      missing_prices: missingPrices,
+    };
+  }
+
+  private async fetchBalances(address: string): Promise<RawPosition[]> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/cosmos/bank/v1beta1/balances/${address}`,
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    if (response.status >= 400) {
+      throw new Error(`Failed to fetch balance: HTTP ${response.status}`);
+    }
+
+    const balances = (response.data?.balances ?? []) as Array<{ denom: string; amount: string }>;
+    return (
+      balances
+        // Same exclusions as account details: pool shares and LP tokens are not priced assets
+        .filter(
+          item => !item.denom.startsWith('zp') && !item.denom.toLowerCase().includes('lptoken'),
+        )
+        .map(item => ({ type: 'balance' as const, denom: item.denom, amount: item.amount }))
+    );
+  }
+
+  private async fetchUnbonding(address: string): Promise<RawPosition[]> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/cosmos/staking/v1beta1/delegators/${address}/unbonding_delegations`,
+    );
+    if (response.status === 404) {
+      return [];
+    }
+    if (response.status >= 400) {
+      throw new Error(`Failed to fetch unbonding delegations: HTTP ${response.status}`);
+    }
+
+    const unbonding = (response.data?.unbonding_responses ?? []) as Array<{
+      validator_address: string;
+      entries: Array<{ balance: string; completion_time: string }>;
+    }>;
+    return unbonding.flatMap(item =>
+      item.entries.map(entry => ({
+        type: 'unbonding' as const,
+        denom: BOND_DENOM,
+        amount: entry.balance,
+        validatorAddress: item.validator_address,
+        completionTime: entry.completion_time,
+      })),
+    );
+  }
+
+  private async getZigPriceUsd(): Promise<number | null> {
+    if (this.zigPrice && Date.now() - this.zigPrice.fetchedAt < this.PRICE_TTL_MS) {
+      return this.zigPrice.value;
+    }
+
+    let value: number | null = null;
+    try {
+      const priceData = await this.zigSupplyService.getZigPriceData();
+      value = priceData.current_price;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`ZIG price unavailable from CoinGecko: ${message}`);
+    }
+
+    this.zigPrice = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  private async getDenomPricing(denom: string, zigPriceUsd: number | null): Promise<DenomPricing> {
+    if (denom === BOND_DENOM) {
+      return {
+        symbol: 'ZIG',
+        decimals: 6,
+        priceUsd: zigPriceUsd,
+        priceZig: 1,
+        missingReason: zigPriceUsd === null ? 'ZIG price unavailable from CoinGecko' : null,
+      };
+    }
+
+    const cached = this.denomPrices.get(denom);
+    if (cached && Date.now() - cached.fetchedAt < this.PRICE_TTL_MS) {
+      return cached.value;
+    }
+
+    const metadataResult = await this.accountsService.getMetadataForDenom(denom);
+    const metadata = 'error' in metadataResult ? {} : metadataResult.metadata;
+
+    let pricing: DenomPricing;
+    try {
+      const { data: token } = await this.defiService.getTokenByDenom(denom);
+      const priceUsd = this.toPrice(token.priceInUsd ?? token.priceUsd);
+      // Degenter quotes native prices in ZIG
+      const priceZig =
+        this.toPrice(token.priceInNative ?? token.priceNative) ??
+        (priceUsd !== null && zigPriceUsd ? priceUsd / zigPriceUsd : null);
+
+      pricing = {
+        symbol: token.symbol || metadata.symbol || denom,
+        decimals: typeof token.exponent === 'number' ? token.exponent : (metadata.decimals ?? 0),
+        priceUsd: priceUsd ?? (priceZig !== null && zigPriceUsd ? priceZig * zigPriceUsd : null),
+        priceZig,
+        missingReason: null,
+      };
+      if (pricing.priceUsd === null && pricing.priceZig === null) {
+        pricing.missingReason = 'No price reported by Degenter';
+      } else if (pricing.priceZig === null) {
+        pricing.missingReason = 'ZIG price unavailable from CoinGecko; no ZIG value';
+      } else if (pricing.priceUsd === null) {
+        pricing.missingReason = 'ZIG price unavailable from CoinGecko; no USD value';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      pricing = {
+        symbol: metadata.symbol || denom,
+        decimals: metadata.decimals ?? 0,
+        priceUsd: null,
+        priceZig: null,
+        missingReason: `Token not priced: ${message}`,
+      };
+    }
+
+    this.denomPrices.set(denom, { value: pricing, fetchedAt: Date.now() });
+    return pricing;
+  }
+
+  private toPrice(raw: unknown): number | null {
+    const value = typeof raw === 'string' ? Number(raw) : raw;
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+  }
+
+  private value(displayAmount: string, price: number | null): number | null {
+    return price === null ? null : this.round(Number(displayAmount) * price);
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(6));
+  }
+}
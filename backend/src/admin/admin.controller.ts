@@ -1,11 +1,29 @@
-import { Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
-import { ApiKey } from '../auth/decorators/auth-context.decorator';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Headers,
+  Ip,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthContext } from '../auth/decorators/auth-context.decorator';
+import { ApiKeyContext } from '../auth/interfaces/api-key-context.interface';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
 import { AdminGuard } from '../auth/guards/admin.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { AdminService } from './admin.service';
-import { AdminExecuteQueryDto } from './dto/execute-query.dto';
-import { AuditLogQueryDto } from './dto/audit-log-query.dto';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { AdminExecuteQueryDto, AdminExecuteQueryLegacyDto } from './dto/execute-query.dto';
+import { AuditEventsQueryDto } from '../audit/dto/audit-events-query.dto';
+import { AdminQueryLogQueryDto } from './dto/query-log-query.dto';
+import { UpdateRateLimitsDto } from './dto/update-rate-limits.dto';
+import { AdminUsageAnalyticsQueryDto } from './dto/usage-analytics-query.dto';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('Admin')
 @ApiBearerAuth('api-key')
@@ -24,17 +42,73 @@ export class AdminController {
     return this.adminService.getSystemStats();
   }
 
+  @Patch('api-keys/:id/rate-limits')
+  updateRateLimits(@Param('id') id: string, @Body() dto: UpdateRateLimitsDto) {
+    return this.adminService.updateRateLimits(id, dto);
+  }
+
   @Post('execute-query')
-  async executeQuery(@Query() query: AdminExecuteQueryDto, @ApiKey() apiKey?: string) {
-    const result = await this.adminService.executeAdminQuery(query.sql);
+  @RequireScopes(ApiScope.ADMIN_QUERY)
+  @ApiOperation({
+    summary: 'Run a read-only SQL statement',
+    description:
+      'Accepts a single SELECT, WITH or EXPLAIN statement against ClickHouse (default) or ZigScan ' +
+      'Postgres. Runs read-only with execution time and result row limits; every call is audited. ' +
+      'The statement goes in the JSON body; the `sql` query parameter used by older clients is ' +
+      'still accepted but deprecated.',
+  })
+  async executeQuery(
+    @Body() dto: AdminExecuteQueryDto,
+    @Query() legacy: AdminExecuteQueryLegacyDto,
+    @AuthContext() authContext: ApiKeyContext | undefined,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    const sql = dto.sql ?? legacy.sql;
+    if (!sql) {
+      throw new BadRequestException('sql is required');
+    }
+
+    const result = await this.adminService.executeAdminQuery(
+      { ...dto, sql },
+      {
+        apiKeyId: authContext?.apiKeyId,
+        apiKeyPrefix: authContext?.apiKeyPrefix ?? 'unknown',
+        ipAddress,
+        userAgent,
+      },
+    );
     return {
       ...result,
-      executed_by: apiKey ? `${apiKey.slice(0, 8)}...` : 'unknown',
+      executed_by: authContext?.apiKey ? `${authContext.apiKey.slice(0, 8)}...` : 'unknown',
     };
   }
 
+  @Get('query-log')
+  @ApiOperation({ summary: 'History of admin SQL console statements' })
+  getQueryLog(@Query() query: AdminQueryLogQueryDto) {
+    return this.adminService.getQueryLog(query);
+  }
+
   @Get('audit-log')
-  getAuditLog(@Query() query: AuditLogQueryDto) {
-    return this.adminService.getAuditLog(query.limit);
+  @ApiOperation({
+    summary: 'Security audit log',
+    description:
+      'Logins, password resets, API key lifecycle, admin SQL and account deletions, newest ' +
+      'first. Page with `next_cursor`.',
+  })
+  getAuditLog(@Query() query: AuditEventsQueryDto) {
+    return this.adminService.getAuditLog(query);
+  }
+
+  @Get('analytics')
+  @ApiOperation({
+    summary: 'API usage analytics',
+    description:
+      'Requests, errors and bytes per hour or day, p50/p95/p99 latency per route, status code ' +
+      'breakdown and the top client IPs and user agents across all keys, or one key with `apiKeyId`.',
+  })
+  getUsageAnalytics(@Query() query: AdminUsageAnalyticsQueryDto) {
+    return this.adminService.getUsageAnalytics(query);
   }
 }
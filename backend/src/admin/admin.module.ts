@@ -1,12 +1,29 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from '../auth/auth.module';
 import { ClickhouseModule } from '../clickhouse/clickhouse.module';
+import { AdminQueryLog } from '../database/entities/admin-query-log.entity';
+import { SavedQuery } from '../database/entities/saved-query.entity';
+import { SavedQueryRun } from '../database/entities/saved-query-run.entity';
+import { RequestLoggingModule } from '../request-logging/request-logging.module';
+import { UsersModule } from '../users/users.module';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
+import { SavedQueriesController } from './saved-queries.controller';
+import { SavedQueriesService } from './saved-queries.service';
+import { SavedQuerySchedulerService } from './saved-query-scheduler.service';
 
 @Module({
-  imports: [AuthModule, ClickhouseModule],
-  controllers: [AdminController],
-  providers: [AdminService],
+  imports: [
+    TypeOrmModule.forFeature([AdminQueryLog, SavedQuery, SavedQueryRun]),
+    AuthModule,
+    ClickhouseModule,
+    ZigscanPostgresModule,
+    RequestLoggingModule,
+    UsersModule, // EmailService for report delivery
+  ],
+  controllers: [AdminController, SavedQueriesController],
+  providers: [AdminService, SavedQueriesService, SavedQuerySchedulerService],
 })
 export class AdminModule {}
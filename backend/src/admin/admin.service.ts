@@ -1,13 +1,63 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isAxiosError } from 'axios';
+import { types } from 'pg';
+import { Repository } from 'typeorm';
+import { AuditService } from '../audit/audit.service';
+import { AuditEventsQueryDto } from '../audit/dto/audit-events-query.dto';
+import { AuditAction, AuditActorType, AuditOutcome } from '../audit/enums/audit-action.enum';
 import { ApiKeyAuthService } from '../auth/api-key-auth.service';
 import { ClickhouseService } from '../clickhouse/clickhouse.service';
+import { inspectReadOnlySql } from '../common/utils/read-only-sql.utils';
+import { AppConfiguration } from '../config/configuration';
+import { AdminQueryLog } from '../database/entities/admin-query-log.entity';
+import { UsageAnalyticsService } from '../request-logging/usage-analytics.service';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { AdminExecuteQueryDto } from './dto/execute-query.dto';
+import { AdminQueryLogQueryDto } from './dto/query-log-query.dto';
+import { UpdateRateLimitsDto } from './dto/update-rate-limits.dto';
+import { AdminUsageAnalyticsQueryDto } from './dto/usage-analytics-query.dto';
+import { AdminQueryStatus, AdminQueryTarget } from './enums/query-target.enum';
+
+export interface AdminQueryActor {
+  apiKeyId?: string;
+  apiKeyPrefix: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface ConsoleResult {
+  columns: { name: string; type: string }[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+  statistics?: { elapsed_ms: number; rows_read: number; bytes_read: number };
+}
+
+const PG_TYPE_NAMES = new Map<number, string>(
+  Object.entries(types.builtins).map(([name, oid]) => [oid as number, name.toLowerCase()]),
+);
 
 @Injectable()
 export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+  private readonly maxExecutionSeconds: number;
+  private readonly maxResultRows: number;
+
   constructor(
     private readonly authService: ApiKeyAuthService,
     private readonly clickhouseService: ClickhouseService,
-  ) {}
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly configService: ConfigService,
+    @InjectRepository(AdminQueryLog)
+    private readonly queryLogRepository: Repository<AdminQueryLog>,
+    private readonly auditService: AuditService,
+    private readonly usageAnalyticsService: UsageAnalyticsService,
+  ) {
+    const config = this.configService.getOrThrow<AppConfiguration['adminQuery']>('adminQuery');
+    this.maxExecutionSeconds = config.maxExecutionSeconds;
+    this.maxResultRows = config.maxResultRows;
+  }
 
   async listUsers() {
     const [users, systemStats] = await Promise.all([
@@ -25,16 +75,210 @@ export class AdminService {
     return this.authService.getSystemStats();
   }
 
-  async executeAdminQuery(sql: string) {
-    const data = await this.clickhouseService.executeQuery(sql);
+  async updateRateLimits(apiKeyId: string, dto: UpdateRateLimitsDto) {
+    return this.authService.updateRateLimits(apiKeyId, dto);
+  }
+
+  /**
+   * Runs a read-only console statement against ClickHouse or ZigScan Postgres. The statement is
+   * checked before it is sent, then executed under the backend's read-only mode with time and
+   * row limits. Every attempt, rejected ones included, is written to admin_query_logs.
+   */
+  async executeAdminQuery(dto: AdminExecuteQueryDto, actor: AdminQueryActor) {
+    const target = dto.target ?? AdminQueryTarget.CLICKHOUSE;
+    const maxRows = Math.min(dto.maxRows ?? this.maxResultRows, this.maxResultRows);
+    const timeoutSeconds = Math.min(
+      dto.timeoutSeconds ?? this.maxExecutionSeconds,
+      this.maxExecutionSeconds,
+    );
+
+    const check = inspectReadOnlySql(
+      dto.sql,
+      target === AdminQueryTarget.CLICKHOUSE ? 'clickhouse' : 'postgres',
+    );
+    if ('error' in check) {
+      await this.recordQuery(actor, target, dto.sql, AdminQueryStatus.REJECTED, {
+        error: check.error,
+      });
+      throw new BadRequestException(check.error);
+    }
+
+    const startedAt = Date.now();
+    let result: ConsoleResult;
+    try {
+      result =
+        target === AdminQueryTarget.CLICKHOUSE
+          ? await this.runClickhouseQuery(check.statement, maxRows, timeoutSeconds)
+          : await this.runPostgresQuery(check.statement, maxRows, timeoutSeconds);
+    } catch (error) {
+      const message = this.describeQueryError(error);
+      await this.recordQuery(actor, target, dto.sql, AdminQueryStatus.FAILED, {
+        error: message,
+        durationMs: Date.now() - startedAt,
+      });
+      throw new BadRequestException(`Query failed: ${message}`);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    await this.recordQuery(actor, target, dto.sql, AdminQueryStatus.SUCCESS, {
+      rowCount: result.rows.length,
+      durationMs,
+    });
+
     return {
       success: true,
-      data,
-      count: Array.isArray(data) ? data.length : 1,
+      target,
+      statement_type: check.keyword,
+      columns: result.columns,
+      data: result.rows,
+      count: result.rows.length,
+      truncated: result.truncated,
+      max_rows: maxRows,
+      duration_ms: durationMs,
+      ...(result.statistics ? { statistics: result.statistics } : {}),
+    };
+  }
+
+  async getQueryLog(query: AdminQueryLogQueryDto) {
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    const [entries, total] = await this.queryLogRepository.findAndCount({
+      where: {
+        ...(query.target ? { target: query.target } : {}),
+        ...(query.status ? { status: query.status } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return {
+      entries: entries.map(entry => ({
+        id: entry.id,
+        api_key_id: entry.apiKeyId,
+        api_key: `${entry.apiKeyPrefix}...`,
+        target: entry.target,
+        sql: entry.sql,
+        status: entry.status,
+        row_count: entry.rowCount,
+        duration_ms: entry.durationMs,
+        error: entry.error,
+        ip_address: entry.ipAddress,
+        created_at: entry.createdAt,
+      })),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getAuditLog(query: AuditEventsQueryDto) {
+    return this.auditService.getEvents(query);
+  }
+
+  async getUsageAnalytics(query: AdminUsageAnalyticsQueryDto) {
+    return this.usageAnalyticsService.getAnalytics(query, query.apiKeyId);
+  }
+
+  private async runClickhouseQuery(
+    sql: string,
+    maxRows: number,
+    timeoutSeconds: number,
+  ): Promise<ConsoleResult> {
+    // readonly goes last: ClickHouse refuses setting changes that follow it in the same request
+    const response = await this.clickhouseService.executeQueryWithSettings(sql, {
+      max_execution_time: timeoutSeconds,
+      max_result_rows: maxRows + 1,
+      result_overflow_mode: 'break',
+      readonly: 1,
+    });
+
+    const rows = response.data ?? [];
+    return {
+      columns: response.meta ?? [],
+      rows: rows.slice(0, maxRows),
+      truncated: rows.length > maxRows,
+      statistics: response.statistics
+        ? {
+            elapsed_ms: Math.round(response.statistics.elapsed * 1000),
+            rows_read: response.statistics.rows_read,
+            bytes_read: response.statistics.bytes_read,
+          }
+        : undefined,
     };
   }
 
-  async getAuditLog(limit: number) {
-    return this.authService.getAuditLog(limit);
+  private async runPostgresQuery(
+    sql: string,
+    maxRows: number,
+    timeoutSeconds: number,
+  ): Promise<ConsoleResult> {
+    const result = await this.zigscanPostgresService.readOnlyQuery(sql, {
+      timeoutMs: timeoutSeconds * 1000,
+      maxRows,
+    });
+
+    return {
+      columns: result.fields.map(field => ({
+        name: field.name,
+        type: PG_TYPE_NAMES.get(field.dataTypeID) ?? `oid:${field.dataTypeID}`,
+      })),
+      rows: result.rows,
+      truncated: result.truncated,
+    };
+  }
+
+  /**
+   * Prefers the database's own error text (e.g. a ClickHouse syntax error) over the generic
+   * wrapper message.
+   */
+  private describeQueryError(error: unknown): string {
+    const cause = error instanceof HttpException ? error.cause : error;
+    if (isAxiosError(cause) && cause.response?.data) {
+      const data = cause.response.data;
+      return (typeof data === 'string' ? data : JSON.stringify(data)).trim();
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private async recordQuery(
+    actor: AdminQueryActor,
+    target: AdminQueryTarget,
+    sql: string,
+    status: AdminQueryStatus,
+    details: { rowCount?: number; durationMs?: number; error?: string },
+  ): Promise<void> {
+    let queryLogId: string | null = null;
+    try {
+      const inserted = await this.queryLogRepository.insert({
+        apiKeyId: actor.apiKeyId ?? null,
+        apiKeyPrefix: actor.apiKeyPrefix,
+        target,
+        sql,
+        status,
+        rowCount: details.rowCount ?? null,
+        durationMs: details.durationMs ?? null,
+        error: details.error ?? null,
+        ipAddress: actor.ipAddress ?? null,
+      });
+      queryLogId = String(inserted.identifiers[0]?.id ?? '') || null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record admin query by ${actor.apiKeyPrefix}...: ${message}`);
+    }
+
+    await this.auditService.record({
+      action: AuditAction.ADMIN_SQL_EXECUTED,
+      outcome: status === AdminQueryStatus.SUCCESS ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+      actorType: actor.apiKeyId ? AuditActorType.API_KEY : AuditActorType.SYSTEM,
+      actorId: actor.apiKeyId ?? null,
+      actorLabel: `${actor.apiKeyPrefix}...`,
+      targetType: 'admin_query_log',
+      targetId: queryLogId,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      metadata: { target, status, ...(details.error ? { error: details.error } : {}) },
+    });
   }
 }
@@ -0,0 +1,110 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AdminQueryTarget } from '../enums/query-target.enum';
+import { SavedQueryParameterType } from '../enums/saved-query.enum';
+
+export class SavedQueryParameterDto {
+  @ApiProperty({ description: 'Referenced in the SQL as {{name}}', example: 'since' })
+  @IsString()
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]*$/)
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ enum: SavedQueryParameterType })
+  @IsEnum(SavedQueryParameterType)
+  type: SavedQueryParameterType;
+
+  @ApiPropertyOptional({
+    description: 'Value used when a run omits the parameter; dates accept now, now-7d, now-1h',
+    example: 'now-7d',
+  })
+  @IsOptional()
+  default?: string | number | null;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
+
+export class CreateSavedQueryDto {
+  @ApiProperty({ example: 'Weekly active addresses' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: AdminQueryTarget, default: AdminQueryTarget.CLICKHOUSE })
+  @IsOptional()
+  @IsEnum(AdminQueryTarget)
+  target?: AdminQueryTarget;
+
+  @ApiProperty({
+    description: 'A single SELECT, WITH or EXPLAIN statement; parameters are written as {{name}}',
+    example:
+      'SELECT count(DISTINCT address) AS active_addresses FROM address_transactions ' +
+      'WHERE block_time >= {{since}}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20000)
+  sql: string;
+
+  @ApiPropertyOptional({ type: [SavedQueryParameterDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => SavedQueryParameterDto)
+  parameters?: SavedQueryParameterDto[];
+
+  @ApiPropertyOptional({
+    description: 'Five-field cron expression in UTC; omit for on-demand only',
+    example: '0 8 * * 1',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  schedule?: string;
+
+  @ApiPropertyOptional({ description: 'Recipients of the scheduled CSV report', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ArrayUnique()
+  @IsEmail({}, { each: true })
+  deliveryEmails?: string[];
+
+  @ApiPropertyOptional({ description: 'URL that receives the scheduled CSV report via POST' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  deliveryWebhookUrl?: string;
+
+  @ApiPropertyOptional({ default: true, description: 'Pause or resume the schedule' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
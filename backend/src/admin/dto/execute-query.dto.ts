@@ -1,7 +1,58 @@
-import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { AdminQueryTarget } from '../enums/query-target.enum';
 
 export class AdminExecuteQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'A single SELECT, WITH or EXPLAIN statement. Required unless the deprecated `sql` query ' +
+      'parameter is sent instead.',
+    example: 'SELECT height, time FROM blocks ORDER BY height DESC LIMIT 10',
+  })
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  sql!: string;
+  @MaxLength(20000)
+  sql?: string;
+
+  @ApiPropertyOptional({
+    description: 'Database the statement runs against',
+    enum: AdminQueryTarget,
+    default: AdminQueryTarget.CLICKHOUSE,
+  })
+  @IsOptional()
+  @IsEnum(AdminQueryTarget)
+  target?: AdminQueryTarget;
+
+  @ApiPropertyOptional({
+    description: 'Maximum rows to return (capped by ZIGSCAN_ADMIN_QUERY_MAX_RESULT_ROWS)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRows?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Execution time limit in seconds (capped by ZIGSCAN_ADMIN_QUERY_MAX_EXECUTION_SECONDS)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  timeoutSeconds?: number;
+}
+
+/**
+ * Statement passed as `?sql=`, the way the endpoint took it before it moved to the body
+ */
+export class AdminExecuteQueryLegacyDto {
+  @ApiPropertyOptional({
+    description: 'Deprecated: send `sql` in the request body instead',
+    deprecated: true,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20000)
+  sql?: string;
 }
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { AdminQueryStatus, AdminQueryTarget } from '../enums/query-target.enum';
+
+export class AdminQueryLogQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: AdminQueryTarget })
+  @IsOptional()
+  @IsEnum(AdminQueryTarget)
+  target?: AdminQueryTarget;
+
+  @ApiPropertyOptional({ enum: AdminQueryStatus })
+  @IsOptional()
+  @IsEnum(AdminQueryStatus)
+  status?: AdminQueryStatus;
+}
@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+
+export class RunSavedQueryDto {
+  @ApiPropertyOptional({
+    description: 'Parameter values by name; missing ones fall back to their defaults',
+    example: { since: 'now-7d' },
+  })
+  @IsOptional()
+  @IsObject()
+  parameters?: Record<string, string | number>;
+
+  @ApiPropertyOptional({
+    description: 'Also send the CSV result to the configured recipients',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  deliver?: boolean;
+}
@@ -0,0 +1,34 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min, ValidateIf } from 'class-validator';
+
+export class UpdateRateLimitsDto {
+  @ApiPropertyOptional({
+    description: 'Requests per sliding minute; null removes the limit',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  rateLimitPerMinute?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Requests per sliding 24 hours; null removes the limit',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  rateLimitPerDay?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Requests per UTC calendar month; null removes the quota',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  monthlyQuota?: number | null;
+}
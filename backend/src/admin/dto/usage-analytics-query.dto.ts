@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+import { UsageAnalyticsQueryDto } from '../../request-logging/dto/usage-analytics-query.dto';
+
+export class AdminUsageAnalyticsQueryDto extends UsageAnalyticsQueryDto {
+  @ApiPropertyOptional({ description: 'Restrict the analytics to a single API key ID' })
+  @IsOptional()
+  @Matches(/^\d+$/, { message: 'apiKeyId must be a numeric ID' })
+  apiKeyId?: string;
+}
@@ -0,0 +1,10 @@
+export enum AdminQueryTarget {
+  CLICKHOUSE = 'clickhouse',
+  POSTGRES = 'postgres',
+}
+
+export enum AdminQueryStatus {
+  SUCCESS = 'success',
+  REJECTED = 'rejected',
+  FAILED = 'failed',
+}
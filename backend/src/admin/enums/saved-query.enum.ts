@@ -0,0 +1,16 @@
+export enum SavedQueryParameterType {
+  STRING = 'string',
+  NUMBER = 'number',
+  DATE = 'date',
+  DATETIME = 'datetime',
+}
+
+export enum SavedQueryRunTrigger {
+  MANUAL = 'manual',
+  SCHEDULE = 'schedule',
+}
+
+export enum SavedQueryRunStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Ip,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { AuthContext } from '../auth/decorators/auth-context.decorator';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { ApiKeyContext } from '../auth/interfaces/api-key-context.interface';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { CreateSavedQueryDto } from './dto/create-saved-query.dto';
+import { RunSavedQueryDto } from './dto/run-saved-query.dto';
+import { UpdateSavedQueryDto } from './dto/update-saved-query.dto';
+import { SavedQueriesService } from './saved-queries.service';
+
+@ApiTags('Admin')
+@ApiBearerAuth('api-key')
+@Controller('api/v2/admin/saved-queries')
+@UseGuards(ApiKeyGuard, AdminGuard)
+@RequireScopes(ApiScope.ADMIN_QUERY)
+export class SavedQueriesController {
+  constructor(private readonly savedQueriesService: SavedQueriesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Save a named console query',
+    description:
+      'Parameters are referenced as {{name}}. With a cron schedule (UTC) the query runs ' +
+      'automatically and the CSV result is emailed and/or POSTed to the delivery webhook.',
+  })
+  create(@Body() dto: CreateSavedQueryDto, @AuthContext() authContext: ApiKeyContext | undefined) {
+    return this.savedQueriesService.createSavedQuery(dto, {
+      apiKeyId: authContext?.apiKeyId,
+      apiKeyPrefix: authContext?.apiKeyPrefix ?? 'unknown',
+    });
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List saved queries' })
+  list() {
+    return this.savedQueriesService.listSavedQueries();
+  }
+
+  @Get(':id')
+  @ApiParam({ name: 'id', description: 'Saved query ID' })
+  get(@Param('id') id: string) {
+    return this.savedQueriesService.getSavedQuery(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a saved query, its schedule or recipients' })
+  @ApiParam({ name: 'id', description: 'Saved query ID' })
+  update(@Param('id') id: string, @Body() dto: UpdateSavedQueryDto) {
+    return this.savedQueriesService.updateSavedQuery(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a saved query and its run history' })
+  @ApiParam({ name: 'id', description: 'Saved query ID' })
+  remove(@Param('id') id: string) {
+    return this.savedQueriesService.deleteSavedQuery(id);
+  }
+
+  @Post(':id/run')
+  @ApiOperation({ summary: 'Run a saved query now' })
+  @ApiParam({ name: 'id', description: 'Saved query ID' })
+  run(
+    @Param('id') id: string,
+    @Body() dto: RunSavedQueryDto,
+    @AuthContext() authContext: ApiKeyContext | undefined,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.savedQueriesService.runSavedQuery(id, dto, {
+      apiKeyId: authContext?.apiKeyId,
+      apiKeyPrefix: authContext?.apiKeyPrefix ?? 'unknown',
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  @Get(':id/runs')
+  @ApiOperation({ summary: 'Run history of a saved query' })
+  @ApiParam({ name: 'id', description: 'Saved query ID' })
+  runs(@Param('id') id: string, @Query() query: PaginationQueryDto) {
+    return this.savedQueriesService.getRuns(id, query);
+  }
+}
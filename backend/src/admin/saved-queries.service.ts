@@ -0,0 +1,517 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import axios from 'axios';
+import { Repository } from 'typeorm';
+import { escapeLiteral } from '../common/utils/sql.utils';
+import { toCsv } from '../common/utils/csv.utils';
+import { nextCronRun, parseCronExpression } from '../common/utils/cron.utils';
+import { inspectReadOnlySql } from '../common/utils/read-only-sql.utils';
+import { ensureDeliverableUrl, findWebhookUrlProblem } from '../common/utils/webhook-url.utils';
+import { AppConfiguration } from '../config/configuration';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { SavedQuery, SavedQueryParameter } from '../database/entities/saved-query.entity';
+import { SavedQueryRun, SavedQueryRunDelivery } from '../database/entities/saved-query-run.entity';
+import { EmailService } from '../users/email.service';
+import { AdminQueryActor, AdminService } from './admin.service';
+import { CreateSavedQueryDto } from './dto/create-saved-query.dto';
+import { RunSavedQueryDto } from './dto/run-saved-query.dto';
+import { UpdateSavedQueryDto } from './dto/update-saved-query.dto';
+import { AdminQueryTarget } from './enums/query-target.enum';
+import {
+  SavedQueryParameterType,
+  SavedQueryRunStatus,
+  SavedQueryRunTrigger,
+} from './enums/saved-query.enum';
+
+type AdminQueryResult = Awaited<ReturnType<AdminService['executeAdminQuery']>>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const RELATIVE_DATE_PATTERN = /^now(?:([+-])(\d+)([mhdw]))?$/i;
+
+@Injectable()
+export class SavedQueriesService {
+  private readonly logger = new Logger(SavedQueriesService.name);
+  private readonly MAX_SAVED_QUERIES = 200;
+  private readonly WEBHOOK_TIMEOUT_MS = 15_000;
+  private readonly allowInsecureUrls: boolean;
+
+  constructor(
+    @InjectRepository(SavedQuery)
+    private readonly savedQueryRepository: Repository<SavedQuery>,
+    @InjectRepository(SavedQueryRun)
+    private readonly runRepository: Repository<SavedQueryRun>,
+    private readonly adminService: AdminService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {
+    const config = this.configService.getOrThrow<AppConfiguration['webhooks']>('webhooks');
+    this.allowInsecureUrls = config.allowInsecureUrls;
+  }
+
+  async createSavedQuery(dto: CreateSavedQueryDto, actor: AdminQueryActor) {
+    const existing = await this.savedQueryRepository.count();
+    if (existing >= this.MAX_SAVED_QUERIES) {
+      throw new BadRequestException(`Saved query limit reached (${this.MAX_SAVED_QUERIES})`);
+    }
+    await this.ensureNameAvailable(dto.name);
+    if (dto.deliveryWebhookUrl) {
+      await ensureDeliverableUrl(dto.deliveryWebhookUrl, this.allowInsecureUrls);
+    }
+
+    const query = this.savedQueryRepository.create({
+      name: dto.name,
+      description: dto.description ?? null,
+      target: dto.target ?? AdminQueryTarget.CLICKHOUSE,
+      sql: dto.sql,
+      parameters: dto.parameters ?? [],
+      schedule: dto.schedule?.trim() || null,
+      deliveryEmails: dto.deliveryEmails ?? [],
+      deliveryWebhookUrl: dto.deliveryWebhookUrl ?? null,
+      isActive: dto.isActive ?? true,
+      lastRunAt: null,
+      createdByApiKeyId: actor.apiKeyId ?? null,
+    });
+    this.validateDefinition(query);
+    query.nextRunAt = this.computeNextRun(query);
+
+    const result = await this.savedQueryRepository.save(query);
+    this.logger.log(
+      `Saved query ${result.id} "${result.name}" created by ${actor.apiKeyPrefix}... (schedule: ${result.schedule ?? 'none'})`,
+    );
+
+    return this.toResponse(result);
+  }
+
+  async listSavedQueries() {
+    const queries = await this.savedQueryRepository.find({ order: { name: 'ASC' } });
+    return {
+      saved_queries: queries.map(query => this.toResponse(query)),
+      total: queries.length,
+    };
+  }
+
+  async getSavedQuery(id: string) {
+    return this.toResponse(await this.findSavedQuery(id));
+  }
+
+  async updateSavedQuery(id: string, dto: UpdateSavedQueryDto) {
+    const query = await this.findSavedQuery(id);
+
+    if (dto.name !== undefined && dto.name !== query.name) {
+      await this.ensureNameAvailable(dto.name);
+      query.name = dto.name;
+    }
+    if (dto.description !== undefined) {
+      query.description = dto.description;
+    }
+    if (dto.target !== undefined) {
+      query.target = dto.target;
+    }
+    if (dto.sql !== undefined) {
+      query.sql = dto.sql;
+    }
+    if (dto.parameters !== undefined) {
+      query.parameters = dto.parameters;
+    }
+    if (dto.schedule !== undefined) {
+      query.schedule = dto.schedule?.trim() || null;
+    }
+    if (dto.deliveryEmails !== undefined) {
+      query.deliveryEmails = dto.deliveryEmails;
+    }
+    if (dto.deliveryWebhookUrl !== undefined) {
+      if (dto.deliveryWebhookUrl) {
+        await ensureDeliverableUrl(dto.deliveryWebhookUrl, this.allowInsecureUrls);
+      }
+      query.deliveryWebhookUrl = dto.deliveryWebhookUrl;
+    }
+    if (dto.isActive !== undefined) {
+      query.isActive = dto.isActive;
+    }
+
+    this.validateDefinition(query);
+    query.nextRunAt = this.computeNextRun(query);
+
+    const result = await this.savedQueryRepository.save(query);
+    this.logger.log(`Saved query ${id} updated (next run: ${result.nextRunAt?.toISOString()})`);
+
+    return this.toResponse(result);
+  }
+
+  async deleteSavedQuery(id: string) {
+    const query = await this.findSavedQuery(id);
+    await this.savedQueryRepository.remove(query);
+    this.logger.log(`Saved query ${id} "${query.name}" deleted`);
+
+    return { message: 'Saved query deleted successfully' };
+  }
+
+  /**
+   * Run a saved query now, returning the result like `execute-query` does
+   */
+  async runSavedQuery(id: string, dto: RunSavedQueryDto, actor: AdminQueryActor) {
+    const query = await this.findSavedQuery(id);
+    const { run, result } = await this.executeRun(
+      query,
+      SavedQueryRunTrigger.MANUAL,
+      dto.parameters ?? {},
+      dto.deliver ?? false,
+      actor,
+    );
+
+    if (!result) {
+      throw new BadRequestException(run.error ?? 'Query failed');
+    }
+
+    return { run: this.toRunResponse(run), ...result };
+  }
+
+  async getRuns(id: string, pagination: PaginationQueryDto) {
+    const query = await this.findSavedQuery(id);
+    const limit = pagination.limit ?? 10;
+    const offset = pagination.offset ?? 0;
+
+    const [runs, total] = await this.runRepository.findAndCount({
+      where: { savedQueryId: query.id },
+      order: { createdAt: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return { runs: runs.map(run => this.toRunResponse(run)), total, limit, offset };
+  }
+
+  /**
+   * Renders, executes and (optionally) delivers one run, recording it in saved_query_runs.
+   * Failures are recorded rather than thrown so the scheduler can carry on.
+   */
+  async executeRun(
+    query: SavedQuery,
+    trigger: SavedQueryRunTrigger,
+    values: Record<string, string | number>,
+    deliver: boolean,
+    actor: AdminQueryActor,
+  ): Promise<{ run: SavedQueryRun; result?: AdminQueryResult }> {
+    const startedAt = Date.now();
+    const run = this.runRepository.create({
+      savedQueryId: query.id,
+      trigger,
+      parameters: {},
+      truncated: false,
+      rowCount: null,
+      durationMs: null,
+      error: null,
+      deliveries: [],
+    });
+
+    let result: AdminQueryResult | undefined;
+    try {
+      const rendered = this.renderSql(query, values);
+      run.parameters = rendered.values;
+      result = await this.adminService.executeAdminQuery(
+        { sql: rendered.sql, target: query.target },
+        actor,
+      );
+      run.status = SavedQueryRunStatus.SUCCESS;
+      run.rowCount = result.count;
+      run.truncated = result.truncated;
+      run.durationMs = result.duration_ms;
+    } catch (error) {
+      run.status = SavedQueryRunStatus.FAILED;
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      run.durationMs = Date.now() - startedAt;
+      this.logger.warn(`Saved query ${query.id} ${trigger} run failed: ${run.error}`);
+    }
+
+    await this.runRepository.save(run);
+    await this.savedQueryRepository.update(query.id, { lastRunAt: new Date() });
+
+    if (result && deliver) {
+      run.deliveries = await this.deliverReport(query, run, result);
+      await this.runRepository.save(run);
+    }
+
+    return { run, result };
+  }
+
+  /**
+   * Next scheduled time after now, or null when the query is paused or unscheduled
+   */
+  computeNextRun(query: SavedQuery, after = new Date()): Date | null {
+    if (!query.isActive || !query.schedule) {
+      return null;
+    }
+    const schedule = parseCronExpression(query.schedule);
+    return schedule ? nextCronRun(schedule, after) : null;
+  }
+
+  private validateDefinition(query: SavedQuery): void {
+    if (query.schedule) {
+      const schedule = parseCronExpression(query.schedule);
+      if (!schedule) {
+        throw new BadRequestException(
+          'schedule must be a five-field cron expression (minute hour day month weekday)',
+        );
+      }
+      if (!nextCronRun(schedule, new Date())) {
+        throw new BadRequestException('schedule never fires');
+      }
+    }
+
+    const names = query.parameters.map(parameter => parameter.name);
+    if (new Set(names).size !== names.length) {
+      throw new BadRequestException('Parameter names must be unique');
+    }
+
+    for (const [, name] of query.sql.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!names.includes(name)) {
+        throw new BadRequestException(`Placeholder {{${name}}} has no matching parameter`);
+      }
+    }
+
+    for (const parameter of query.parameters) {
+      if (parameter.default !== undefined && parameter.default !== null) {
+        this.renderValue(parameter, parameter.default, query.target);
+      }
+    }
+
+    // Structural check only; the rendered statement is checked again on every run
+    const check = inspectReadOnlySql(
+      query.sql.replace(PLACEHOLDER_PATTERN, 'NULL'),
+      query.target === AdminQueryTarget.CLICKHOUSE ? 'clickhouse' : 'postgres',
+    );
+    if ('error' in check) {
+      throw new BadRequestException(check.error);
+    }
+  }
+
+  /**
+   * Substitutes `{{name}}` placeholders with literals, validated and quoted per type so values
+   * cannot change the shape of the statement.
+   */
+  private renderSql(
+    query: SavedQuery,
+    values: Record<string, string | number>,
+  ): { sql: string; values: Record<string, string | number> } {
+    const resolved: Record<string, string | number> = {};
+    const literals = new Map<string, string>();
+
+    for (const parameter of query.parameters) {
+      const value = values[parameter.name] ?? parameter.default;
+      if (value === undefined || value === null || value === '') {
+        throw new BadRequestException(`Missing value for parameter ${parameter.name}`);
+      }
+      const { literal, display } = this.renderValue(parameter, value, query.target);
+      literals.set(parameter.name, literal);
+      resolved[parameter.name] = display;
+    }
+
+    const sql = query.sql.replace(PLACEHOLDER_PATTERN, (_, name: string) => literals.get(name)!);
+    return { sql, values: resolved };
+  }
+
+  private renderValue(
+    parameter: SavedQueryParameter,
+    value: string | number,
+    target: AdminQueryTarget,
+  ): { literal: string; display: string | number } {
+    switch (parameter.type) {
+      case SavedQueryParameterType.NUMBER: {
+        const number =
+          typeof value === 'number' ? value : String(value).trim() === '' ? NaN : Number(value);
+        if (!Number.isFinite(number)) {
+          throw new BadRequestException(`Parameter ${parameter.name} must be a number`);
+        }
+        // Parenthesized so a negative value cannot merge with a preceding `-` into a comment
+        return { literal: `(${number})`, display: number };
+      }
+      case SavedQueryParameterType.DATE:
+      case SavedQueryParameterType.DATETIME: {
+        const date = this.resolveDate(String(value));
+        if (!date) {
+          throw new BadRequestException(
+            `Parameter ${parameter.name} must be an ISO date or now[-+]N[mhdw]`,
+          );
+        }
+        const iso = date.toISOString();
+        const text =
+          parameter.type === SavedQueryParameterType.DATE
+            ? iso.slice(0, 10)
+            : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+        return { literal: `'${text}'`, display: text };
+      }
+      default: {
+        const text = String(value);
+        const escaped =
+          target === AdminQueryTarget.CLICKHOUSE
+            ? text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")
+            : escapeLiteral(text);
+        return { literal: `'${escaped}'`, display: text };
+      }
+    }
+  }
+
+  private resolveDate(value: string): Date | null {
+    const relative = value.trim().match(RELATIVE_DATE_PATTERN);
+    if (relative) {
+      const [, sign, amount, unit] = relative;
+      if (!sign) {
+        return new Date();
+      }
+      const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[
+        unit.toLowerCase() as 'm' | 'h' | 'd' | 'w'
+      ];
+      return new Date(Date.now() + (sign === '-' ? -1 : 1) * Number(amount) * unitMs);
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return null;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  private async deliverReport(
+    query: SavedQuery,
+    run: SavedQueryRun,
+    result: AdminQueryResult,
+  ): Promise<SavedQueryRunDelivery[]> {
+    const csv = toCsv(
+      result.columns.map(column => column.name),
+      result.data as Record<string, unknown>[],
+    );
+    const slug = query.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    const filename = `${slug || 'query'}-${run.createdAt.toISOString().slice(0, 10)}.csv`;
+    const parameters = Object.entries(run.parameters)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(', ');
+    const lines = [
+      `Saved query: ${query.name}`,
+      `Rows: ${result.count}${result.truncated ? ' (truncated)' : ''}`,
+      ...(parameters ? [`Parameters: ${parameters}`] : []),
+      `Ran at ${run.createdAt.toISOString()} in ${result.duration_ms} ms`,
+    ];
+
+    const deliveries: SavedQueryRunDelivery[] = [];
+
+    for (const email of query.deliveryEmails) {
+      try {
+        await this.emailService.sendQueryReportEmail(email, `Report: ${query.name}`, lines, {
+          filename,
+          content: csv,
+        });
+        deliveries.push({ channel: 'email', target: email, status: 'sent' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        deliveries.push({ channel: 'email', target: email, status: 'failed', error: message });
+      }
+    }
+
+    if (query.deliveryWebhookUrl) {
+      try {
+        const urlProblem = await findWebhookUrlProblem(
+          query.deliveryWebhookUrl,
+          this.allowInsecureUrls,
+        );
+        if (urlProblem) {
+          throw new Error(urlProblem);
+        }
+
+        const response = await axios.post(query.deliveryWebhookUrl, csv, {
+          timeout: this.WEBHOOK_TIMEOUT_MS,
+          maxRedirects: 0,
+          validateStatus: () => true,
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'X-Zigscan-Saved-Query-Id': query.id,
+            'X-Zigscan-Run-Id': run.id,
+          },
+        });
+        if (response.status < 200 || response.status >= 300) {
+          throw new Error(`Webhook responded with HTTP ${response.status}`);
+        }
+        deliveries.push({ channel: 'webhook', target: query.deliveryWebhookUrl, status: 'sent' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        deliveries.push({
+          channel: 'webhook',
+          target: query.deliveryWebhookUrl,
+          status: 'failed',
+          error: message,
+        });
+      }
+    }
+
+    const failed = deliveries.filter(delivery => delivery.status === 'failed').length;
+    if (failed > 0) {
+      this.logger.warn(`Saved query ${query.id} run ${run.id}: ${failed} report deliveries failed`);
+    }
+
+    return deliveries;
+  }
+
+  private async findSavedQuery(id: string): Promise<SavedQuery> {
+    const query = /^\d+$/.test(id)
+      ? await this.savedQueryRepository.findOne({ where: { id } })
+      : null;
+
+    if (!query) {
+      throw new NotFoundException('Saved query not found');
+    }
+
+    return query;
+  }
+
+  private async ensureNameAvailable(name: string): Promise<void> {
+    if (await this.savedQueryRepository.exists({ where: { name } })) {
+      throw new ConflictException(`A saved query named "${name}" already exists`);
+    }
+  }
+
+  private toResponse(query: SavedQuery) {
+    return {
+      id: query.id,
+      name: query.name,
+      description: query.description,
+      target: query.target,
+      sql: query.sql,
+      parameters: query.parameters,
+      schedule: query.schedule,
+      delivery_emails: query.deliveryEmails,
+      delivery_webhook_url: query.deliveryWebhookUrl,
+      is_active: query.isActive,
+      next_run_at: query.nextRunAt,
+      last_run_at: query.lastRunAt,
+      created_by_api_key_id: query.createdByApiKeyId,
+      created_at: query.createdAt,
+      updated_at: query.updatedAt,
+    };
+  }
+
+  private toRunResponse(run: SavedQueryRun) {
+    return {
+      id: run.id,
+      saved_query_id: run.savedQueryId,
+      trigger: run.trigger,
+      status: run.status,
+      parameters: run.parameters,
+      row_count: run.rowCount,
+      truncated: run.truncated,
+      duration_ms: run.durationMs,
+      error: run.error,
+      deliveries: run.deliveries,
+      created_at: run.createdAt,
+    };
+  }
+}
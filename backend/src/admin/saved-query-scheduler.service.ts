@@ -0,0 +1,81 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { SavedQuery } from '../database/entities/saved-query.entity';
+import { SavedQueryRunTrigger } from './enums/saved-query.enum';
+import { SavedQueriesService } from './saved-queries.service';
+
+/**
+ * Runs scheduled saved queries. The next run time lives in saved_queries.next_run_at, so
+ * schedules survive restarts; a run missed while the API was down fires once on startup.
+ */
+@Injectable()
+export class SavedQuerySchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SavedQuerySchedulerService.name);
+  private readonly pollIntervalMs = 30_000;
+  private readonly BATCH_SIZE = 10;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(SavedQuery)
+    private readonly savedQueryRepository: Repository<SavedQuery>,
+    private readonly savedQueriesService: SavedQueriesService,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.runDueQueries();
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  private async runDueQueries(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const due = await this.savedQueryRepository.find({
+        where: { isActive: true, nextRunAt: LessThanOrEqual(new Date()) },
+        order: { nextRunAt: 'ASC' },
+        take: this.BATCH_SIZE,
+      });
+
+      for (const query of due) {
+        // Advancing next_run_at only if it is unchanged claims the run, so several API
+        // instances never execute the same slot twice
+        const nextRunAt = this.savedQueriesService.computeNextRun(query);
+        const claim = await this.savedQueryRepository.update(
+          { id: query.id, nextRunAt: query.nextRunAt! },
+          { nextRunAt },
+        );
+        if (!claim.affected) {
+          continue;
+        }
+
+        const { run } = await this.savedQueriesService.executeRun(
+          query,
+          SavedQueryRunTrigger.SCHEDULE,
+          {},
+          true,
+          { apiKeyId: query.createdByApiKeyId ?? undefined, apiKeyPrefix: 'schedule' },
+        );
+        this.logger.log(
+          `Scheduled run of saved query ${query.id} "${query.name}": ${run.status} (next: ${nextRunAt?.toISOString() ?? 'none'})`,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Saved query scheduler failed: ${message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,409 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import axios from 'axios';
+import { MoreThanOrEqual, Repository } from 'typeorm';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoins } from '../common/utils/coin.utils';
+import { findWebhookUrlProblem } from '../common/utils/webhook-url.utils';
+import { AppConfiguration } from '../config/configuration';
+import { AlertDelivery } from '../database/entities/alert-delivery.entity';
+import { AlertRule } from '../database/entities/alert-rule.entity';
+import { EmailService } from '../users/email.service';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { AlertChannel, AlertCondition, AlertDeliveryStatus } from './enums/alert-condition.enum';
+
+interface AlertTrigger {
+  ref: string;
+  title: string;
+  lines: string[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Periodically evaluates every active alert rule against new chain data and delivers the
+ * matches by email and webhook, recording each attempt in alert_deliveries.
+ */
+@Injectable()
+export class AlertEvaluatorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AlertEvaluatorService.name);
+  private readonly pollIntervalMs = 60_000;
+  private readonly MAX_BLOCKS_PER_RUN = 1000;
+  private readonly MAX_TRIGGERS_PER_RULE = 20;
+  private evaluationTimer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(AlertRule)
+    private readonly alertRuleRepository: Repository<AlertRule>,
+    @InjectRepository(AlertDelivery)
+    private readonly alertDeliveryRepository: Repository<AlertDelivery>,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly blockchainService: BlockchainService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.evaluationTimer = setInterval(() => {
+      void this.evaluateAll();
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.evaluationTimer) {
+      clearInterval(this.evaluationTimer);
+    }
+  }
+
+  private async evaluateAll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const rules = await this.alertRuleRepository.find({
+        where: { isActive: true },
+        relations: { savedItem: true, user: true },
+      });
+      if (rules.length === 0) {
+        return;
+      }
+
+      const latestHeight = await this.getLatestHeight();
+      for (const rule of rules) {
+        try {
+          await this.evaluateRule(rule, latestHeight);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Failed to evaluate alert rule ${rule.id}: ${message}`);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Alert evaluation run failed: ${message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async evaluateRule(rule: AlertRule, latestHeight: number): Promise<void> {
+    const identifier = rule.savedItem?.itemSaved;
+    if (!identifier) {
+      return;
+    }
+
+    let triggers: AlertTrigger[] = [];
+
+    if (
+      rule.condition === AlertCondition.VALIDATOR_JAILED ||
+      rule.condition === AlertCondition.VALIDATOR_COMMISSION_CHANGED
+    ) {
+      triggers = await this.checkValidatorState(rule, identifier);
+    } else {
+      // First evaluation only records the starting point; history is never replayed.
+      const fromHeight = rule.lastCheckedHeight ? Number(rule.lastCheckedHeight) : latestHeight;
+      const toHeight = Math.min(latestHeight, fromHeight + this.MAX_BLOCKS_PER_RUN);
+
+      if (toHeight > fromHeight) {
+        triggers = await this.findChainTriggers(rule, identifier, fromHeight, toHeight);
+      }
+      rule.lastCheckedHeight = String(toHeight);
+    }
+
+    for (const trigger of triggers.slice(0, this.MAX_TRIGGERS_PER_RULE)) {
+      await this.deliver(rule, identifier, trigger);
+    }
+    if (triggers.length > this.MAX_TRIGGERS_PER_RULE) {
+      this.logger.warn(
+        `Alert rule ${rule.id} matched ${triggers.length} events; delivered the first ${this.MAX_TRIGGERS_PER_RULE}`,
+      );
+    }
+
+    await this.alertRuleRepository.update(rule.id, {
+      lastCheckedHeight: rule.lastCheckedHeight,
+      lastState: rule.lastState,
+      lastTriggeredAt: triggers.length > 0 ? new Date() : rule.lastTriggeredAt,
+    });
+  }
+
+  private async findChainTriggers(
+    rule: AlertRule,
+    identifier: string,
+    fromHeight: number,
+    toHeight: number,
+  ): Promise<AlertTrigger[]> {
+    switch (rule.condition) {
+      case AlertCondition.INCOMING_TRANSFER_ABOVE: {
+        const result = await this.zigscanPostgresService.query<{
+          tx_hash: string;
+          height: number | string;
+          amount: string | null;
+        }>(
+          `
+            SELECT at.tx_hash, at.height, e.attributes ->> 'amount' AS amount
+            FROM address_transactions at
+            JOIN events e ON e.tx_hash = at.tx_hash
+            WHERE at.address = $1
+              AND at.height > $2
+              AND at.height <= $3
+              AND at.code = 0
+              AND e.event_type = 'coin_received'
+              AND e.attributes ->> 'receiver' = $1
+            ORDER BY at.height ASC
+          `,
+          [identifier, fromHeight, toHeight],
+        );
+
+        const minAmount = BigInt(rule.params.minAmount ?? '0');
+        const triggers = new Map<string, AlertTrigger>();
+        for (const row of result.rows) {
+          const coin = parseCoins(row.amount).find(entry => entry.denom === rule.params.denom);
+          if (!coin || BigInt(coin.amount) < minAmount || triggers.has(row.tx_hash)) {
+            continue;
+          }
+          triggers.set(row.tx_hash, {
+            ref: row.tx_hash,
+            title: `Incoming transfer to ${identifier}`,
+            lines: [
+              `${identifier} received ${coin.amount}${coin.denom} at height ${row.height}.`,
+              `Transaction: ${row.tx_hash}`,
+            ],
+            data: { tx_hash: row.tx_hash, height: Number(row.height), amount: coin },
+          });
+        }
+        return [...triggers.values()];
+      }
+
+      case AlertCondition.ANY_TRANSACTION: {
+        const result = await this.zigscanPostgresService.query<{
+          tx_hash: string;
+          height: number | string;
+          code: number | null;
+        }>(
+          `
+            SELECT at.tx_hash, at.height, at.code
+            FROM address_transactions at
+            WHERE at.address = $1
+              AND at.height > $2
+              AND at.height <= $3
+              AND EXISTS (
+                  SELECT 1
+                  FROM events e
+                  WHERE e.tx_hash = at.tx_hash
+                    AND (
+                        (e.event_type = 'tx' AND e.attributes ->> 'fee_payer' = $1)
+                        OR (e.event_type = 'message' AND e.attributes ->> 'sender' = $1)
+                    )
+              )
+            ORDER BY at.height ASC, at.tx_index ASC
+          `,
+          [identifier, fromHeight, toHeight],
+        );
+
+        return result.rows.map(row => ({
+          ref: row.tx_hash,
+          title: `New transaction from ${identifier}`,
+          lines: [
+            `${identifier} signed a ${row.code === 0 ? 'successful' : 'failed'} transaction at height ${row.height}.`,
+            `Transaction: ${row.tx_hash}`,
+          ],
+          data: { tx_hash: row.tx_hash, height: Number(row.height), code: row.code },
+        }));
+      }
+
+      case AlertCondition.CONTRACT_EXECUTED: {
+        const params: Array<string | number> = [identifier, fromHeight, toHeight];
+        let actionClause = '';
+        if (rule.params.action) {
+          params.push(rule.params.action);
+          actionClause = 'AND wce.action = $4';
+        }
+
+        const result = await this.zigscanPostgresService.query<{
+          tx_hash: string;
+          height: number | string;
+          action: string | null;
+        }>(
+          `
+            SELECT DISTINCT ON (wce.tx_hash) wce.tx_hash, t.height, wce.action
+            FROM wasm_contract_events wce
+            JOIN transactions t ON t.tx_hash = wce.tx_hash
+            WHERE wce.contract_address = $1
+              AND t.height > $2
+              AND t.height <= $3
+              ${actionClause}
+            ORDER BY wce.tx_hash
+          `,
+          params,
+        );
+
+        return result.rows.map(row => ({
+          ref: row.tx_hash,
+          title: `Contract ${identifier} executed`,
+          lines: [
+            `${identifier} executed ${row.action ?? 'a message'} at height ${row.height}.`,
+            `Transaction: ${row.tx_hash}`,
+          ],
+          data: { tx_hash: row.tx_hash, height: Number(row.height), action: row.action },
+        }));
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private async checkValidatorState(rule: AlertRule, operator: string): Promise<AlertTrigger[]> {
+    const response = await this.blockchainService.getFromApi<{
+      validator?: {
+        jailed?: boolean;
+        description?: { moniker?: string };
+        commission?: { commission_rates?: { rate?: string } };
+      };
+    }>(`/cosmos/staking/v1beta1/validators/${operator}`);
+
+    if (response.status !== 200 || !response.data?.validator) {
+      throw new Error(`Validator lookup failed: HTTP ${response.status}`);
+    }
+
+    const validator = response.data.validator;
+    const current = {
+      jailed: Boolean(validator.jailed),
+      commission_rate: validator.commission?.commission_rates?.rate ?? null,
+    };
+    const previous = rule.lastState as typeof current | null;
+    rule.lastState = current;
+
+    if (!previous) {
+      return [];
+    }
+
+    const moniker = validator.description?.moniker ?? operator;
+    const observedAt = new Date().toISOString();
+
+    if (rule.condition === AlertCondition.VALIDATOR_JAILED && current.jailed && !previous.jailed) {
+      return [
+        {
+          ref: `jailed:${observedAt}`,
+          title: `Validator ${moniker} was jailed`,
+          lines: [`${moniker} (${operator}) is now jailed.`],
+          data: { operator_address: operator, moniker, jailed: true },
+        },
+      ];
+    }
+
+    if (
+      rule.condition === AlertCondition.VALIDATOR_COMMISSION_CHANGED &&
+      current.commission_rate !== previous.commission_rate
+    ) {
+      return [
+        {
+          ref: `commission:${current.commission_rate}:${observedAt}`,
+          title: `Validator ${moniker} changed commission`,
+          lines: [
+            `${moniker} (${operator}) changed commission from ${previous.commission_rate} to ${current.commission_rate}.`,
+          ],
+          data: {
+            operator_address: operator,
+            moniker,
+            previous_rate: previous.commission_rate,
+            current_rate: current.commission_rate,
+          },
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  private async deliver(rule: AlertRule, identifier: string, trigger: AlertTrigger) {
+    const payload = {
+      alert_id: rule.id,
+      condition: rule.condition,
+      item: identifier,
+      trigger: trigger.ref,
+      title: trigger.title,
+      details: trigger.data,
+      triggered_at: new Date().toISOString(),
+    };
+
+    const channels: AlertChannel[] = [];
+    if (rule.notifyEmail && rule.user?.email) {
+      channels.push(AlertChannel.EMAIL);
+    }
+    if (rule.webhookUrl) {
+      channels.push(AlertChannel.WEBHOOK);
+    }
+
+    for (const channel of channels) {
+      const record = this.alertDeliveryRepository.create({
+        ruleId: rule.id,
+        userId: rule.userId,
+        channel,
+        triggerRef: trigger.ref.slice(0, 128),
+        payload,
+        error: null,
+      });
+
+      if (await this.isRateLimited(rule)) {
+        record.status = AlertDeliveryStatus.RATE_LIMITED;
+        record.error = 'Hourly alert limit reached';
+        await this.alertDeliveryRepository.save(record);
+        continue;
+      }
+
+      try {
+        if (channel === AlertChannel.EMAIL) {
+          await this.emailService.sendAlertEmail(rule.user!.email, trigger.title, trigger.lines);
+        } else {
+          const config = this.configService.getOrThrow<AppConfiguration['webhooks']>('webhooks');
+          const urlProblem = await findWebhookUrlProblem(
+            rule.webhookUrl!,
+            config.allowInsecureUrls,
+          );
+          if (urlProblem) {
+            throw new Error(urlProblem);
+          }
+
+          const response = await axios.post(rule.webhookUrl!, payload, {
+            timeout: 10000,
+            maxRedirects: 0,
+            validateStatus: () => true,
+            headers: { 'X-Zigscan-Alert-Id': rule.id },
+          });
+          if (response.status < 200 || response.status >= 300) {
+            throw new Error(`Webhook responded with HTTP ${response.status}`);
+          }
+        }
+        record.status = AlertDeliveryStatus.SENT;
+      } catch (error) {
+        record.status = AlertDeliveryStatus.FAILED;
+        record.error = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Alert ${rule.id} ${channel} delivery failed: ${record.error}`);
+      }
+
+      await this.alertDeliveryRepository.save(record);
+    }
+  }
+
+  private async isRateLimited(rule: AlertRule): Promise<boolean> {
+    const limit = rule.user?.alertHourlyLimit ?? 20;
+    const sentLastHour = await this.alertDeliveryRepository.count({
+      where: {
+        userId: rule.userId,
+        status: AlertDeliveryStatus.SENT,
+        createdAt: MoreThanOrEqual(new Date(Date.now() - 60 * 60 * 1000)),
+      },
+    });
+    return sentLastHour >= limit;
+  }
+
+  private async getLatestHeight(): Promise<number> {
+    const result = await this.zigscanPostgresService.query<{ height: number | string | null }>(
+      'SELECT MAX(height) AS height FROM blocks',
+    );
+    return Number(result.rows[0]?.height ?? 0);
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { AlertsService } from './alerts.service';
+import { CreateAlertRuleDto } from './dto/create-alert-rule.dto';
+import { UpdateAlertRuleDto } from './dto/update-alert-rule.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { JwtAuthGuard } from '../users/guards/jwt-auth.guard';
+
+@ApiTags('Alerts')
+@Controller('api/v2/alerts')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('jwt')
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create an alert rule on one of your saved items' })
+  @ApiResponse({ status: 201, description: 'Alert rule created successfully' })
+  @ApiResponse({ status: 400, description: 'Condition not supported for this item' })
+  @ApiResponse({ status: 404, description: 'Saved item not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createRule(@Request() req: any, @Body() createAlertRuleDto: CreateAlertRuleDto) {
+    return this.alertsService.createRule(req.user.id, createAlertRuleDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all alert rules for the authenticated user' })
+  @ApiResponse({ status: 200, description: 'Alert rules retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getRules(@Request() req: any) {
+    return this.alertsService.getRules(req.user.id);
+  }
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'Get alert delivery history across all rules' })
+  @ApiResponse({ status: 200, description: 'Delivery history retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDeliveries(@Request() req: any, @Query() query: PaginationQueryDto) {
+    return this.alertsService.getDeliveries(req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a specific alert rule by ID' })
+  @ApiParam({ name: 'id', description: 'Alert rule ID' })
+  @ApiResponse({ status: 200, description: 'Alert rule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getRuleById(@Request() req: any, @Param('id') id: string) {
+    return this.alertsService.getRuleById(req.user.id, id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get delivery history for one alert rule' })
+  @ApiParam({ name: 'id', description: 'Alert rule ID' })
+  @ApiResponse({ status: 200, description: 'Delivery history retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getRuleDeliveries(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.alertsService.getDeliveries(req.user.id, query, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update channels or thresholds, or pause/resume an alert rule' })
+  @ApiParam({ name: 'id', description: 'Alert rule ID' })
+  @ApiResponse({ status: 200, description: 'Alert rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateRule(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Body() updateAlertRuleDto: UpdateAlertRuleDto,
+  ) {
+    return this.alertsService.updateRule(req.user.id, id, updateAlertRuleDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete an alert rule' })
+  @ApiParam({ name: 'id', description: 'Alert rule ID to delete' })
+  @ApiResponse({ status: 200, description: 'Alert rule deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async deleteRule(@Request() req: any, @Param('id') id: string) {
+    return this.alertsService.deleteRule(req.user.id, id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AlertsController } from './alerts.controller';
+import { AlertsService } from './alerts.service';
+import { AlertEvaluatorService } from './alert-evaluator.service';
+import { AlertRule } from '../database/entities/alert-rule.entity';
+import { AlertDelivery } from '../database/entities/alert-delivery.entity';
+import { SavedItemsModule } from '../saved-items/saved-items.module';
+import { UsersModule } from '../users/users.module';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([AlertRule, AlertDelivery]),
+    SavedItemsModule,
+    UsersModule, // JWT authentication and EmailService
+    BlockchainModule,
+    ZigscanPostgresModule,
+  ],
+  controllers: [AlertsController],
+  providers: [AlertsService, AlertEvaluatorService],
+})
+export class AlertsModule {}
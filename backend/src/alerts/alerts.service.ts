@@ -0,0 +1,208 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ensureDeliverableUrl } from '../common/utils/webhook-url.utils';
+import { AppConfiguration } from '../config/configuration';
+import { AlertDelivery } from '../database/entities/alert-delivery.entity';
+import { AlertRule, AlertRuleParams } from '../database/entities/alert-rule.entity';
+import { SavedItemsService } from '../saved-items/saved-items.service';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { CreateAlertRuleDto } from './dto/create-alert-rule.dto';
+import { UpdateAlertRuleDto } from './dto/update-alert-rule.dto';
+import { AlertCondition } from './enums/alert-condition.enum';
+
+@Injectable()
+export class AlertsService {
+  private readonly logger = new Logger(AlertsService.name);
+  private readonly MAX_RULES_PER_USER = 50;
+  private readonly allowInsecureUrls: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(AlertRule)
+    private readonly alertRuleRepository: Repository<AlertRule>,
+    @InjectRepository(AlertDelivery)
+    private readonly alertDeliveryRepository: Repository<AlertDelivery>,
+    private readonly savedItemsService: SavedItemsService,
+  ) {
+    const config = this.configService.getOrThrow<AppConfiguration['webhooks']>('webhooks');
+    this.allowInsecureUrls = config.allowInsecureUrls;
+  }
+
+  /**
+   * Turn one of the user's saved items into an alert rule
+   */
+  async createRule(userId: string, dto: CreateAlertRuleDto): Promise<AlertRule> {
+    const savedItem = await this.savedItemsService.getSavedItemById(userId, dto.savedItemId);
+    this.ensureConditionFitsItem(dto.condition, savedItem.itemSaved);
+
+    const params: AlertRuleParams = { ...(dto.params ?? {}) };
+    this.ensureParamsFitCondition(dto.condition, params);
+    if (dto.webhookUrl) {
+      await ensureDeliverableUrl(dto.webhookUrl, this.allowInsecureUrls);
+    }
+
+    const existingRules = await this.alertRuleRepository.count({ where: { userId } });
+    if (existingRules >= this.MAX_RULES_PER_USER) {
+      throw new BadRequestException(
+        `Alert rule limit reached (${this.MAX_RULES_PER_USER} rules per user)`,
+      );
+    }
+
+    const rule = this.alertRuleRepository.create({
+      userId,
+      savedItemId: savedItem.id,
+      condition: dto.condition,
+      params,
+      notifyEmail: dto.notifyEmail ?? true,
+      webhookUrl: dto.webhookUrl ?? null,
+      isActive: true,
+      lastCheckedHeight: null,
+      lastState: null,
+      lastTriggeredAt: null,
+    });
+
+    if (!rule.notifyEmail && !rule.webhookUrl) {
+      throw new BadRequestException('Enable email notifications or provide a webhookUrl');
+    }
+
+    const result = await this.alertRuleRepository.save(rule);
+    this.logger.log(
+      `User ${userId} created ${dto.condition} alert for saved item ${savedItem.id} (${savedItem.itemSaved})`,
+    );
+
+    return result;
+  }
+
+  /**
+   * List all alert rules for a user
+   */
+  async getRules(userId: string): Promise<AlertRule[]> {
+    return this.alertRuleRepository.find({
+      where: { userId },
+      relations: { savedItem: true },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Get a specific alert rule by ID
+   */
+  async getRuleById(userId: string, ruleId: string): Promise<AlertRule> {
+    const rule = /^\d+$/.test(ruleId)
+      ? await this.alertRuleRepository.findOne({
+          where: { id: ruleId, userId },
+          relations: { savedItem: true },
+        })
+      : null;
+
+    if (!rule) {
+      throw new NotFoundException('Alert rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Update channels, thresholds or pause/resume a rule
+   */
+  async updateRule(userId: string, ruleId: string, dto: UpdateAlertRuleDto): Promise<AlertRule> {
+    const rule = await this.getRuleById(userId, ruleId);
+
+    if (dto.params) {
+      const params: AlertRuleParams = { ...rule.params, ...dto.params };
+      this.ensureParamsFitCondition(rule.condition, params);
+      rule.params = params;
+    }
+    if (dto.notifyEmail !== undefined) {
+      rule.notifyEmail = dto.notifyEmail;
+    }
+    if (dto.webhookUrl !== undefined) {
+      if (dto.webhookUrl) {
+        await ensureDeliverableUrl(dto.webhookUrl, this.allowInsecureUrls);
+      }
+      rule.webhookUrl = dto.webhookUrl;
+    }
+    if (dto.isActive !== undefined) {
+      rule.isActive = dto.isActive;
+    }
+
+    if (!rule.notifyEmail && !rule.webhookUrl) {
+      throw new BadRequestException('Enable email notifications or provide a webhookUrl');
+    }
+
+    const result = await this.alertRuleRepository.save(rule);
+    this.logger.log(`User ${userId} updated alert rule ${ruleId}`);
+
+    return result;
+  }
+
+  /**
+   * Delete an alert rule and its delivery history
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<{ message: string }> {
+    const rule = await this.getRuleById(userId, ruleId);
+
+    await this.alertRuleRepository.remove(rule);
+    this.logger.log(`User ${userId} deleted alert rule ${ruleId}`);
+
+    return { message: 'Alert rule deleted successfully' };
+  }
+
+  /**
+   * Delivery history for a user, optionally restricted to one rule
+   */
+  async getDeliveries(
+    userId: string,
+    query: PaginationQueryDto,
+    ruleId?: string,
+  ): Promise<{ items: AlertDelivery[]; total: number; limit: number; offset: number }> {
+    if (ruleId) {
+      await this.getRuleById(userId, ruleId);
+    }
+
+    const limit = Math.min(query.limit ?? 20, 100);
+    const offset = query.offset ?? 0;
+
+    const [items, total] = await this.alertDeliveryRepository.findAndCount({
+      where: ruleId ? { userId, ruleId } : { userId },
+      order: { createdAt: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+
+    return { items, total, limit, offset };
+  }
+
+  private ensureConditionFitsItem(condition: AlertCondition, identifier: string): void {
+    const isValidator = identifier.startsWith('zigvaloper');
+    const isContract = !isValidator && identifier.startsWith('zig1') && identifier.length > 50;
+    const isAddress = !isValidator && identifier.startsWith('zig1');
+
+    const fits =
+      condition === AlertCondition.VALIDATOR_JAILED ||
+      condition === AlertCondition.VALIDATOR_COMMISSION_CHANGED
+        ? isValidator
+        : condition === AlertCondition.CONTRACT_EXECUTED
+          ? isContract
+          : isAddress;
+
+    if (!fits) {
+      throw new BadRequestException(
+        `Condition ${condition} is not supported for saved item ${identifier}`,
+      );
+    }
+  }
+
+  private ensureParamsFitCondition(condition: AlertCondition, params: AlertRuleParams): void {
+    if (
+      condition === AlertCondition.INCOMING_TRANSFER_ABOVE &&
+      (!params.minAmount || !params.denom)
+    ) {
+      throw new BadRequestException(
+        'params.minAmount and params.denom are required for incoming_transfer_above',
+      );
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AlertCondition } from '../enums/alert-condition.enum';
+
+export class AlertRuleParamsDto {
+  @ApiPropertyOptional({
+    description: 'Minimum incoming amount in base units (incoming_transfer_above)',
+    example: '1000000',
+  })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  minAmount?: string;
+
+  @ApiPropertyOptional({
+    description: 'Denom the threshold applies to (incoming_transfer_above)',
+    example: 'uzig',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  denom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only alert on this contract action (contract_executed)',
+    example: 'swap',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+}
+
+export class CreateAlertRuleDto {
+  @ApiProperty({ description: 'ID of the saved address, contract or validator to watch' })
+  @Matches(/^\d+$/, { message: 'savedItemId must be a numeric ID' })
+  savedItemId: string;
+
+  @ApiProperty({ enum: AlertCondition })
+  @IsEnum(AlertCondition)
+  condition: AlertCondition;
+
+  @ApiPropertyOptional({ type: AlertRuleParamsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AlertRuleParamsDto)
+  params?: AlertRuleParamsDto;
+
+  @ApiPropertyOptional({ description: 'Send alerts to the account email', default: true })
+  @IsOptional()
+  @IsBoolean()
+  notifyEmail?: boolean;
+
+  @ApiPropertyOptional({ description: 'HTTPS endpoint that receives alert payloads as JSON' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  webhookUrl?: string;
+}
@@ -0,0 +1,39 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AlertRuleParamsDto } from './create-alert-rule.dto';
+
+export class UpdateAlertRuleDto {
+  @ApiPropertyOptional({ type: AlertRuleParamsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AlertRuleParamsDto)
+  params?: AlertRuleParamsDto;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  notifyEmail?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'HTTPS endpoint that receives alert payloads; null removes the webhook',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  webhookUrl?: string | null;
+
+  @ApiPropertyOptional({ description: 'Pause or resume the rule' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,18 @@
+export enum AlertCondition {
+  INCOMING_TRANSFER_ABOVE = 'incoming_transfer_above',
+  ANY_TRANSACTION = 'any_transaction',
+  CONTRACT_EXECUTED = 'contract_executed',
+  VALIDATOR_JAILED = 'validator_jailed',
+  VALIDATOR_COMMISSION_CHANGED = 'validator_commission_changed',
+}
+
+export enum AlertChannel {
+  EMAIL = 'email',
+  WEBHOOK = 'webhook',
+}
+
+export enum AlertDeliveryStatus {
+  SENT = 'sent',
+  FAILED = 'failed',
+  RATE_LIMITED = 'rate_limited',
+}
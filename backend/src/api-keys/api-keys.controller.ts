@@ -1,7 +1,26 @@
-import { Body, Controller, Post, Request, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Headers,
+  HttpStatus,
+  Ip,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
 import { ApiKeysService } from './api-keys.service';
 import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import { ApiKeyUsageQueryDto } from './dto/api-key-usage-query.dto';
+import { UsageAnalyticsQueryDto } from '../request-logging/dto/usage-analytics-query.dto';
 import { JwtAuthGuard } from '../users/guards/jwt-auth.guard';
 
 @ApiTags('API Keys')
@@ -15,9 +34,78 @@ export class ApiKeysController {
   @ApiOperation({
     summary: 'Generate a new API key',
     description:
-      'Generates a new admin or user API key. Only allow-listed issuer accounts can call this route.',
+      'Verified users can generate readonly keys for themselves. Admin and user keys, and ' +
+      'custom rate limits, are reserved for allow-listed issuer accounts.',
   })
-  create(@Request() req: any, @Body() dto: CreateApiKeyDto) {
-    return this.apiKeysService.createApiKey(req.user.id, req.user.email, dto);
+  create(
+    @Request() req: any,
+    @Body() dto: CreateApiKeyDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.apiKeysService.createApiKey(req.user, dto, { ipAddress, userAgent });
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your API keys' })
+  list(@Request() req: any) {
+    return this.apiKeysService.listApiKeys(req.user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename an API key or change its scopes' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  update(@Request() req: any, @Param('id') id: string, @Body() dto: UpdateApiKeyDto) {
+    return this.apiKeysService.updateApiKey(req.user.id, id, dto);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate an API key',
+    description:
+      'Issues a new key with the same role and limits. The old key keeps working for ' +
+      '`gracePeriodHours` (default 24) and then expires.',
+  })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  rotate(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Body() dto: RotateApiKeyDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.apiKeysService.rotateApiKey(req.user, id, dto, { ipAddress, userAgent });
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key immediately' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  revoke(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.apiKeysService.revokeApiKey(req.user, id, { ipAddress, userAgent });
+  }
+
+  @Get(':id/usage')
+  @ApiOperation({ summary: 'Request statistics for one of your API keys' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  usage(@Request() req: any, @Param('id') id: string, @Query() query: ApiKeyUsageQueryDto) {
+    return this.apiKeysService.getApiKeyUsage(req.user.id, id, query);
+  }
+
+  @Get(':id/analytics')
+  @ApiOperation({
+    summary: 'Usage analytics for one of your API keys',
+    description:
+      'Requests, errors and bytes per hour or day, p50/p95/p99 latency per route, status code ' +
+      'breakdown and the top client IPs and user agents.',
+  })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  analytics(@Request() req: any, @Param('id') id: string, @Query() query: UsageAnalyticsQueryDto) {
+    return this.apiKeysService.getApiKeyAnalytics(req.user.id, id, query);
   }
 }
@@ -5,9 +5,10 @@ import { ApiKeysController } from './api-keys.controller';
 import { ApiKeysService } from './api-keys.service';
 import { ApiKey } from '../database/entities/api-key.entity';
 import { UsersModule } from '../users/users.module';
+import { RequestLoggingModule } from '../request-logging/request-logging.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([ApiKey]), ConfigModule, UsersModule],
+  imports: [TypeOrmModule.forFeature([ApiKey]), ConfigModule, UsersModule, RequestLoggingModule],
   controllers: [ApiKeysController],
   providers: [ApiKeysService],
   exports: [ApiKeysService],
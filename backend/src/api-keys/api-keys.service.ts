@@ -1,60 +1,333 @@
-import { BadRequestException, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
 import { ApiKey } from '../database/entities/api-key.entity';
 import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import { ApiKeyUsageQueryDto } from './dto/api-key-usage-query.dto';
+import { ApiScope, ROLE_SCOPES } from '../auth/enums/api-scope.enum';
 import { UserRole } from '../auth/enums/user-role.enum';
+import { RequestLoggingService } from '../request-logging/request-logging.service';
+import { UsageAnalyticsService } from '../request-logging/usage-analytics.service';
+import { UsageAnalyticsQueryDto } from '../request-logging/dto/usage-analytics-query.dto';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActorType, AuditOutcome } from '../audit/enums/audit-action.enum';
+import { AuditRequestContext } from '../audit/interfaces/audit-event.interface';
+
+export interface ApiKeyRequestUser {
+  id: string;
+  email: string;
+  isVerified: boolean;
+}
 
 @Injectable()
 export class ApiKeysService {
   private readonly logger = new Logger(ApiKeysService.name);
   private readonly allowedIssuers: Set<string>;
+  private readonly MAX_ACTIVE_KEYS_PER_USER = 10;
+  private readonly DEFAULT_ROTATION_GRACE_HOURS = 24;
 
   constructor(
     @InjectRepository(ApiKey)
     private readonly apiKeyRepository: Repository<ApiKey>,
     private readonly configService: ConfigService,
+    private readonly requestLoggingService: RequestLoggingService,
+    private readonly usageAnalyticsService: UsageAnalyticsService,
+    private readonly auditService: AuditService,
   ) {
     this.allowedIssuers = this.parseAllowedIssuers();
   }
 
-  async createApiKey(requestUserId: string, requestUserEmail: string, dto: CreateApiKeyDto) {
-    this.ensureIssuerAllowed(requestUserEmail);
+  async createApiKey(
+    requestUser: ApiKeyRequestUser,
+    dto: CreateApiKeyDto,
+    context: AuditRequestContext = {},
+  ) {
+    const role = dto.role ?? UserRole.READONLY;
+    const hasCustomLimits =
+      dto.rateLimitPerMinute !== undefined ||
+      dto.rateLimitPerDay !== undefined ||
+      dto.monthlyQuota !== undefined;
 
-    if (![UserRole.ADMIN, UserRole.USER].includes(dto.role)) {
-      throw new BadRequestException('Only admin or user API keys can be issued');
+    try {
+      if (role !== UserRole.READONLY || hasCustomLimits) {
+        this.ensureIssuerAllowed(requestUser.email);
+      } else {
+        await this.ensureSelfServiceAllowed(requestUser);
+      }
+      if (dto.scopes) {
+        this.ensureScopesAllowed(role, dto.scopes);
+      }
+    } catch (error) {
+      await this.recordKeyEvent(AuditAction.API_KEY_CREATED, requestUser, null, context, {
+        role,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
     }
 
-    const apiKey = this.generateRawKey();
-    const keyHash = this.hashKey(apiKey);
-
-    const entity = this.apiKeyRepository.create({
-      ownerId: requestUserId,
-      keyHash,
-      keyPrefix: apiKey.slice(0, 8),
+    const { apiKey, entity } = await this.issueKey({
+      ownerId: requestUser.id,
       label: dto.label ?? null,
-      role: dto.role,
+      role,
       timeRestricted: typeof dto.timeRestricted === 'boolean' ? dto.timeRestricted : false,
       expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+      rateLimitPerMinute: dto.rateLimitPerMinute ?? 100,
+      rateLimitPerDay: dto.rateLimitPerDay ?? null,
+      monthlyQuota: dto.monthlyQuota ?? null,
+      scopes: dto.scopes ?? null,
     });
 
-    await this.apiKeyRepository.save(entity);
+    this.logger.log(
+      `API key created by ${requestUser.email} (role=${role}, prefix=${entity.keyPrefix})`,
+    );
+    await this.recordKeyEvent(AuditAction.API_KEY_CREATED, requestUser, entity, context);
+
+    return { ...this.toResponse(entity), apiKey };
+  }
+
+  /**
+   * List every key owned by the user, including revoked ones
+   */
+  async listApiKeys(userId: string) {
+    const records = await this.apiKeyRepository.find({
+      where: { ownerId: userId },
+      order: { createdAt: 'DESC' },
+    });
+    return records.map(record => this.toResponse(record));
+  }
+
+  /**
+   * Rename a key or narrow/widen its scopes within what its role allows
+   */
+  async updateApiKey(userId: string, apiKeyId: string, dto: UpdateApiKeyDto) {
+    const record = await this.findOwnedKey(userId, apiKeyId);
+
+    if (dto.label !== undefined) {
+      record.label = dto.label;
+    }
+    if (dto.scopes !== undefined) {
+      this.ensureScopesAllowed(record.role, dto.scopes);
+      record.scopes = dto.scopes;
+    }
+    await this.apiKeyRepository.save(record);
+    this.logger.log(`API key ${record.keyPrefix}... updated by user ${userId}`);
+
+    return this.toResponse(record);
+  }
+
+  /**
+   * Issue a replacement key with the same role, scopes and limits. The old key keeps working until the
+   * grace period ends so clients can be switched over without downtime.
+   */
+  async rotateApiKey(
+    requestUser: ApiKeyRequestUser,
+    apiKeyId: string,
+    dto: RotateApiKeyDto,
+    context: AuditRequestContext = {},
+  ) {
+    const userId = requestUser.id;
+    const record = await this.findOwnedKey(userId, apiKeyId);
+    if (!record.isActive || this.isExpired(record)) {
+      throw new BadRequestException('Only active API keys can be rotated');
+    }
+
+    const gracePeriodHours = dto.gracePeriodHours ?? this.DEFAULT_ROTATION_GRACE_HOURS;
+    const graceExpiry = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+
+    const { apiKey, entity } = await this.issueKey({
+      ownerId: record.ownerId,
+      label: record.label,
+      role: record.role,
+      timeRestricted: record.timeRestricted,
+      expiresAt: record.expiresAt,
+      rateLimitPerMinute: record.rateLimitPerMinute,
+      rateLimitPerDay: record.rateLimitPerDay,
+      monthlyQuota: record.monthlyQuota,
+      scopes: record.scopes,
+      rotatedFromId: record.id,
+    });
+
+    if (gracePeriodHours === 0) {
+      record.isActive = false;
+      record.revokedAt = new Date();
+    } else if (!record.expiresAt || record.expiresAt > graceExpiry) {
+      record.expiresAt = graceExpiry;
+    }
+    await this.apiKeyRepository.save(record);
 
     this.logger.log(
-      `API key created by ${requestUserEmail} (role=${dto.role}, prefix=${entity.keyPrefix})`,
+      `API key ${record.keyPrefix}... rotated to ${entity.keyPrefix}... by user ${userId} (grace ${gracePeriodHours}h)`,
+    );
+    await this.recordKeyEvent(
+      AuditAction.API_KEY_ROTATED,
+      requestUser,
+      entity,
+      context,
+      undefined,
+      {
+        rotated_from_id: record.id,
+        grace_period_hours: gracePeriodHours,
+      },
     );
 
     return {
-      id: entity.id,
+      ...this.toResponse(entity),
       apiKey,
-      maskedKey: this.maskKey(apiKey),
-      role: entity.role,
-      label: entity.label,
-      timeRestricted: entity.timeRestricted,
-      expiresAt: entity.expiresAt,
-      createdAt: entity.createdAt,
+      previousKey: this.toResponse(record),
+    };
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  async revokeApiKey(
+    requestUser: ApiKeyRequestUser,
+    apiKeyId: string,
+    context: AuditRequestContext = {},
+  ) {
+    const record = await this.findOwnedKey(requestUser.id, apiKeyId);
+
+    if (record.isActive) {
+      record.isActive = false;
+      record.revokedAt = new Date();
+      await this.apiKeyRepository.save(record);
+      this.logger.log(`API key ${record.keyPrefix}... revoked by user ${requestUser.id}`);
+      await this.recordKeyEvent(AuditAction.API_KEY_REVOKED, requestUser, record, context);
+    }
+
+    return { message: 'API key revoked successfully' };
+  }
+
+  /**
+   * Request statistics for one key, read from api_request_logs
+   */
+  async getApiKeyUsage(userId: string, apiKeyId: string, query: ApiKeyUsageQueryDto) {
+    const record = await this.findOwnedKey(userId, apiKeyId);
+    const since = new Date(Date.now() - (query.days ?? 7) * 24 * 60 * 60 * 1000);
+
+    const usage = await this.requestLoggingService.getUsageForKey(record.id, since);
+    return {
+      id: record.id,
+      maskedKey: `${record.keyPrefix}...`,
+      totalRequests: Number(record.requestCount ?? 0),
+      lastUsedAt: record.lastUsedAt,
+      ...usage,
+    };
+  }
+
+  /**
+   * Time-bucketed traffic, latency and client breakdown for one of the user's keys
+   */
+  async getApiKeyAnalytics(userId: string, apiKeyId: string, query: UsageAnalyticsQueryDto) {
+    const record = await this.findOwnedKey(userId, apiKeyId);
+    const analytics = await this.usageAnalyticsService.getAnalytics(query, record.id);
+    return { ...analytics, maskedKey: `${record.keyPrefix}...` };
+  }
+
+  private async issueKey(fields: Partial<ApiKey>): Promise<{ apiKey: string; entity: ApiKey }> {
+    const apiKey = this.generateRawKey();
+    const entity = this.apiKeyRepository.create({
+      ...fields,
+      keyHash: this.hashKey(apiKey),
+      keyPrefix: apiKey.slice(0, 8),
+    });
+
+    await this.apiKeyRepository.save(entity);
+    return { apiKey, entity };
+  }
+
+  private async recordKeyEvent(
+    action: AuditAction,
+    requestUser: ApiKeyRequestUser,
+    record: ApiKey | null,
+    context: AuditRequestContext,
+    failure?: { role: UserRole; reason: string },
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    await this.auditService.record({
+      action,
+      outcome: failure ? AuditOutcome.FAILURE : AuditOutcome.SUCCESS,
+      actorType: AuditActorType.USER,
+      actorId: requestUser.id,
+      actorLabel: requestUser.email,
+      targetType: 'api_key',
+      targetId: record?.id ?? null,
+      metadata: {
+        ...metadata,
+        ...(record ? { key_prefix: record.keyPrefix, role: record.role } : {}),
+        ...(failure ?? {}),
+      },
+      ...context,
+    });
+  }
+
+  private async findOwnedKey(userId: string, apiKeyId: string): Promise<ApiKey> {
+    const record = /^\d+$/.test(apiKeyId)
+      ? await this.apiKeyRepository.findOne({ where: { id: apiKeyId, ownerId: userId } })
+      : null;
+
+    if (!record) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return record;
+  }
+
+  private async ensureSelfServiceAllowed(requestUser: ApiKeyRequestUser) {
+    if (!requestUser.isVerified) {
+      throw new ForbiddenException('Verify your email address before creating API keys.');
+    }
+
+    const activeKeys = await this.apiKeyRepository.count({
+      where: { ownerId: requestUser.id, isActive: true },
+    });
+    if (activeKeys >= this.MAX_ACTIVE_KEYS_PER_USER) {
+      throw new BadRequestException(
+        `API key limit reached (${this.MAX_ACTIVE_KEYS_PER_USER} active keys per user)`,
+      );
+    }
+  }
+
+  private ensureScopesAllowed(role: UserRole, scopes: ApiScope[]) {
+    const allowed = ROLE_SCOPES[role] ?? [];
+    const invalid = scopes.filter(scope => !allowed.includes(scope));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Scopes not available to ${role} keys: ${invalid.join(', ')}`);
+    }
+  }
+
+  private isExpired(record: ApiKey): boolean {
+    return record.expiresAt !== null && record.expiresAt.getTime() < Date.now();
+  }
+
+  private toResponse(record: ApiKey) {
+    return {
+      id: record.id,
+      maskedKey: `${record.keyPrefix}...`,
+      role: record.role,
+      scopes: record.scopes ?? ROLE_SCOPES[record.role] ?? [],
+      label: record.label,
+      isActive: record.isActive && !this.isExpired(record),
+      timeRestricted: record.timeRestricted,
+      expiresAt: record.expiresAt,
+      revokedAt: record.revokedAt,
+      rotatedFromId: record.rotatedFromId,
+      rateLimitPerMinute: record.rateLimitPerMinute,
+      rateLimitPerDay: record.rateLimitPerDay,
+      monthlyQuota: record.monthlyQuota,
+      requestCount: Number(record.requestCount ?? 0),
+      lastUsedAt: record.lastUsedAt,
+      createdAt: record.createdAt,
     };
   }
 
@@ -93,11 +366,4 @@ export class ApiKeysService {
   private hashKey(apiKey: string): string {
     return crypto.createHash('sha256').update(apiKey).digest('hex');
   }
-
-  private maskKey(apiKey: string): string {
-    if (!apiKey) {
-      return '***';
-    }
-    return apiKey.length > 8 ? `${apiKey.slice(0, 8)}...` : `${apiKey}***`;
-  }
 }
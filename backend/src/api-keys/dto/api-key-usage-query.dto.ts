@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ApiKeyUsageQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of days of usage to include',
+    minimum: 1,
+    maximum: 90,
+    default: 7,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  days = 7;
+}
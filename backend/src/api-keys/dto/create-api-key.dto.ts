@@ -1,14 +1,30 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsBoolean, IsEnum, IsISO8601, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsISO8601,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiScope } from '../../auth/enums/api-scope.enum';
 import { UserRole } from '../../auth/enums/user-role.enum';
 
 export class CreateApiKeyDto {
-  @ApiProperty({
-    description: 'Role assigned to the generated API key',
-    enum: [UserRole.ADMIN, UserRole.USER],
+  @ApiPropertyOptional({
+    description:
+      'Role assigned to the generated API key. Any verified user can create readonly keys; ' +
+      'admin and user keys require an allow-listed issuer account.',
+    enum: UserRole,
+    default: UserRole.READONLY,
   })
+  @IsOptional()
   @IsEnum(UserRole)
-  role: UserRole;
+  role?: UserRole;
 
   @ApiPropertyOptional({
     description: 'Friendly label to identify the API key',
@@ -34,4 +50,35 @@ export class CreateApiKeyDto {
   @IsOptional()
   @IsBoolean()
   timeRestricted?: boolean;
+
+  @ApiPropertyOptional({ description: 'Requests per sliding minute', default: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({ description: 'Requests per sliding 24 hours (unlimited when omitted)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerDay?: number;
+
+  @ApiPropertyOptional({ description: 'Requests per UTC calendar month (unlimited when omitted)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  monthlyQuota?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Route groups the key may call. Must be a subset of what the role allows; all of them ' +
+      'when omitted.',
+    enum: ApiScope,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(ApiScope, { each: true })
+  scopes?: ApiScope[];
 }
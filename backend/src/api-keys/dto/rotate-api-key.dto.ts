@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    description: 'Hours the previous key keeps working after rotation (0 revokes it immediately)',
+    minimum: 0,
+    maximum: 168,
+    default: 24,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(168)
+  gracePeriodHours?: number;
+}
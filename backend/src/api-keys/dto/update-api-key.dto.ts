@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiScope } from '../../auth/enums/api-scope.enum';
+
+export class UpdateApiKeyDto {
+  @ApiPropertyOptional({
+    description: 'New label for the API key',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Replace the route groups the key may call (subset of what its role allows)',
+    enum: ApiScope,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(ApiScope, { each: true })
+  scopes?: ApiScope[];
+}
@@ -25,8 +25,16 @@ import { SavedItemsModule } from './saved-items/saved-items.module';
 import { ApiKeysModule } from './api-keys/api-keys.module';
 import { RequestLoggingModule } from './request-logging/request-logging.module';
 import { MetricsModule } from './metrics/metrics.module';
+import { AuditModule } from './audit/audit.module';
 import { MdfModule } from './mdf/mdf.module';
 import { ZigscanPostgresModule } from './zigscan-postgres/zigscan-postgres.module';
+import { SearchModule } from './search/search.module';
+import { ExportsModule } from './exports/exports.module';
+import { StreamModule } from './stream/stream.module';
+import { AlertsModule } from './alerts/alerts.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { GovernanceModule } from './governance/governance.module';
+import { IbcModule } from './ibc/ibc.module';
 
 @Module({
   imports: [
@@ -85,8 +93,16 @@ import { ZigscanPostgresModule } from './zigscan-postgres/zigscan-postgres.modul
     ApiKeysModule,
     RequestLoggingModule,
     MetricsModule,
+    AuditModule,
     MdfModule,
     ZigscanPostgresModule,
+    SearchModule,
+    ExportsModule,
+    StreamModule,
+    AlertsModule,
+    WebhooksModule,
+    GovernanceModule,
+    IbcModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,111 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuditEvent } from '../database/entities/audit-event.entity';
+import { AuditEventsQueryDto } from './dto/audit-events-query.dto';
+import { AuditEventInput } from './interfaces/audit-event.interface';
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEvent)
+    private readonly auditEventRepository: Repository<AuditEvent>,
+  ) {}
+
+  /**
+   * Append an event. Failures are logged and swallowed so auditing never breaks the action
+   * being audited.
+   */
+  async record(event: AuditEventInput): Promise<void> {
+    try {
+      await this.auditEventRepository.insert({
+        action: event.action,
+        outcome: event.outcome,
+        actorType: event.actorType,
+        actorId: event.actorId ?? null,
+        actorLabel: event.actorLabel?.slice(0, 255) ?? null,
+        targetType: event.targetType ?? null,
+        targetId: event.targetId ?? null,
+        ipAddress: event.ipAddress?.slice(0, 64) ?? null,
+        userAgent: event.userAgent ?? null,
+        metadata: event.metadata ?? null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to record audit event ${event.action}: ${message}`);
+    }
+  }
+
+  /**
+   * Newest events first, paged by an opaque cursor over the event ID
+   */
+  async getEvents(query: AuditEventsQueryDto) {
+    const limit = query.limit ?? 100;
+    const builder = this.auditEventRepository
+      .createQueryBuilder('event')
+      .orderBy('event.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.actor) {
+      builder.andWhere('(event.actorId = :actor OR event.actorLabel = :actor)', {
+        actor: query.actor,
+      });
+    }
+    if (query.actorType) {
+      builder.andWhere('event.actorType = :actorType', { actorType: query.actorType });
+    }
+    if (query.action) {
+      builder.andWhere('event.action = :action', { action: query.action });
+    }
+    if (query.outcome) {
+      builder.andWhere('event.outcome = :outcome', { outcome: query.outcome });
+    }
+    if (query.from) {
+      builder.andWhere('event.createdAt >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      builder.andWhere('event.createdAt < :to', { to: new Date(query.to) });
+    }
+    if (query.cursor) {
+      const before = this.decodeCursor(query.cursor);
+      if (!before) {
+        throw new BadRequestException('Invalid cursor');
+      }
+      builder.andWhere('event.id < :before', { before });
+    }
+
+    const rows = await builder.getMany();
+    const events = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      events: events.map(event => ({
+        id: event.id,
+        action: event.action,
+        outcome: event.outcome,
+        actor_type: event.actorType,
+        actor_id: event.actorId,
+        actor_label: event.actorLabel,
+        target_type: event.targetType,
+        target_id: event.targetId,
+        ip_address: event.ipAddress,
+        user_agent: event.userAgent,
+        metadata: event.metadata,
+        created_at: event.createdAt,
+      })),
+      limit,
+      next_cursor: hasMore ? this.encodeCursor(events[events.length - 1].id) : null,
+    };
+  }
+
+  private encodeCursor(id: string): string {
+    return Buffer.from(id, 'utf8').toString('base64url');
+  }
+
+  private decodeCursor(value: string): string | null {
+    const id = Buffer.from(value.trim(), 'base64url').toString('utf8');
+    return /^\d{1,19}$/.test(id) ? id : null;
+  }
+}
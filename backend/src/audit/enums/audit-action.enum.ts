@@ -0,0 +1,23 @@
+export enum AuditAction {
+  LOGIN = 'auth.login',
+  LOGIN_FAILED = 'auth.login_failed',
+  PASSWORD_RESET_REQUESTED = 'auth.password_reset_requested',
+  PASSWORD_RESET = 'auth.password_reset',
+  ACCOUNT_DELETED = 'account.deleted',
+  API_KEY_CREATED = 'api_key.created',
+  API_KEY_ROTATED = 'api_key.rotated',
+  API_KEY_REVOKED = 'api_key.revoked',
+  ADMIN_SQL_EXECUTED = 'admin.sql_executed',
+}
+
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+export enum AuditActorType {
+  USER = 'user',
+  API_KEY = 'api_key',
+  ANONYMOUS = 'anonymous',
+  SYSTEM = 'system',
+}
@@ -0,0 +1,21 @@
+import { AuditAction, AuditActorType, AuditOutcome } from '../enums/audit-action.enum';
+
+/**
+ * Where a request came from, passed down from the controller
+ */
+export interface AuditRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEventInput extends AuditRequestContext {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actorType: AuditActorType;
+  actorId?: string | null;
+  // Human-readable actor: email, username, login identifier or masked key
+  actorLabel?: string | null;
+  targetType?: string;
+  targetId?: string | null;
+  metadata?: Record<string, unknown>;
+}
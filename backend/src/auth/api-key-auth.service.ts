@@ -1,41 +1,34 @@
 import {
   ForbiddenException,
-  HttpException,
-  HttpStatus,
   Injectable,
   Logger,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { MoreThan, Repository } from 'typeorm';
+import { Repository } from 'typeorm';
 import * as crypto from 'crypto';
 import { AppConfiguration } from '../config/configuration';
+import { ApiScope, ROLE_SCOPES } from './enums/api-scope.enum';
 import { UserRole } from './enums/user-role.enum';
 import { ApiKeyContext, UserRoleInfo } from './interfaces/api-key-context.interface';
 import { ApiKey } from '../database/entities/api-key.entity';
-
-interface RateLimitInfo {
-  requestsInWindow: number;
-  maxRequests: number;
-  windowSeconds: number;
-  remaining: number;
-}
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitExceededException } from './exceptions/rate-limit-exceeded.exception';
+import { RateLimitState } from './interfaces/rate-limit-state.interface';
 
 @Injectable()
 export class ApiKeyAuthService {
   private readonly logger = new Logger(ApiKeyAuthService.name);
   private readonly usageStats = new Map<string, number>();
-  private readonly rateLimiter = new Map<string, number[]>();
   private readonly requireAuth: boolean;
 
-  private readonly maxRequests = 100;
-  private readonly windowSeconds = 60;
-
   constructor(
     private readonly configService: ConfigService,
     @InjectRepository(ApiKey)
     private readonly apiKeyRepository: Repository<ApiKey>,
+    private readonly rateLimitService: RateLimitService,
   ) {
     const apiConfig = this.configService.getOrThrow<AppConfiguration['api']>('api');
     this.requireAuth = apiConfig.requireAuth ?? true;
@@ -62,13 +55,14 @@ export class ApiKeyAuthService {
     return token;
   }
 
-  async validateApiKey(apiKey: string): Promise<ApiKeyContext> {
+  async validateApiKey(apiKey: string, cost = 1): Promise<ApiKeyContext> {
     if (!this.requireAuth) {
       return {
         apiKey: '',
         maskedKey: 'public',
         role: UserRole.READONLY,
         permissions: ['read'],
+        scopes: ROLE_SCOPES[UserRole.READONLY],
         timeRestricted: false,
         apiKeyId: undefined,
         apiKeyPrefix: 'public',
@@ -94,20 +88,23 @@ export class ApiKeyAuthService {
     }
 
     const userInfo = this.getRoleInfo(keyRecord);
-    if (userInfo.role !== UserRole.ADMIN) {
-      this.applyRateLimit(apiKey);
-    }
+    const rateLimit =
+      userInfo.role !== UserRole.ADMIN
+        ? await this.applyRateLimit(apiKey, keyRecord, cost)
+        : undefined;
 
-    await this.incrementUsage(apiKey, keyRecord);
+    await this.incrementUsage(apiKey, keyRecord, rateLimit);
 
     return {
       apiKey,
       maskedKey,
       role: userInfo.role,
       permissions: userInfo.permissions,
+      scopes: userInfo.scopes,
       timeRestricted: userInfo.timeRestricted,
       apiKeyId: keyRecord.id,
       apiKeyPrefix: keyRecord.keyPrefix,
+      rateLimit,
     };
   }
 
@@ -125,6 +122,47 @@ export class ApiKeyAuthService {
     this.logger.log(`Admin access granted for ${this.maskKey(authContext.apiKey)}`);
   }
 
+  requireScopes(authContext: ApiKeyContext, scopes: ApiScope[]): void {
+    if (!this.requireAuth) {
+      return;
+    }
+
+    const missing = scopes.filter(scope => !authContext?.scopes?.includes(scope));
+    if (missing.length > 0) {
+      const keyForLog = authContext?.apiKey ? this.maskKey(authContext.apiKey) : 'unknown';
+      this.logger.warn(`Scope check failed: API key ${keyForLog} lacks ${missing.join(', ')}`);
+      throw new ForbiddenException(
+        `API key is missing required scope${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Route checks shared by the API key guards: non-read methods need an admin key unless the
+   * route is marked `@ReadOnlyRoute()`, and the key must hold the route's scopes.
+   */
+  authorizeRoute(
+    authContext: ApiKeyContext,
+    request: { method?: string; url: string },
+    route: { readOnly?: boolean; scopes?: ApiScope[] },
+  ): void {
+    const method = (request.method || 'GET').toUpperCase();
+    const isReadOnlyMethod = method === 'GET' || method === 'HEAD' || method === 'OPTIONS';
+
+    if (!isReadOnlyMethod && !route.readOnly) {
+      try {
+        this.requireAdminAccess(authContext);
+      } catch (error) {
+        this.logger.warn(`Blocked ${method} ${request.url} for non-admin API key`);
+        throw error;
+      }
+    }
+
+    if (route.scopes?.length) {
+      this.requireScopes(authContext, route.scopes);
+    }
+  }
+
   async getApiKeyStats(apiKey: string) {
     const keyHash = this.hashKey(apiKey);
     const record = await this.apiKeyRepository.findOne({ where: { keyHash } });
@@ -134,16 +172,24 @@ export class ApiKeyAuthService {
     }
 
     const roleInfo = this.getRoleInfo(record);
-    const rateInfo = this.getRateLimitInfo(apiKey);
+    const rateInfo = await this.rateLimitService.peek(record);
 
     return {
       api_key: this.maskKey(apiKey),
       role: roleInfo.role,
       permissions: roleInfo.permissions,
+      scopes: roleInfo.scopes,
       time_restricted: roleInfo.timeRestricted,
       admin_window_active: false,
       total_requests: Number(record.requestCount ?? 0),
-      rate_limit: rateInfo,
+      rate_limit: {
+        per_minute: rateInfo.limit,
+        remaining_minute: rateInfo.remaining,
+        per_day: rateInfo.dailyLimit,
+        remaining_day: rateInfo.dailyRemaining,
+        monthly_quota: rateInfo.monthlyQuota,
+        remaining_month: rateInfo.monthlyRemaining,
+      },
       is_active: record.isActive,
     };
   }
@@ -157,8 +203,12 @@ export class ApiKeyAuthService {
         api_key: `${record.keyPrefix}...`,
         role: info.role,
         permissions: info.permissions,
+        scopes: info.scopes,
         time_restricted: info.timeRestricted,
         total_requests: Number(record.requestCount ?? 0),
+        rate_limit_per_minute: record.rateLimitPerMinute,
+        rate_limit_per_day: record.rateLimitPerDay,
+        monthly_quota: record.monthlyQuota,
         last_used_at: record.lastUsedAt,
         expires_at: record.expiresAt,
         is_active: record.isActive,
@@ -166,6 +216,41 @@ export class ApiKeyAuthService {
     });
   }
 
+  async updateRateLimits(
+    apiKeyId: string,
+    limits: Partial<Pick<ApiKey, 'rateLimitPerMinute' | 'rateLimitPerDay' | 'monthlyQuota'>>,
+  ) {
+    const record = /^\d+$/.test(apiKeyId)
+      ? await this.apiKeyRepository.findOne({ where: { id: apiKeyId } })
+      : null;
+
+    if (!record) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (limits.rateLimitPerMinute !== undefined) {
+      record.rateLimitPerMinute = limits.rateLimitPerMinute;
+    }
+    if (limits.rateLimitPerDay !== undefined) {
+      record.rateLimitPerDay = limits.rateLimitPerDay;
+    }
+    if (limits.monthlyQuota !== undefined) {
+      record.monthlyQuota = limits.monthlyQuota;
+    }
+
+    await this.apiKeyRepository.save(record);
+    this.logger.log(
+      `Updated rate limits for API key ${record.keyPrefix}... (minute=${record.rateLimitPerMinute}, day=${record.rateLimitPerDay}, month=${record.monthlyQuota})`,
+    );
+
+    return {
+      api_key: `${record.keyPrefix}...`,
+      rate_limit_per_minute: record.rateLimitPerMinute,
+      rate_limit_per_day: record.rateLimitPerDay,
+      monthly_quota: record.monthlyQuota,
+    };
+  }
+
   async getSystemStats() {
     const records = await this.apiKeyRepository.find();
 
@@ -187,79 +272,40 @@ export class ApiKeyAuthService {
     };
   }
 
-  async getAuditLog(limit: number) {
-    const [entries, totalEntries] = await Promise.all([
-      this.apiKeyRepository.find({
-        where: { requestCount: MoreThan('0') },
-        order: { requestCount: 'DESC' },
-        take: limit,
-      }),
-      this.apiKeyRepository.count({ where: { requestCount: MoreThan('0') } }),
-    ]);
-
-    return {
-      audit_entries: entries.map(record => ({
-        api_key: `${record.keyPrefix}...`,
-        role: record.role,
-        total_requests: Number(record.requestCount ?? 0),
-        last_used_at: record.lastUsedAt,
-      })),
-      total_entries: totalEntries,
-    };
-  }
-
-  private applyRateLimit(apiKey: string): void {
-    const now = Date.now();
-    const windowStart = now - this.windowSeconds * 1000;
-    const timestamps = this.rateLimiter.get(apiKey) ?? [];
-    const recent = timestamps.filter(timestamp => timestamp >= windowStart);
-
-    if (recent.length >= this.maxRequests) {
-      const rateInfo = this.getRateLimitInfo(apiKey, recent);
-      this.logger.warn(
-        `Rate limit exceeded for ${this.maskKey(apiKey)} (${rateInfo.requestsInWindow}/${rateInfo.maxRequests})`,
-      );
-      throw new HttpException(
-        `Rate limit exceeded. Max ${rateInfo.maxRequests} requests per ${rateInfo.windowSeconds} seconds.`,
-        HttpStatus.TOO_MANY_REQUESTS,
-      );
+  private async applyRateLimit(apiKey: string, record: ApiKey, cost = 1): Promise<RateLimitState> {
+    try {
+      return await this.rateLimitService.consume(record, cost);
+    } catch (error) {
+      if (error instanceof RateLimitExceededException) {
+        this.logger.warn(
+          `Rate limit exceeded for ${this.maskKey(apiKey)} (${error.state.exceeded} window)`,
+        );
+      }
+      throw error;
     }
-
-    recent.push(now);
-    this.rateLimiter.set(apiKey, recent);
   }
 
-  private async incrementUsage(apiKey: string, record: ApiKey): Promise<void> {
+  private async incrementUsage(
+    apiKey: string,
+    record: ApiKey,
+    rateLimit?: RateLimitState,
+  ): Promise<void> {
     const current = this.usageStats.get(apiKey) ?? 0;
     this.usageStats.set(apiKey, current + 1);
-    const rateInfo = this.getRateLimitInfo(apiKey);
     await this.apiKeyRepository.increment({ id: record.id }, 'requestCount', 1);
     await this.apiKeyRepository.update(record.id, { lastUsedAt: new Date() });
 
     const userInfo = this.getRoleInfo(record);
+    const window = rateLimit?.limit
+      ? `${rateLimit.limit - (rateLimit.remaining ?? 0)}/${rateLimit.limit}`
+      : 'unlimited';
     this.logger.log(
       `API key authenticated: ${this.maskKey(apiKey)} (role: ${
         userInfo?.role ?? 'unknown'
-      }, total: ${current + 1}, window: ${rateInfo.requestsInWindow}/${rateInfo.maxRequests})`,
+      }, total: ${current + 1}, window: ${window})`,
     );
   }
 
-  private getRateLimitInfo(apiKey: string, timestamps?: number[]): RateLimitInfo {
-    const windowStart = Date.now() - this.windowSeconds * 1000;
-    const entries = timestamps ?? this.rateLimiter.get(apiKey) ?? [];
-    const clean = entries.filter(timestamp => timestamp >= windowStart);
-    if (!timestamps) {
-      this.rateLimiter.set(apiKey, clean);
-    }
-
-    return {
-      requestsInWindow: clean.length,
-      maxRequests: this.maxRequests,
-      windowSeconds: this.windowSeconds,
-      remaining: Math.max(0, this.maxRequests - clean.length),
-    };
-  }
-
   private maskKey(apiKey: string): string {
     if (!apiKey) {
       return '***';
@@ -275,6 +321,7 @@ export class ApiKeyAuthService {
     const info: UserRoleInfo = {
       role: record.role,
       permissions: record.role === UserRole.ADMIN ? ['read', 'write', 'admin', 'query'] : ['read'],
+      scopes: record.scopes ?? ROLE_SCOPES[record.role] ?? [],
       // Time window restrictions are disabled for admin access.
       timeRestricted: false,
     };
@@ -3,10 +3,12 @@ import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ApiKeyAuthService } from './api-key-auth.service';
 import { ApiKey } from '../database/entities/api-key.entity';
+import { RedisModule } from '../redis/redis.module';
+import { RateLimitService } from './rate-limit.service';
 
 @Module({
-  imports: [ConfigModule, TypeOrmModule.forFeature([ApiKey])],
-  providers: [ApiKeyAuthService],
-  exports: [ApiKeyAuthService],
+  imports: [ConfigModule, TypeOrmModule.forFeature([ApiKey]), RedisModule],
+  providers: [ApiKeyAuthService, RateLimitService],
+  exports: [ApiKeyAuthService, RateLimitService],
 })
 export class AuthModule {}
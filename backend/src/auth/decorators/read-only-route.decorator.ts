@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const READ_ONLY_ROUTE_KEY = 'readOnlyRoute';
+
+/**
+ * Marks a non-GET route that only reads data (e.g. a query sent as a POST body), so the API
+ * key guard lets non-admin keys through and only checks the route's scopes.
+ */
+export const ReadOnlyRoute = () => SetMetadata(READ_ONLY_ROUTE_KEY, true);
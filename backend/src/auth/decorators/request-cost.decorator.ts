@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUEST_COST_KEY = 'requestCost';
+
+/**
+ * Marks a route as a heavier request class: each call consumes `cost` units of the
+ * caller's API key rate limit instead of one.
+ */
+export const RequestCost = (cost: number) => SetMetadata(REQUEST_COST_KEY, cost);
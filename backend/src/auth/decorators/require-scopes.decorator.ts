@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from '../enums/api-scope.enum';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Declares the API key scopes a controller or route needs. A handler-level declaration
+ * replaces the controller-level one.
+ */
+export const RequireScopes = (...scopes: ApiScope[]) => SetMetadata(REQUIRED_SCOPES_KEY, scopes);
@@ -0,0 +1,22 @@
+import { UserRole } from './user-role.enum';
+
+export enum ApiScope {
+  BLOCKS_READ = 'blocks:read',
+  ACCOUNTS_READ = 'accounts:read',
+  CONTRACTS_READ = 'contracts:read',
+  VALIDATORS_READ = 'validators:read',
+  DEFI_READ = 'defi:read',
+  EXPORT = 'export',
+  STREAM = 'stream',
+  WEBHOOKS = 'webhooks',
+  ADMIN_QUERY = 'admin:query',
+}
+
+/**
+ * Scopes a key gets when none are stored on it, and the most a key of that role may be given.
+ */
+export const ROLE_SCOPES: Record<UserRole, ApiScope[]> = {
+  [UserRole.ADMIN]: Object.values(ApiScope),
+  [UserRole.USER]: Object.values(ApiScope).filter(scope => scope !== ApiScope.ADMIN_QUERY),
+  [UserRole.READONLY]: Object.values(ApiScope).filter(scope => scope !== ApiScope.ADMIN_QUERY),
+};
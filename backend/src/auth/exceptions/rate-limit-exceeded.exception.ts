@@ -0,0 +1,11 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { RateLimitState } from '../interfaces/rate-limit-state.interface';
+
+export class RateLimitExceededException extends HttpException {
+  constructor(
+    message: string,
+    readonly state: RateLimitState,
+  ) {
+    super(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
@@ -1,13 +1,22 @@
-import { CanActivate, ExecutionContext, Injectable, Logger } from '@nestjs/common';
-import { Request } from 'express';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
 import { ApiKeyAuthService } from '../api-key-auth.service';
+import { READ_ONLY_ROUTE_KEY } from '../decorators/read-only-route.decorator';
+import { REQUEST_COST_KEY } from '../decorators/request-cost.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { ApiScope } from '../enums/api-scope.enum';
+import { RateLimitExceededException } from '../exceptions/rate-limit-exceeded.exception';
 import { ApiKeyContext } from '../interfaces/api-key-context.interface';
+import { RateLimitService } from '../rate-limit.service';
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
-  private readonly logger = new Logger(ApiKeyGuard.name);
-
-  constructor(private readonly authService: ApiKeyAuthService) {}
+  constructor(
+    private readonly authService: ApiKeyAuthService,
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     type AuthenticatedRequest = Request & { authContext?: ApiKeyContext };
@@ -15,26 +24,47 @@ export class ApiKeyGuard implements CanActivate {
     const authorization = request.headers['authorization'] as string | undefined;
 
     const apiKey = this.authService.validateAuthorizationHeader(authorization);
-    const authContext = await this.authService.validateApiKey(apiKey);
+    const cost =
+      this.reflector.getAllAndOverride<number | undefined>(REQUEST_COST_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 1;
+    const response = context.switchToHttp().getResponse<Response>();
+    const authContext = await this.authenticate(apiKey, cost, response);
 
     request.authContext = authContext;
-    this.enforceReadOnlyAccess(request);
+    this.authService.authorizeRoute(
+      authContext,
+      { method: request.method, url: request.originalUrl || request.url || 'unknown' },
+      {
+        readOnly: this.reflector.getAllAndOverride<boolean | undefined>(READ_ONLY_ROUTE_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ]),
+        scopes: this.reflector.getAllAndOverride<ApiScope[] | undefined>(REQUIRED_SCOPES_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ]),
+      },
+    );
     return true;
   }
 
-  private enforceReadOnlyAccess(request: Request & { authContext?: ApiKeyContext }) {
-    const method = (request.method || 'GET').toUpperCase();
-    const isReadOnlyMethod = method === 'GET' || method === 'HEAD' || method === 'OPTIONS';
-
-    if (isReadOnlyMethod) {
-      return;
-    }
-
+  private async authenticate(
+    apiKey: string,
+    cost: number,
+    response: Response,
+  ): Promise<ApiKeyContext> {
     try {
-      this.authService.requireAdminAccess(request.authContext as ApiKeyContext);
+      const authContext = await this.authService.validateApiKey(apiKey, cost);
+      if (authContext.rateLimit) {
+        this.rateLimitService.setHeaders(response, authContext.rateLimit);
+      }
+      return authContext;
     } catch (error) {
-      const url = request.originalUrl || request.url || 'unknown';
-      this.logger.warn(`Blocked ${method} ${url} for non-admin API key`);
+      if (error instanceof RateLimitExceededException) {
+        this.rateLimitService.setHeaders(response, error.state);
+      }
       throw error;
     }
   }
@@ -1,17 +1,23 @@
+import { ApiScope } from '../enums/api-scope.enum';
 import { UserRole } from '../enums/user-role.enum';
+import { RateLimitState } from './rate-limit-state.interface';
 
 export interface ApiKeyContext {
   apiKey: string;
   maskedKey: string;
   role: UserRole;
   permissions: string[];
+  scopes: ApiScope[];
   timeRestricted: boolean;
   apiKeyId?: string;
   apiKeyPrefix?: string;
+  // Not set for admin keys, which are exempt from rate limiting
+  rateLimit?: RateLimitState;
 }
 
 export interface UserRoleInfo {
   role: UserRole;
   permissions: string[];
+  scopes: ApiScope[];
   timeRestricted: boolean;
 }
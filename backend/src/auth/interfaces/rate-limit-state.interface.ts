@@ -0,0 +1,18 @@
+export type RateLimitWindow = 'minute' | 'day' | 'month';
+
+/**
+ * Usage of one API key against its limits after the current request. A null limit means the
+ * window is not enforced for that key.
+ */
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  // Seconds until the current per-minute bucket rolls over
+  resetSeconds: number;
+  dailyLimit: number | null;
+  dailyRemaining: number | null;
+  monthlyQuota: number | null;
+  monthlyRemaining: number | null;
+  exceeded?: RateLimitWindow;
+  retryAfterSeconds?: number;
+}
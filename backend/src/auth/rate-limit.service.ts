@@ -0,0 +1,271 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { ApiKey } from '../database/entities/api-key.entity';
+import { RedisService } from '../redis/redis.service';
+import { RateLimitExceededException } from './exceptions/rate-limit-exceeded.exception';
+import { RateLimitState, RateLimitWindow } from './interfaces/rate-limit-state.interface';
+
+type ApiKeyLimits = Pick<ApiKey, 'id' | 'rateLimitPerMinute' | 'rateLimitPerDay' | 'monthlyQuota'>;
+
+type WindowCounters = { current: number; previous: number; elapsed: number };
+
+/**
+ * Checks all windows and only then increments, so a rejected request does not consume quota.
+ * Minute and day use a sliding-window counter (previous bucket weighted by how much of it still
+ * overlaps the window); the monthly quota is a plain UTC calendar-month counter.
+ *
+ * KEYS: minute current/previous, day current/previous, month
+ * ARGV: cost, minute limit, minute weight, day limit, day weight, month quota,
+ *       minute ttl ms, day ttl ms, month ttl ms (limits < 0 are not enforced)
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local cost = tonumber(ARGV[1])
+local function count(key)
+  return tonumber(redis.call('GET', key) or '0')
+end
+local minuteUsed = math.floor(count(KEYS[2]) * tonumber(ARGV[3]) + count(KEYS[1]))
+local dayUsed = math.floor(count(KEYS[4]) * tonumber(ARGV[5]) + count(KEYS[3]))
+local monthUsed = count(KEYS[5])
+
+local blocked = ''
+if tonumber(ARGV[6]) >= 0 and monthUsed + cost > tonumber(ARGV[6]) then
+  blocked = 'month'
+elseif tonumber(ARGV[4]) >= 0 and dayUsed + cost > tonumber(ARGV[4]) then
+  blocked = 'day'
+elseif tonumber(ARGV[2]) >= 0 and minuteUsed + cost > tonumber(ARGV[2]) then
+  blocked = 'minute'
+end
+
+if blocked == '' and cost > 0 then
+  redis.call('INCRBY', KEYS[1], cost)
+  redis.call('PEXPIRE', KEYS[1], ARGV[7])
+  redis.call('INCRBY', KEYS[3], cost)
+  redis.call('PEXPIRE', KEYS[3], ARGV[8])
+  redis.call('INCRBY', KEYS[5], cost)
+  redis.call('PEXPIRE', KEYS[5], ARGV[9])
+end
+
+return { blocked, tostring(count(KEYS[1])), tostring(count(KEYS[2])), tostring(count(KEYS[3])),
+  tostring(count(KEYS[4])), tostring(count(KEYS[5])) }
+`;
+
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly MINUTE_MS = 60_000;
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Per-process per-minute fallback used only while Redis is unreachable
+  private readonly fallbackWindows = new Map<string, number[]>();
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Records `cost` units for the key, or throws RateLimitExceededException (429) carrying the
+   * state needed for Retry-After.
+   */
+  async consume(record: ApiKeyLimits, cost = 1): Promise<RateLimitState> {
+    const state = await this.evaluate(record, cost);
+
+    if (state.exceeded) {
+      const message =
+        state.exceeded === 'month'
+          ? `Monthly quota of ${state.monthlyQuota} requests exhausted.`
+          : state.exceeded === 'day'
+            ? `Rate limit exceeded. Max ${state.dailyLimit} requests per day.`
+            : `Rate limit exceeded. Max ${state.limit} requests per 60 seconds.`;
+      throw new RateLimitExceededException(message, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Current usage without recording a request.
+   */
+  async peek(record: ApiKeyLimits): Promise<RateLimitState> {
+    const state = await this.evaluate(record, 0);
+    delete state.exceeded;
+    delete state.retryAfterSeconds;
+    return state;
+  }
+
+  setHeaders(response: Response, state: RateLimitState): void {
+    if (state.limit !== null && state.remaining !== null) {
+      response.setHeader('X-RateLimit-Limit', state.limit);
+      response.setHeader('X-RateLimit-Remaining', state.remaining);
+      response.setHeader('X-RateLimit-Reset', state.resetSeconds);
+    }
+    if (state.dailyLimit !== null && state.dailyRemaining !== null) {
+      response.setHeader('X-RateLimit-Limit-Day', state.dailyLimit);
+      response.setHeader('X-RateLimit-Remaining-Day', state.dailyRemaining);
+    }
+    if (state.monthlyQuota !== null && state.monthlyRemaining !== null) {
+      response.setHeader('X-RateLimit-Quota-Month', state.monthlyQuota);
+      response.setHeader('X-RateLimit-Quota-Remaining', state.monthlyRemaining);
+    }
+    if (state.retryAfterSeconds !== undefined) {
+      response.setHeader('Retry-After', state.retryAfterSeconds);
+    }
+  }
+
+  private async evaluate(record: ApiKeyLimits, cost: number): Promise<RateLimitState> {
+    const client = this.redisService.getReadyClient();
+    if (!client) {
+      return this.evaluateInMemory(record, cost);
+    }
+
+    const now = Date.now();
+    const minuteBucket = Math.floor(now / this.MINUTE_MS);
+    const dayBucket = Math.floor(now / this.DAY_MS);
+    const minuteElapsed = (now % this.MINUTE_MS) / this.MINUTE_MS;
+    const dayElapsed = (now % this.DAY_MS) / this.DAY_MS;
+    const monthEnd = this.nextMonthStart(now);
+    const prefix = `ratelimit:${record.id}`;
+    const month = new Date(now).toISOString().slice(0, 7);
+
+    try {
+      const reply = (await client.eval(SLIDING_WINDOW_SCRIPT, {
+        keys: [
+          `${prefix}:minute:${minuteBucket}`,
+          `${prefix}:minute:${minuteBucket - 1}`,
+          `${prefix}:day:${dayBucket}`,
+          `${prefix}:day:${dayBucket - 1}`,
+          `${prefix}:month:${month}`,
+        ],
+        arguments: [
+          String(cost),
+          String(record.rateLimitPerMinute ?? -1),
+          String(1 - minuteElapsed),
+          String(record.rateLimitPerDay ?? -1),
+          String(1 - dayElapsed),
+          String(record.monthlyQuota ?? -1),
+          String(this.MINUTE_MS * 2),
+          String(this.DAY_MS * 2),
+          String(monthEnd - now + this.DAY_MS),
+        ],
+      })) as string[];
+
+      const [blocked, minuteCurrent, minutePrevious, dayCurrent, dayPrevious, monthUsed] = reply;
+      return this.buildState(
+        record,
+        cost,
+        {
+          current: Number(minuteCurrent),
+          previous: Number(minutePrevious),
+          elapsed: minuteElapsed,
+        },
+        { current: Number(dayCurrent), previous: Number(dayPrevious), elapsed: dayElapsed },
+        Number(monthUsed),
+        Math.ceil((monthEnd - now) / 1000),
+        (blocked || undefined) as RateLimitWindow | undefined,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Redis rate limit check failed, using in-process limiter: ${message}`);
+      return this.evaluateInMemory(record, cost);
+    }
+  }
+
+  private buildState(
+    record: ApiKeyLimits,
+    cost: number,
+    minute: WindowCounters,
+    day: WindowCounters,
+    monthUsed: number,
+    secondsToMonthEnd: number,
+    exceeded?: RateLimitWindow,
+  ): RateLimitState {
+    const used = (window: WindowCounters) =>
+      Math.floor(window.previous * (1 - window.elapsed) + window.current);
+    const remaining = (limit: number | null, usage: number) =>
+      limit === null ? null : Math.max(0, limit - usage);
+
+    const state: RateLimitState = {
+      limit: record.rateLimitPerMinute,
+      remaining: remaining(record.rateLimitPerMinute, used(minute)),
+      resetSeconds: Math.ceil((1 - minute.elapsed) * (this.MINUTE_MS / 1000)),
+      dailyLimit: record.rateLimitPerDay,
+      dailyRemaining: remaining(record.rateLimitPerDay, used(day)),
+      monthlyQuota: record.monthlyQuota,
+      monthlyRemaining: remaining(record.monthlyQuota, monthUsed),
+    };
+
+    if (exceeded) {
+      state.exceeded = exceeded;
+      state.retryAfterSeconds =
+        exceeded === 'month'
+          ? secondsToMonthEnd
+          : exceeded === 'day'
+            ? this.secondsUntilAllowed(record.rateLimitPerDay!, day, this.DAY_MS, cost)
+            : this.secondsUntilAllowed(record.rateLimitPerMinute!, minute, this.MINUTE_MS, cost);
+    }
+
+    return state;
+  }
+
+  /**
+   * Solves the sliding-window estimate for the moment `cost` more units fit: first within the
+   * current bucket as the previous one decays, otherwise in the next bucket.
+   */
+  private secondsUntilAllowed(
+    limit: number,
+    window: WindowCounters,
+    windowMs: number,
+    cost: number,
+  ): number {
+    const headroom = limit - window.current - cost;
+    let waitFraction: number;
+
+    if (headroom >= 0 && window.previous > 0) {
+      waitFraction = Math.max(1 - headroom / window.previous - window.elapsed, 0);
+    } else {
+      const nextHeadroom = limit - cost;
+      const nextFraction =
+        window.current > 0 ? Math.min(Math.max(1 - nextHeadroom / window.current, 0), 1) : 0;
+      waitFraction = 1 - window.elapsed + nextFraction;
+    }
+
+    return Math.max(1, Math.ceil((waitFraction * windowMs) / 1000));
+  }
+
+  private evaluateInMemory(record: ApiKeyLimits, cost: number): RateLimitState {
+    const now = Date.now();
+    const windowStart = now - this.MINUTE_MS;
+    const recent = (this.fallbackWindows.get(record.id) ?? []).filter(
+      timestamp => timestamp >= windowStart,
+    );
+    const limit = record.rateLimitPerMinute;
+    const exceeded = limit !== null && recent.length + cost > limit;
+
+    // Heavier request classes record one entry per unit of cost
+    if (!exceeded) {
+      for (let unit = 0; unit < cost; unit++) {
+        recent.push(now);
+      }
+    }
+    this.fallbackWindows.set(record.id, recent);
+
+    const state: RateLimitState = {
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - recent.length),
+      resetSeconds: recent.length > 0 ? Math.ceil((recent[0] + this.MINUTE_MS - now) / 1000) : 0,
+      dailyLimit: null,
+      dailyRemaining: null,
+      monthlyQuota: null,
+      monthlyRemaining: null,
+    };
+
+    if (exceeded) {
+      state.exceeded = 'minute';
+      state.retryAfterSeconds = Math.max(1, state.resetSeconds);
+    }
+
+    return state;
+  }
+
+  private nextMonthStart(now: number): number {
+    const date = new Date(now);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+}
@@ -11,6 +11,8 @@ import {
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiParam, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { BlockMintingSnapshot, BlockStats, BlockTransaction } from '../dto/schema.dto';
 import { BlocksService } from './blocks.service';
 import { BlocksQueryDto } from './dto/blocks-query.dto';
@@ -21,6 +23,7 @@ import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
 export class BlocksController {
   constructor(private readonly blocksService: BlocksService) {}
 
@@ -28,10 +31,16 @@ export class BlocksController {
   @UseGuards(ApiKeyGuard)
   @ApiQuery({ name: 'offset', required: false, type: Number, example: 0 })
   @ApiQuery({ name: 'limit', required: false, type: Number, example: 10 })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Opaque cursor returned as `next_cursor` by the previous page',
+  })
   @CacheTTL(60)
   async getBlocks(
     @Query() query: BlocksQueryDto,
-  ): Promise<{ data: BlockMintingSnapshot[]; total_count: number }> {
+  ): Promise<{ data: BlockMintingSnapshot[]; total_count: number; next_cursor: string | null }> {
     return this.blocksService.getBlocks(query);
   }
 
@@ -1,10 +1,11 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ClickhouseService } from '../clickhouse/clickhouse.service';
 import { BlockchainService } from '../blockchain/blockchain.service';
 import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
 import { BlockMintingSnapshot, BlockStats, BlockTransaction } from '../dto/schema.dto';
 import { BlocksQueryDto } from './dto/blocks-query.dto';
 import { BlocksStatsQueryDto } from './dto/blocks-stats-query.dto';
+import { buildNextCursor, decodeCursor } from '../common/utils/cursor.utils';
 
 @Injectable()
 export class BlocksService {
@@ -18,9 +19,14 @@ export class BlocksService {
 
   async getBlocks(
     query: BlocksQueryDto,
-  ): Promise<{ data: BlockMintingSnapshot[]; total_count: number }> {
+  ): Promise<{ data: BlockMintingSnapshot[]; total_count: number; next_cursor: string | null }> {
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.cursor && !cursor) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
     const limit = Math.min(Math.max(query.limit ?? 10, 1), 100);
-    const offset = Math.max(query.offset ?? 0, 0);
+    const offset = cursor ? 0 : Math.max(query.offset ?? 0, 0);
 
     const sql = `
       SELECT
@@ -35,6 +41,7 @@ export class BlocksService {
       FROM blocks b
       LEFT JOIN validators v
         ON b.proposer_address = tendermint_address_from_pubkey(v.consensus_pub_key)
+      WHERE $3::bigint IS NULL OR b.height < $3::bigint
       ORDER BY b.height DESC
       LIMIT $1
       OFFSET $2
@@ -53,7 +60,11 @@ export class BlocksService {
       identity: string | null;
     };
 
-    const result = await this.zigscanPostgresService.query<LatestBlockRow>(sql, [limit, offset]);
+    const result = await this.zigscanPostgresService.query<LatestBlockRow>(sql, [
+      limit,
+      offset,
+      cursor?.height ?? null,
+    ]);
 
     const data = result.rows.map(row => ({
       height: Number(row.height ?? 0),
@@ -69,6 +80,7 @@ export class BlocksService {
     return {
       data,
       total_count: result.rowCount,
+      next_cursor: buildNextCursor(result.rows, limit),
     };
   }
 
@@ -1,5 +1,5 @@
 import { Type } from 'class-transformer';
-import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
 
 export class BlocksQueryDto {
   @Type(() => Number)
@@ -14,4 +14,9 @@ export class BlocksQueryDto {
   @Min(1)
   @Max(1000)
   limit?: number = 10;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  cursor?: string;
 }
@@ -20,6 +20,17 @@ interface ClickHouseConnection {
   isPrimary: boolean;
 }
 
+/**
+ * Body of a ClickHouse `FORMAT JSON` response
+ */
+export interface ClickHouseJsonResult<T> {
+  meta?: { name: string; type: string }[];
+  data?: T[];
+  rows?: number;
+  rows_before_limit_at_least?: number;
+  statistics?: { elapsed: number; rows_read: number; bytes_read: number };
+}
+
 @Injectable()
 export class ClickhouseService implements OnModuleInit {
   private readonly logger = new Logger(ClickhouseService.name);
@@ -78,18 +89,40 @@ export class ClickhouseService implements OnModuleInit {
   private async executeQueryWithConnection<T>(
     connection: ClickHouseConnection,
     sql: string,
-  ): Promise<T[]> {
-    const response: AxiosResponse<{ data?: T[] }> = await connection.client.post('', sql, {
+    settings: Record<string, string | number> = {},
+  ): Promise<ClickHouseJsonResult<T>> {
+    const response: AxiosResponse<ClickHouseJsonResult<T>> = await connection.client.post('', sql, {
+      // Caller settings go after the defaults so their order (e.g. `readonly` last) is preserved
       params: {
         database: connection.database,
         default_format: 'JSON',
+        ...settings,
       },
     });
 
-    return response.data?.data ?? [];
+    return response.data ?? {};
   }
 
   async executeQuery<T = Record<string, unknown>>(sql: string): Promise<T[]> {
+    const result = await this.executeWithFallback<T>(sql);
+    return result.data ?? [];
+  }
+
+  /**
+   * Runs a query with per-query server settings (e.g. `readonly`, `max_execution_time`) and
+   * returns the full JSON body, including column metadata and statistics.
+   */
+  async executeQueryWithSettings<T = Record<string, unknown>>(
+    sql: string,
+    settings: Record<string, string | number>,
+  ): Promise<ClickHouseJsonResult<T>> {
+    return this.executeWithFallback<T>(sql, settings);
+  }
+
+  private async executeWithFallback<T>(
+    sql: string,
+    settings?: Record<string, string | number>,
+  ): Promise<ClickHouseJsonResult<T>> {
     let lastError: Error | null = null;
 
     // Try each connection in order
@@ -98,7 +131,7 @@ export class ClickhouseService implements OnModuleInit {
       const connection = this.connections[connectionIndex];
 
       try {
-        const result = await this.executeQueryWithConnection<T>(connection, sql);
+        const result = await this.executeQueryWithConnection<T>(connection, sql, settings);
 
         // Log if we switched to a fallback connection
         if (!connection.isPrimary && i === 0) {
@@ -152,6 +185,7 @@ export class ClickhouseService implements OnModuleInit {
       throw new HttpException(
         `All ClickHouse connections failed. Last error: ${lastError.message}`,
         statusCode,
+        { cause: lastError },
       );
     }
 
@@ -9,6 +9,8 @@ import {
   UseInterceptors,
 } from '@nestjs/common';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { CodeDetails, CodesResponse } from '../dto/schema.dto';
 import { CodesService } from './codes.service';
 import { CodesQueryDto } from './dto/codes-query.dto';
@@ -19,6 +21,7 @@ import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.CONTRACTS_READ)
 export class CodesController {
   constructor(private readonly codesService: CodesService) {}
 
@@ -10,5 +10,6 @@ import { CodesService } from './codes.service';
   imports: [AuthModule, DatabaseModule, BlockchainModule, ZigscanPostgresModule],
   controllers: [CodesController],
   providers: [CodesService],
+  exports: [CodesService],
 })
 export class CodesModule {}
@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export class CursorPaginationQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Opaque cursor returned as `next_cursor` by the previous page. When set, `offset` is ignored.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  cursor?: string;
+}
@@ -0,0 +1,119 @@
+import * as crypto from 'crypto';
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+const polymod = (values: number[]): number => {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let bit = 0; bit < 5; bit += 1) {
+      if ((top >> bit) & 1) {
+        checksum ^= BECH32_GENERATOR[bit];
+      }
+    }
+  }
+  return checksum;
+};
+
+const expandPrefix = (prefix: string): number[] => [
+  ...[...prefix].map(char => char.charCodeAt(0) >> 5),
+  0,
+  ...[...prefix].map(char => char.charCodeAt(0) & 31),
+];
+
+const convertBits = (data: number[], from: number, to: number, pad: boolean): number[] | null => {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << to) - 1;
+
+  for (const value of data) {
+    accumulator = (accumulator << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((accumulator << (to - bits)) & maxValue);
+    }
+  } else if (bits >= from || ((accumulator << (to - bits)) & maxValue) !== 0) {
+    return null;
+  }
+  return result;
+};
+
+/**
+ * Encodes raw address bytes as a bech32 string with the given human-readable prefix.
+ */
+export const toBech32 = (prefix: string, bytes: Buffer): string => {
+  const words = convertBits([...bytes], 8, 5, true);
+  const checksum = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksumWords = [0, 1, 2, 3, 4, 5].map(index => (checksum >> (5 * (5 - index))) & 31);
+  return `${prefix}1${[...words, ...checksumWords].map(word => BECH32_CHARSET[word]).join('')}`;
+};
+
+/**
+ * Decodes a bech32 address into its prefix and raw bytes; returns null when the string is not
+ * valid bech32.
+ */
+export const fromBech32 = (address: string): { prefix: string; bytes: Buffer } | null => {
+  const normalized = address.toLowerCase();
+  const separator = normalized.lastIndexOf('1');
+  if (separator < 1 || normalized.length - separator < 7) {
+    return null;
+  }
+
+  const prefix = normalized.slice(0, separator);
+  const words = [...normalized.slice(separator + 1)].map(char => BECH32_CHARSET.indexOf(char));
+  if (words.includes(-1) || polymod([...expandPrefix(prefix), ...words]) !== 1) {
+    return null;
+  }
+
+  const bytes = convertBits(words.slice(0, -6), 5, 8, false);
+  return bytes ? { prefix, bytes: Buffer.from(bytes) } : null;
+};
+
+/**
+ * Hex consensus address (as used in block commits) of an ed25519 consensus public key, which is
+ * the first 20 bytes of its SHA-256 hash. Returns null for other key types.
+ */
+export const consensusAddressFromPubkey = (
+  pubkey: { '@type'?: string; key?: string } | null | undefined,
+): string | null => {
+  if (!pubkey?.key || !pubkey['@type']?.endsWith('ed25519.PubKey')) {
+    return null;
+  }
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.from(pubkey.key, 'base64'))
+    .digest()
+    .subarray(0, 20)
+    .toString('hex')
+    .toUpperCase();
+};
+
+/**
+ * Bech32 consensus address (`<prefix>valcons1...`) matching a validator operator address.
+ */
+export const toConsensusBech32 = (operatorAddress: string, consensusHex: string): string => {
+  const prefix = operatorAddress.slice(0, operatorAddress.lastIndexOf('1'));
+  return toBech32(prefix.replace('valoper', 'valcons'), Buffer.from(consensusHex, 'hex'));
+};
+
+/**
+ * Account address controlled by a validator operator (`<prefix>valoper1...` to `<prefix>1...`).
+ * Returns null when the operator address is not valid bech32.
+ */
+export const toAccountAddress = (operatorAddress: string): string | null => {
+  const decoded = fromBech32(operatorAddress);
+  if (!decoded || !decoded.prefix.endsWith('valoper')) {
+    return null;
+  }
+  return toBech32(decoded.prefix.slice(0, -'valoper'.length), decoded.bytes);
+};
@@ -0,0 +1,39 @@
+export interface Coin {
+  amount: string;
+  denom: string;
+}
+
+const COIN_PATTERN = /^(\d+)(.+)$/;
+
+/**
+ * Parses a Cosmos coin list such as `1000uzig,5ibc/ABC` into its coins; malformed entries are
+ * skipped.
+ */
+export const parseCoins = (raw: string | null | undefined): Coin[] => {
+  if (!raw) {
+    return [];
+  }
+
+  return raw
+    .split(',')
+    .map(entry => entry.trim().match(COIN_PATTERN))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, amount, denom]) => ({ amount, denom }));
+};
+
+/**
+ * Shifts a base-unit integer amount by `decimals` without going through floating point.
+ */
+export const toDisplayAmount = (amount: string, decimals: number): string => {
+  const negative = amount.startsWith('-');
+  const digits = negative ? amount.slice(1) : amount;
+  if (decimals <= 0) {
+    return amount;
+  }
+
+  const padded = digits.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  const value = fraction ? `${whole}.${fraction}` : whole;
+  return negative ? `-${value}` : value;
+};
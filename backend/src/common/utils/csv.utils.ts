@@ -0,0 +1,19 @@
+/**
+ * Formats one CSV cell, quoting it only when it contains a delimiter, quote or line break.
+ * Objects (e.g. JSON columns) are serialised as JSON.
+ */
+export const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders rows as a CSV document with a header line, in the given column order.
+ */
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]): string =>
+  [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(cells => `${cells.map(toCsvCell).join(',')}\n`)
+    .join('');
@@ -0,0 +1,48 @@
+export interface KeysetCursor {
+  height: number;
+  txIndex: number;
+}
+
+const CURSOR_PATTERN = /^(\d+)\.(\d+)$/;
+
+/**
+ * Encodes a `(height, tx_index)` keyset position as an opaque, URL-safe cursor.
+ */
+export const encodeCursor = (cursor: KeysetCursor): string =>
+  Buffer.from(`${cursor.height}.${cursor.txIndex}`, 'utf8').toString('base64url');
+
+/**
+ * Decodes a cursor produced by `encodeCursor`; returns null when the value is malformed.
+ */
+export const decodeCursor = (value: string): KeysetCursor | null => {
+  const match = Buffer.from(value.trim(), 'base64url').toString('utf8').match(CURSOR_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const height = Number(match[1]);
+  const txIndex = Number(match[2]);
+  if (!Number.isSafeInteger(height) || !Number.isSafeInteger(txIndex)) {
+    return null;
+  }
+
+  return { height, txIndex };
+};
+
+/**
+ * Builds the cursor for the page after `rows`, or null when the page was not full.
+ */
+export const buildNextCursor = (
+  rows: Array<{ height?: number | string | null; tx_index?: number | string | null }>,
+  limit: number,
+): string | null => {
+  if (rows.length < limit || rows.length === 0) {
+    return null;
+  }
+
+  const last = rows[rows.length - 1];
+  return encodeCursor({
+    height: Number(last.height ?? 0),
+    txIndex: Number(last.tx_index ?? 0),
+  });
+};
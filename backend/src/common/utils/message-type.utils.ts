@@ -0,0 +1,24 @@
+/**
+ * Builds a predicate for the `action=` syntax used across the transaction endpoints: an exact
+ * message type, or a pattern where `%` is a wildcard. An empty pattern matches everything.
+ */
+export const buildMessageTypeMatcher = (
+  messageType?: string | null,
+): ((value: string | null) => boolean) => {
+  const pattern = messageType?.trim();
+  if (!pattern) {
+    return () => true;
+  }
+
+  if (!pattern.includes('%')) {
+    return value => value === pattern;
+  }
+
+  const regex = new RegExp(
+    `^${pattern
+      .split('%')
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  );
+  return value => value !== null && regex.test(value);
+};
@@ -0,0 +1,180 @@
+export type SqlDialect = 'clickhouse' | 'postgres';
+
+export type ReadOnlySqlCheck =
+  | { statement: string; keyword: 'SELECT' | 'WITH' | 'EXPLAIN' }
+  | { error: string };
+
+const ALLOWED_KEYWORDS = ['SELECT', 'WITH', 'EXPLAIN'] as const;
+
+// Table functions that read from or write to places other than the database itself
+const CLICKHOUSE_BLOCKED_FUNCTIONS = [
+  'url',
+  'urlcluster',
+  'file',
+  'filecluster',
+  's3',
+  's3cluster',
+  'gcs',
+  'azureblobstorage',
+  'hdfs',
+  'remote',
+  'remotesecure',
+  'cluster',
+  'clusterallreplicas',
+  'mysql',
+  'postgresql',
+  'mongodb',
+  'redis',
+  'sqlite',
+  'jdbc',
+  'odbc',
+  'executable',
+  'input',
+];
+
+// Functions with side effects, filesystem access, or that could lift the statement timeout
+const POSTGRES_BLOCKED_FUNCTIONS = [
+  'set_config',
+  'pg_read_file',
+  'pg_read_binary_file',
+  'pg_ls_dir',
+  'pg_stat_file',
+  'lo_import',
+  'lo_export',
+  'dblink',
+  'dblink_exec',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_advisory_lock',
+  'pg_advisory_xact_lock',
+  'nextval',
+  'setval',
+];
+
+/**
+ * Splits `sql` into the statement without comments and a copy where string literals and quoted
+ * identifiers are blanked out, so keyword checks cannot be fooled by quoting. Returns null when
+ * a literal or comment is left unterminated.
+ */
+const scan = (sql: string, dialect: SqlDialect): { statement: string; code: string } | null => {
+  let statement = '';
+  let code = '';
+  let index = 0;
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const next = sql[index + 1];
+
+    if ((char === '-' && next === '-') || (dialect === 'clickhouse' && char === '#')) {
+      const end = sql.indexOf('\n', index);
+      index = end === -1 ? sql.length : end;
+      statement += ' ';
+      code += ' ';
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', index + 2);
+      if (end === -1) {
+        return null;
+      }
+      index = end + 2;
+      statement += ' ';
+      code += ' ';
+      continue;
+    }
+
+    if (char === "'" || char === '"' || (dialect === 'clickhouse' && char === '`')) {
+      // ClickHouse always honours backslash escapes; Postgres only inside E'...' literals
+      const backslashEscapes =
+        dialect === 'clickhouse' ||
+        (char === "'" && /[eE]/.test(sql[index - 1] ?? '') && !/\w/.test(sql[index - 2] ?? ''));
+      let end = index + 1;
+      while (end < sql.length) {
+        if (sql[end] === '\\' && backslashEscapes) {
+          end += 2;
+          continue;
+        }
+        if (sql[end] === char) {
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      if (end >= sql.length) {
+        return null;
+      }
+      statement += sql.slice(index, end + 1);
+      code += ' ';
+      index = end + 1;
+      continue;
+    }
+
+    if (dialect === 'postgres' && char === '$') {
+      const tag = sql.slice(index).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], index + tag[0].length);
+        if (end === -1) {
+          return null;
+        }
+        statement += sql.slice(index, end + tag[0].length);
+        code += ' ';
+        index = end + tag[0].length;
+        continue;
+      }
+    }
+
+    statement += char;
+    code += char;
+    index++;
+  }
+
+  return { statement, code };
+};
+
+/**
+ * Accepts a single SELECT, WITH or EXPLAIN statement and rejects everything else, including
+ * stacked statements and calls to functions that escape the sandbox. This is a first line of
+ * defence; the caller must still run the statement with the backend's own read-only mode.
+ */
+export const inspectReadOnlySql = (sql: string, dialect: SqlDialect): ReadOnlySqlCheck => {
+  const scanned = scan(sql, dialect);
+  if (!scanned) {
+    return { error: 'Unterminated string literal or comment' };
+  }
+
+  // A single trailing semicolon is tolerated; any other one separates statements
+  const code = scanned.code.trim().replace(/;\s*$/, '');
+  const statement = scanned.statement.trim().replace(/;\s*$/, '').trim();
+
+  if (!code) {
+    return { error: 'Query is empty' };
+  }
+  if (code.includes(';')) {
+    return { error: 'Only a single statement may be executed' };
+  }
+
+  const keyword = code.match(/^[A-Za-z]+/)?.[0]?.toUpperCase();
+  const allowed = ALLOWED_KEYWORDS.find(candidate => candidate === keyword);
+  if (!allowed) {
+    return {
+      error: `Only ${ALLOWED_KEYWORDS.join(', ')} statements are allowed (got ${keyword ?? 'none'})`,
+    };
+  }
+
+  const blocked =
+    dialect === 'clickhouse' ? CLICKHOUSE_BLOCKED_FUNCTIONS : POSTGRES_BLOCKED_FUNCTIONS;
+  const calls = code.matchAll(/([A-Za-z_][A-Za-z0-9_]*)\s*\(/g);
+  for (const [, name] of calls) {
+    if (blocked.includes(name.toLowerCase())) {
+      return { error: `Function ${name}() is not allowed in the admin console` };
+    }
+  }
+
+  return { statement, keyword: allowed };
+};
@@ -0,0 +1,88 @@
+export interface StorageKeySegment {
+  hex: string;
+  utf8: string | null;
+  // Big-endian unsigned integer, for non-printable 1, 2, 4 or 8 byte segments
+  uint: string | null;
+}
+
+export interface DecodedStorageKey {
+  hex: string;
+  utf8: string | null;
+  namespace: string | null;
+  segments: StorageKeySegment[];
+}
+
+const isPrintable = (bytes: Buffer): boolean =>
+  bytes.length > 0 && bytes.every(byte => byte >= 0x20 && byte <= 0x7e);
+
+const toSegment = (bytes: Buffer): StorageKeySegment => {
+  const printable = isPrintable(bytes);
+  return {
+    hex: bytes.toString('hex'),
+    utf8: printable ? bytes.toString('utf8') : null,
+    uint:
+      !printable && [1, 2, 4, 8].includes(bytes.length)
+        ? BigInt(`0x${bytes.toString('hex')}`).toString()
+        : null,
+  };
+};
+
+// Reads one 2-byte length-prefixed chunk, only if more key bytes follow it
+const readPrefixed = (bytes: Buffer, offset: number): { value: Buffer; end: number } | null => {
+  if (offset + 2 > bytes.length) {
+    return null;
+  }
+  const length = bytes.readUInt16BE(offset);
+  const end = offset + 2 + length;
+  if (length === 0 || end >= bytes.length) {
+    return null;
+  }
+  return { value: bytes.subarray(offset + 2, end), end };
+};
+
+/**
+ * Splits a raw contract storage key following the cw-storage-plus layout: `Item` keys are the
+ * bare namespace, `Map` keys are a length-prefixed namespace followed by length-prefixed
+ * composite key parts and a raw last part. Keys that do not fit the layout are returned as a
+ * single namespace (when printable) without segments.
+ */
+export const decodeStorageKey = (hexKey: string): DecodedStorageKey => {
+  const bytes = Buffer.from(hexKey, 'hex');
+  const utf8 = isPrintable(bytes) ? bytes.toString('utf8') : null;
+
+  const namespace = readPrefixed(bytes, 0);
+  if (!namespace || !isPrintable(namespace.value)) {
+    return { hex: bytes.toString('hex'), utf8, namespace: utf8, segments: [] };
+  }
+
+  const segments: StorageKeySegment[] = [];
+  let offset = namespace.end;
+  for (let part = readPrefixed(bytes, offset); part; part = readPrefixed(bytes, offset)) {
+    segments.push(toSegment(part.value));
+    offset = part.end;
+  }
+  segments.push(toSegment(bytes.subarray(offset)));
+
+  return {
+    hex: bytes.toString('hex'),
+    utf8,
+    namespace: namespace.value.toString('utf8'),
+    segments,
+  };
+};
+
+/**
+ * Decodes a base64 storage value, parsing it as JSON when possible (cw-storage-plus stores
+ * values as JSON)
+ */
+export const decodeStorageValue = (base64Value: string | null | undefined): unknown => {
+  if (!base64Value) {
+    return null;
+  }
+  const text = Buffer.from(base64Value, 'base64').toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
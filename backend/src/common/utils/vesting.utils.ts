@@ -0,0 +1,154 @@
+import { VestingAccountType, VestingInfo, VestingScheduleEntry } from '../../dto/schema.dto';
+import { Coin } from './coin.utils';
+
+const VESTING_ACCOUNT_TYPES: Record<string, VestingAccountType> = {
+  '/cosmos.vesting.v1beta1.ContinuousVestingAccount': 'continuous',
+  '/cosmos.vesting.v1beta1.DelayedVestingAccount': 'delayed',
+  '/cosmos.vesting.v1beta1.PeriodicVestingAccount': 'periodic',
+  '/cosmos.vesting.v1beta1.PermanentLockedAccount': 'permanent_locked',
+};
+
+type CoinMap = Map<string, bigint>;
+
+const toCoinMap = (coins: Coin[] | null | undefined): CoinMap => {
+  const map: CoinMap = new Map();
+  for (const coin of coins ?? []) {
+    map.set(coin.denom, (map.get(coin.denom) ?? 0n) + BigInt(coin.amount || '0'));
+  }
+  return map;
+};
+
+const fromCoinMap = (map: CoinMap): Coin[] =>
+  [...map.entries()]
+    .filter(([, amount]) => amount > 0n)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([denom, amount]) => ({ denom, amount: amount.toString() }));
+
+// Per-denom a - b, floored at zero like the SDK's saturating coin subtraction
+const subtractCoins = (a: CoinMap, b: CoinMap): CoinMap =>
+  new Map(
+    [...a.entries()].map(([denom, amount]) => {
+      const difference = amount - (b.get(denom) ?? 0n);
+      return [denom, difference > 0n ? difference : 0n];
+    }),
+  );
+
+const toIsoTime = (unixSeconds: number): string => new Date(unixSeconds * 1000).toISOString();
+
+/**
+ * Returns the base account fields of any account type, so vesting and module accounts expose
+ * `address`, `account_number` and `sequence` at the same place as plain accounts.
+ */
+export const getBaseAccount = (account: Record<string, any>): Record<string, any> =>
+  account.base_vesting_account?.base_account ?? account.base_account ?? account;
+
+/**
+ * Decodes a vesting account into its unlock schedule and the vested / locked / spendable split
+ * at `now`, following the Cosmos SDK x/auth/vesting rules. `next_unlock` only covers discrete
+ * unlocks; continuous accounts release linearly until `fully_vested_at`. Returns null for other
+ * account types.
+ */
+export const decodeVestingAccount = (
+  account: Record<string, any>,
+  balances: Coin[],
+  now = new Date(),
+): VestingInfo | null => {
+  const type = VESTING_ACCOUNT_TYPES[account['@type']];
+  const base = account.base_vesting_account;
+  if (!type || !base) {
+    return null;
+  }
+
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const original = toCoinMap(base.original_vesting);
+  const startTime = account.start_time !== undefined ? Number(account.start_time) : null;
+  const endTime = type === 'permanent_locked' ? null : Number(base.end_time);
+
+  const schedule: VestingScheduleEntry[] = [];
+  let vested: CoinMap = new Map();
+
+  if (type === 'continuous') {
+    const duration = BigInt(Math.max(endTime - startTime, 0));
+    if (nowSeconds >= endTime) {
+      vested = original;
+    } else if (nowSeconds > startTime && duration > 0n) {
+      const elapsed = BigInt(nowSeconds - startTime);
+      vested = new Map(
+        [...original.entries()].map(([denom, amount]) => [denom, (amount * elapsed) / duration]),
+      );
+    }
+    schedule.push({
+      start_time: toIsoTime(startTime),
+      unlock_time: toIsoTime(endTime),
+      amount: fromCoinMap(original),
+      linear: true,
+      unlocked: nowSeconds >= endTime,
+    });
+  } else if (type === 'delayed') {
+    if (nowSeconds >= endTime) {
+      vested = original;
+    }
+    schedule.push({
+      start_time: null,
+      unlock_time: toIsoTime(endTime),
+      amount: fromCoinMap(original),
+      linear: false,
+      unlocked: nowSeconds >= endTime,
+    });
+  } else if (type === 'periodic') {
+    let periodStart = startTime;
+    for (const period of (account.vesting_periods ?? []) as Array<{
+      length: string;
+      amount: Coin[];
+    }>) {
+      const periodEnd = periodStart + Number(period.length);
+      const unlocked = nowSeconds >= periodEnd;
+      if (unlocked) {
+        for (const [denom, amount] of toCoinMap(period.amount)) {
+          vested.set(denom, (vested.get(denom) ?? 0n) + amount);
+        }
+      }
+      schedule.push({
+        start_time: toIsoTime(periodStart),
+        unlock_time: toIsoTime(periodEnd),
+        amount: fromCoinMap(toCoinMap(period.amount)),
+        linear: false,
+        unlocked,
+      });
+      periodStart = periodEnd;
+    }
+  } else {
+    // Permanently locked coins never vest, but can still be delegated
+    schedule.push({
+      start_time: null,
+      unlock_time: null,
+      amount: fromCoinMap(original),
+      linear: false,
+      unlocked: false,
+    });
+  }
+
+  const delegatedVesting = toCoinMap(base.delegated_vesting);
+  const stillVesting = subtractCoins(original, vested);
+  const locked = subtractCoins(stillVesting, delegatedVesting);
+  const spendable = subtractCoins(toCoinMap(balances), locked);
+
+  const nextUnlock = schedule.find(
+    entry => !entry.unlocked && !entry.linear && entry.unlock_time !== null,
+  );
+
+  return {
+    type,
+    start_time: startTime !== null ? toIsoTime(startTime) : null,
+    end_time: endTime !== null ? toIsoTime(endTime) : null,
+    original_vesting: fromCoinMap(original),
+    vested: fromCoinMap(vested),
+    locked: fromCoinMap(locked),
+    spendable: fromCoinMap(spendable),
+    delegated_free: fromCoinMap(toCoinMap(base.delegated_free)),
+    delegated_vesting: fromCoinMap(delegatedVesting),
+    next_unlock: nextUnlock ? { time: nextUnlock.unlock_time, amount: nextUnlock.amount } : null,
+    fully_vested_at: endTime !== null ? toIsoTime(endTime) : null,
+    schedule,
+  };
+};
@@ -0,0 +1,77 @@
+import { BadRequestException } from '@nestjs/common';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+const PUBLIC_HOST_REQUIRED = 'Webhook URL must point to a public host';
+
+// Loopback, private, CGNAT, link-local and unspecified ranges, including IPv4-mapped IPv6 forms
+const PRIVATE_ADDRESS_PATTERN =
+  /^(::ffff:)?(0\.|10\.|100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.|127\.|169\.254\.|172\.(1[6-9]|2\d|3[01])\.|192\.168\.)|^(::1?$|f[cd]|fe80:)/;
+
+// WHATWG URL parsing rewrites `::ffff:127.0.0.1` as `::ffff:7f00:1`; turn it back into dotted form
+const toDottedMapped = (address: string): string => {
+  const match = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+  if (!match) {
+    return address;
+  }
+  const [high, low] = [parseInt(match[1], 16), parseInt(match[2], 16)];
+  return `::ffff:${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+};
+
+const isPrivateAddress = (address: string): boolean =>
+  PRIVATE_ADDRESS_PATTERN.test(toDottedMapped(address.toLowerCase()));
+
+/**
+ * Returns why a user-supplied webhook URL must not be called, or null when it may be. Outside
+ * development (ZIGSCAN_WEBHOOK_ALLOW_INSECURE_URLS) targets must be public HTTPS hosts, so the
+ * API cannot be pointed at internal services. Host names are resolved as well; run the check
+ * again right before each delivery, since DNS can change after the URL was accepted.
+ */
+export const findWebhookUrlProblem = async (
+  rawUrl: string,
+  allowInsecure: boolean,
+): Promise<string | null> => {
+  if (allowInsecure) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return PUBLIC_HOST_REQUIRED;
+  }
+  if (isIP(hostname) !== 0) {
+    return isPrivateAddress(hostname) ? PUBLIC_HOST_REQUIRED : null;
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.some(entry => isPrivateAddress(entry.address)) ? PUBLIC_HOST_REQUIRED : null;
+  } catch {
+    // Same message as a private host, so lookups cannot be used to map internal DNS names
+    return PUBLIC_HOST_REQUIRED;
+  }
+};
+
+/**
+ * Request-time variant of `findWebhookUrlProblem`: rejects the URL with a 400
+ */
+export const ensureDeliverableUrl = async (
+  rawUrl: string,
+  allowInsecure: boolean,
+): Promise<void> => {
+  const problem = await findWebhookUrlProblem(rawUrl, allowInsecure);
+  if (problem) {
+    throw new BadRequestException(problem);
+  }
+};
@@ -60,6 +60,20 @@ export interface AppConfiguration {
     apiBaseUrl: string;
     apiKey: string;
   };
+  stream: {
+    pollIntervalMs: number;
+    heartbeatSeconds: number;
+  };
+  webhooks: {
+    maxAttempts: number;
+    retryBaseSeconds: number;
+    timeoutMs: number;
+    allowInsecureUrls: boolean;
+  };
+  adminQuery: {
+    maxExecutionSeconds: number;
+    maxResultRows: number;
+  };
 }
 
 export default (): AppConfiguration => ({
@@ -105,4 +119,19 @@ export default (): AppConfiguration => ({
     apiBaseUrl: process.env.MEMES_FUN_API_BASE_URL ?? 'https://memes.fun/api/partner/v1/zigscan',
     apiKey: process.env.MEMES_FUN_API_KEY ?? '',
   },
+  stream: {
+    pollIntervalMs: parseNumber(process.env.ZIGSCAN_STREAM_POLL_INTERVAL_MS, 2000),
+    heartbeatSeconds: parseNumber(process.env.ZIGSCAN_STREAM_HEARTBEAT_SECONDS, 25),
+  },
+  webhooks: {
+    maxAttempts: parseNumber(process.env.ZIGSCAN_WEBHOOK_MAX_ATTEMPTS, 8),
+    retryBaseSeconds: parseNumber(process.env.ZIGSCAN_WEBHOOK_RETRY_BASE_SECONDS, 30),
+    timeoutMs: parseNumber(process.env.ZIGSCAN_WEBHOOK_TIMEOUT_MS, 10000),
+    // Allows plain http:// and localhost targets, e.g. a local stub receiver during development
+    allowInsecureUrls: parseBoolean(process.env.ZIGSCAN_WEBHOOK_ALLOW_INSECURE_URLS, false),
+  },
+  adminQuery: {
+    maxExecutionSeconds: parseNumber(process.env.ZIGSCAN_ADMIN_QUERY_MAX_EXECUTION_SECONDS, 30),
+    maxResultRows: parseNumber(process.env.ZIGSCAN_ADMIN_QUERY_MAX_RESULT_ROWS, 10000),
+  },
 });
@@ -1,29 +1,41 @@
 import {
+  Body,
   Controller,
   Get,
+  HttpCode,
   HttpException,
   HttpStatus,
   Param,
+  Post,
   Query,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { ReadOnlyRoute } from '../auth/decorators/read-only-route.decorator';
 import {
   ContractsResponse,
   ContractDetails,
   ContractTransactionsResponse,
+  ContractQueryResponse,
+  ContractStateResponse,
+  ContractRawStateResponse,
 } from '../dto/schema.dto';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 import { ContractsService } from './contracts.service';
 import { ContractsQueryDto } from './dto/contracts-query.dto';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { ContractTransactionsQueryDto } from './dto/contract-transactions-query.dto';
+import { ContractFunctionQueryDto } from './dto/contract-function-query.dto';
+import { ContractRawStateQueryDto, ContractStateQueryDto } from './dto/contract-state-query.dto';
 
 @ApiTags('Contracts')
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.CONTRACTS_READ)
 export class ContractsController {
   constructor(private readonly contractsService: ContractsService) {}
 
@@ -75,4 +87,86 @@ export class ContractsController {
 
     return this.contractsService.getContractTransactions(normalizedAddress, pagination);
   }
+
+  @Post('contract/:contractAddress/query')
+  @UseGuards(ApiKeyGuard)
+  @ReadOnlyRoute()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run a smart query against a contract',
+    description:
+      'Forwards the JSON query to the contract. Rejected queries return 400 with the ' +
+      "contract's error message and, where available, the query names it accepts. " +
+      'Read-only despite being a POST: any API key with the `contracts:read` scope may call it.',
+  })
+  async queryContract(
+    @Param('contractAddress') contractAddress: string,
+    @Body() dto: ContractFunctionQueryDto,
+  ): Promise<ContractQueryResponse> {
+    const result = await this.contractsService.queryContract(contractAddress.trim(), dto.query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      if (normalized.includes('invalid')) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.BAD_REQUEST,
+            message: result.error,
+            suggestions: result.suggestions,
+            missing_field: result.missing_field,
+          },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('contract/:contractAddress/state')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({ summary: 'Page through raw contract storage with decoded keys and values' })
+  async getContractState(
+    @Param('contractAddress') contractAddress: string,
+    @Query() query: ContractStateQueryDto,
+  ): Promise<ContractStateResponse> {
+    const result = await this.contractsService.getContractState(contractAddress.trim(), query);
+
+    if ('error' in result) {
+      throw new HttpException(result.error, this.toErrorStatus(result.error));
+    }
+
+    return result;
+  }
+
+  @Get('contract/:contractAddress/state/raw')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({ summary: 'Read a single raw storage key of a contract' })
+  async getRawState(
+    @Param('contractAddress') contractAddress: string,
+    @Query() query: ContractRawStateQueryDto,
+  ): Promise<ContractRawStateResponse> {
+    const result = await this.contractsService.getRawState(contractAddress.trim(), query);
+
+    if ('error' in result) {
+      throw new HttpException(result.error, this.toErrorStatus(result.error));
+    }
+
+    return result;
+  }
+
+  private toErrorStatus(message: string): HttpStatus {
+    const normalized = message.toLowerCase();
+    return normalized.includes('invalid')
+      ? HttpStatus.BAD_REQUEST
+      : normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : HttpStatus.BAD_GATEWAY;
+  }
 }
@@ -10,5 +10,6 @@ import { ContractsService } from './contracts.service';
   imports: [AuthModule, DatabaseModule, BlockchainModule, ZigscanPostgresModule],
   controllers: [ContractsController],
   providers: [ContractsService],
+  exports: [ContractsService],
 })
 export class ContractsModule {}
@@ -1,7 +1,14 @@
-import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { HttpException, HttpStatus, Inject, Injectable, Logger } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import * as crypto from 'crypto';
 import {
   ContractDetails,
+  ContractQueryError,
+  ContractQueryResponse,
+  ContractRawStateResponse,
   ContractsResponse,
+  ContractStateResponse,
   ContractTransaction,
   ContractTransactionsResponse,
   LatestContract,
@@ -10,10 +17,19 @@ import { BlockchainService } from '../blockchain/blockchain.service';
 import { ContractsQueryDto } from './dto/contracts-query.dto';
 import { ContractTransactionsQueryDto } from './dto/contract-transactions-query.dto';
 import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { buildNextCursor, decodeCursor } from '../common/utils/cursor.utils';
+import { fromBech32 } from '../common/utils/address.utils';
+import { decodeStorageKey, decodeStorageValue } from '../common/utils/storage-key.utils';
+import {
+  ContractRawStateQueryDto,
+  ContractStateQueryDto,
+  StateKeyEncoding,
+} from './dto/contract-state-query.dto';
 
 type PostgresContractTransactionRow = {
   tx_hash: string;
   height: number | string;
+  tx_index?: number | string | null;
   block_time: Date | string | null;
   code?: number | string | null;
   event_types?: string | string[] | null;
@@ -29,10 +45,14 @@ type PostgresContractTransactionRow = {
 export class ContractsService {
   private readonly logger = new Logger(ContractsService.name);
   private readonly invalidQueryKey = '__zigscan_invalid_query__';
+  private readonly QUERY_CACHE_PREFIX = 'contract-query:';
+  private readonly QUERY_CACHE_TTL = 15; // seconds
 
   constructor(
     private readonly blockchainService: BlockchainService,
     private readonly zigscanPostgresService: ZigscanPostgresService,
+    @Inject(CACHE_MANAGER)
+    private readonly cacheManager: Cache,
   ) {}
 
   async getContractDetails(contractAddress: string): Promise<ContractDetails | { error: string }> {
@@ -55,6 +75,145 @@ export class ContractsService {
     }
   }
 
+  /**
+   * Runs a smart query against the contract. Results are cached per contract and SHA-256 of the
+   * query JSON, since POST bodies are not covered by the HTTP cache interceptor.
+   */
+  async queryContract(
+    contractAddress: string,
+    query: Record<string, unknown>,
+  ): Promise<ContractQueryResponse | ContractQueryError> {
+    if (!fromBech32(contractAddress)) {
+      return { error: 'Invalid contract address' };
+    }
+
+    const message = JSON.stringify(query);
+    const queryHash = crypto.createHash('sha256').update(message).digest('hex');
+    const cacheKey = `${this.QUERY_CACHE_PREFIX}${contractAddress}:${queryHash}`;
+
+    try {
+      const cached = await this.cacheManager.get<string>(cacheKey);
+      if (cached) {
+        return JSON.parse(cached) as ContractQueryResponse;
+      }
+
+      const encoded = encodeURIComponent(Buffer.from(message).toString('base64'));
+      const response = await this.blockchainService.getFromApi<Record<string, unknown>>(
+        `/cosmwasm/wasm/v1/contract/${contractAddress}/smart/${encoded}`,
+      );
+
+      if (this.isErrorEnvelope(response.data)) {
+        const reason = response.data.message ?? `HTTP ${response.status}`;
+        if (this.isMissingContract(reason)) {
+          return { error: `Contract ${contractAddress} not found` };
+        }
+        // Anything else the contract or wasmd rejected is a problem with the query itself
+        return {
+          error: `Invalid query: ${reason}`,
+          suggestions: this.extractQuerySuggestions(reason),
+          missing_field: this.extractMissingField(reason),
+        };
+      }
+
+      if (response.status !== 200) {
+        return { error: `Failed to query contract: HTTP ${response.status}` };
+      }
+
+      const result: ContractQueryResponse = {
+        contract_address: contractAddress,
+        query_hash: queryHash,
+        data: response.data?.data ?? null,
+      };
+      await this.cacheManager.set(cacheKey, JSON.stringify(result), this.QUERY_CACHE_TTL * 1000);
+      return result;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to query contract ${contractAddress}: ${reason}`);
+      return { error: reason };
+    }
+  }
+
+  /**
+   * One page of the contract's raw key/value store, with keys split into cw-storage-plus
+   * namespace and key parts and values parsed as JSON
+   */
+  async getContractState(
+    contractAddress: string,
+    query: ContractStateQueryDto,
+  ): Promise<ContractStateResponse | { error: string }> {
+    if (!fromBech32(contractAddress)) {
+      return { error: 'Invalid contract address' };
+    }
+
+    try {
+      const response = await this.blockchainService.getFromApi<Record<string, any>>(
+        `/cosmwasm/wasm/v1/contract/${contractAddress}/state`,
+        {
+          params: {
+            'pagination.limit': query.limit,
+            ...(query.pagination_key ? { 'pagination.key': query.pagination_key } : {}),
+          },
+        },
+      );
+
+      if (response.status !== 200 || !response.data) {
+        return { error: this.describeStateError(contractAddress, response) };
+      }
+
+      const models = (response.data.models ?? []) as Array<{ key: string; value: string }>;
+      return {
+        contract_address: contractAddress,
+        data: models.map(model => ({
+          key: decodeStorageKey(model.key),
+          value: decodeStorageValue(model.value),
+          value_base64: model.value,
+        })),
+        next_key: response.data.pagination?.next_key ?? null,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch contract state ${contractAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  async getRawState(
+    contractAddress: string,
+    query: ContractRawStateQueryDto,
+  ): Promise<ContractRawStateResponse | { error: string }> {
+    if (!fromBech32(contractAddress)) {
+      return { error: 'Invalid contract address' };
+    }
+
+    const keyBytes = this.encodeStateKey(query.key, query.encoding);
+    if (!keyBytes) {
+      return { error: `Invalid ${query.encoding} key` };
+    }
+
+    try {
+      const encoded = encodeURIComponent(keyBytes.toString('base64'));
+      const response = await this.blockchainService.getFromApi<Record<string, any>>(
+        `/cosmwasm/wasm/v1/contract/${contractAddress}/raw/${encoded}`,
+      );
+
+      if (response.status !== 200 || !response.data) {
+        return { error: this.describeStateError(contractAddress, response) };
+      }
+
+      const value = (response.data.data as string | null) || null;
+      return {
+        contract_address: contractAddress,
+        key: decodeStorageKey(keyBytes.toString('hex')),
+        value: decodeStorageValue(value),
+        value_base64: value,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch raw contract state ${contractAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
   async getContracts(query: ContractsQueryDto): Promise<ContractsResponse> {
     const limit = Math.min(Math.max(query.limit ?? 10, 1), 1000);
     const offset = Math.max(query.offset ?? 0, 0);
@@ -167,8 +326,13 @@ export class ContractsService {
     contractAddress: string,
     pagination: ContractTransactionsQueryDto,
   ): Promise<ContractTransactionsResponse> {
+    const cursor = pagination.cursor ? decodeCursor(pagination.cursor) : null;
+    if (pagination.cursor && !cursor) {
+      throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+    }
+
     const limit = Math.min(Math.max(Number(pagination.limit ?? 50), 1), 1000);
-    const offset = Math.max(Number(pagination.offset ?? 0), 0);
+    const offset = cursor ? 0 : Math.max(Number(pagination.offset ?? 0), 0);
 
     const normalizedContract = contractAddress.trim();
 
@@ -194,6 +358,7 @@ export class ContractsService {
         SELECT DISTINCT ON (t.tx_hash)
           t.tx_hash,
           t.height,
+          t.tx_index,
           t.block_time,
           t.code,
           t.gas_used,
@@ -205,11 +370,13 @@ export class ContractsService {
         FROM wasm_contract_events wce
         INNER JOIN transactions t ON wce.tx_hash = t.tx_hash
         WHERE wce.contract_address = $1
+          AND ($4::bigint IS NULL OR (t.height, t.tx_index) < ($4::bigint, $5::int))
         ORDER BY t.tx_hash
       )
       SELECT
         dt.tx_hash,
         dt.height,
+        dt.tx_index,
         dt.block_time,
         dt.code,
         dt.gas_used,
@@ -247,7 +414,7 @@ export class ContractsService {
           LIMIT 1
         ) AS message_type
       FROM deduplicated_txs dt
-      ORDER BY dt.block_time DESC
+      ORDER BY dt.height DESC, dt.tx_index DESC
       LIMIT $2
       OFFSET $3
     `;
@@ -256,6 +423,8 @@ export class ContractsService {
       normalizedContract,
       limit,
       offset,
+      cursor?.height ?? null,
+      cursor?.txIndex ?? null,
     ]);
 
     const countSql = `
@@ -305,6 +474,7 @@ export class ContractsService {
       total_count: totalCount,
       limit,
       offset,
+      next_cursor: buildNextCursor(result.rows, limit),
     };
   }
 
@@ -386,4 +556,30 @@ export class ContractsService {
     const match = message.match(/missing field [`'"]?([a-zA-Z0-9_]+)[`'"]?/i);
     return match ? match[1] : undefined;
   }
+
+  private isMissingContract(message: string): boolean {
+    return /no such contract/i.test(message);
+  }
+
+  private describeStateError(
+    contractAddress: string,
+    response: { status: number; data?: Record<string, any> },
+  ): string {
+    const reason = this.isErrorEnvelope(response.data) ? response.data.message : undefined;
+    if (reason && this.isMissingContract(reason)) {
+      return `Contract ${contractAddress} not found`;
+    }
+    return `Failed to fetch contract state: ${reason ?? `HTTP ${response.status}`}`;
+  }
+
+  private encodeStateKey(key: string, encoding: StateKeyEncoding): Buffer | null {
+    if (encoding === 'hex') {
+      return /^([0-9a-f]{2})+$/i.test(key) ? Buffer.from(key, 'hex') : null;
+    }
+    if (encoding === 'base64') {
+      const sanitized = key.replace(/\s+/g, '');
+      return /^[A-Za-z0-9+/]+={0,2}$/.test(sanitized) ? Buffer.from(sanitized, 'base64') : null;
+    }
+    return Buffer.from(key, 'utf8');
+  }
 }
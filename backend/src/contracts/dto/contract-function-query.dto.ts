@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsObject } from 'class-validator';
+
+export class ContractFunctionQueryDto {
+  @ApiProperty({
+    description: 'Smart query message, forwarded to the contract as-is',
+    example: { config: {} },
+  })
+  @IsObject()
+  query!: Record<string, unknown>;
+}
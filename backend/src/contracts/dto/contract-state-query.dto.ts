@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const STATE_KEY_ENCODINGS = ['utf8', 'hex', 'base64'] as const;
+export type StateKeyEncoding = (typeof STATE_KEY_ENCODINGS)[number];
+
+export class ContractStateQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of state entries per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+
+  @ApiPropertyOptional({
+    description: '`next_key` returned by the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  @Matches(/^[A-Za-z0-9+/]+={0,2}$/, { message: 'pagination_key must be base64' })
+  pagination_key?: string;
+}
+
+export class ContractRawStateQueryDto {
+  @ApiProperty({ description: 'Storage key to read', example: 'config' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1024)
+  key!: string;
+
+  @ApiPropertyOptional({
+    description: 'Encoding of `key`',
+    enum: STATE_KEY_ENCODINGS,
+    default: 'utf8',
+  })
+  @IsOptional()
+  @IsIn(STATE_KEY_ENCODINGS)
+  encoding: StateKeyEncoding = 'utf8';
+}
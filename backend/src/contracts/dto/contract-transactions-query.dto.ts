@@ -1,3 +1,3 @@
-import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { CursorPaginationQueryDto } from '../../common/dto/cursor-pagination-query.dto';
 
-export class ContractTransactionsQueryDto extends PaginationQueryDto {}
+export class ContractTransactionsQueryDto extends CursorPaginationQueryDto {}
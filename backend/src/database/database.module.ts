@@ -7,6 +7,18 @@ import { SavedItem } from './entities/saved-item.entity';
 import { SshTunnelService } from './ssh-tunnel.service';
 import { ApiKey } from './entities/api-key.entity';
 import { ApiRequestLog } from './entities/api-request-log.entity';
+import { AlertRule } from './entities/alert-rule.entity';
+import { AlertDelivery } from './entities/alert-delivery.entity';
+import { Webhook } from './entities/webhook.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { AdminQueryLog } from './entities/admin-query-log.entity';
+import { SavedQuery } from './entities/saved-query.entity';
+import { SavedQueryRun } from './entities/saved-query-run.entity';
+import { AuditEvent } from './entities/audit-event.entity';
+import { ValidatorBlockSignature } from './entities/validator-block-signature.entity';
+import { ValidatorJailEvent } from './entities/validator-jail-event.entity';
+import { ValidatorPowerSnapshot } from './entities/validator-power-snapshot.entity';
+import { IbcDenomTrace } from './entities/ibc-denom-trace.entity';
 
 @Module({
   imports: [
@@ -19,7 +31,25 @@ import { ApiRequestLog } from './entities/api-request-log.entity';
         username: configService.get<string>('POSTGRES_USER', 'postgres'),
         password: configService.get<string>('POSTGRES_PASSWORD', 'Beenco@123'),
         database: configService.get<string>('POSTGRES_DB', 'saad_test_db'),
-        entities: [TvlSnapshot, User, SavedItem, ApiKey, ApiRequestLog],
+        entities: [
+          TvlSnapshot,
+          User,
+          SavedItem,
+          ApiKey,
+          ApiRequestLog,
+          AlertRule,
+          AlertDelivery,
+          Webhook,
+          WebhookDelivery,
+          AdminQueryLog,
+          SavedQuery,
+          SavedQueryRun,
+          AuditEvent,
+          ValidatorBlockSignature,
+          ValidatorJailEvent,
+          ValidatorPowerSnapshot,
+          IbcDenomTrace,
+        ],
         synchronize: configService.get<string>('TYPEORM_SYNC', 'false') === 'true',
         logging: configService.get<string>('TYPEORM_LOGGING') === 'true',
         ssl:
@@ -30,7 +60,25 @@ import { ApiRequestLog } from './entities/api-request-log.entity';
             : false,
       }),
     }),
-    TypeOrmModule.forFeature([TvlSnapshot, User, SavedItem, ApiKey, ApiRequestLog]),
+    TypeOrmModule.forFeature([
+      TvlSnapshot,
+      User,
+      SavedItem,
+      ApiKey,
+      ApiRequestLog,
+      AlertRule,
+      AlertDelivery,
+      Webhook,
+      WebhookDelivery,
+      AdminQueryLog,
+      SavedQuery,
+      SavedQueryRun,
+      AuditEvent,
+      ValidatorBlockSignature,
+      ValidatorJailEvent,
+      ValidatorPowerSnapshot,
+      IbcDenomTrace,
+    ]),
   ],
   providers: [SshTunnelService],
   exports: [TypeOrmModule, SshTunnelService],
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { AdminQueryStatus, AdminQueryTarget } from '../../admin/enums/query-target.enum';
+import { ApiKey } from './api-key.entity';
+
+/**
+ * One row per statement submitted to the admin SQL console, including rejected ones.
+ */
+@Entity('admin_query_logs')
+@Index('idx_admin_query_logs_time', ['createdAt'])
+@Index('idx_admin_query_logs_api_key_time', ['apiKeyId', 'createdAt'])
+export class AdminQueryLog {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'api_key_id', type: 'bigint', nullable: true })
+  apiKeyId: string | null;
+
+  @ManyToOne(() => ApiKey, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'api_key_id' })
+  apiKey?: ApiKey | null;
+
+  // Kept separately so the log stays readable after the key is deleted
+  @Column({ name: 'api_key_prefix', type: 'varchar', length: 16 })
+  apiKeyPrefix: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  target: AdminQueryTarget;
+
+  @Column({ type: 'text' })
+  sql: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: AdminQueryStatus;
+
+  @Column({ name: 'row_count', type: 'integer', nullable: true })
+  rowCount: number | null;
+
+  @Column({ name: 'duration_ms', type: 'integer', nullable: true })
+  durationMs: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,48 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { AlertChannel, AlertDeliveryStatus } from '../../alerts/enums/alert-condition.enum';
+import { AlertRule } from './alert-rule.entity';
+
+@Entity('alert_deliveries')
+@Index('idx_alert_deliveries_rule_time', ['ruleId', 'createdAt'])
+@Index('idx_alert_deliveries_user_time', ['userId', 'createdAt'])
+export class AlertDelivery {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'rule_id', type: 'bigint' })
+  ruleId: string;
+
+  @ManyToOne(() => AlertRule, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rule_id' })
+  rule?: AlertRule;
+
+  @Column({ name: 'user_id', type: 'bigint' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  channel: AlertChannel;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: AlertDeliveryStatus;
+
+  // Tx hash or state key that triggered the alert
+  @Column({ name: 'trigger_ref', type: 'varchar', length: 128 })
+  triggerRef: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+}
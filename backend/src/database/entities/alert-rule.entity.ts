@@ -0,0 +1,75 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { AlertCondition } from '../../alerts/enums/alert-condition.enum';
+import { SavedItem } from './saved-item.entity';
+import { User } from './user.entity';
+
+export interface AlertRuleParams {
+  // Base-unit threshold for incoming_transfer_above
+  minAmount?: string;
+  denom?: string;
+  // Contract action for contract_executed
+  action?: string;
+}
+
+@Entity('alert_rules')
+@Index('idx_alert_rules_user', ['userId'])
+@Index('idx_alert_rules_active', ['isActive'])
+export class AlertRule {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'user_id', type: 'bigint' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @Column({ name: 'saved_item_id', type: 'bigint' })
+  savedItemId: string;
+
+  @ManyToOne(() => SavedItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'saved_item_id' })
+  savedItem?: SavedItem;
+
+  @Column({ type: 'varchar', length: 40 })
+  condition: AlertCondition;
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  params: AlertRuleParams;
+
+  @Column({ name: 'notify_email', type: 'boolean', default: () => 'true' })
+  notifyEmail: boolean;
+
+  @Column({ name: 'webhook_url', type: 'varchar', length: 500, nullable: true })
+  webhookUrl: string | null;
+
+  @Column({ name: 'is_active', type: 'boolean', default: () => 'true' })
+  isActive: boolean;
+
+  // Highest block height already evaluated for chain-event conditions
+  @Column({ name: 'last_checked_height', type: 'bigint', nullable: true })
+  lastCheckedHeight: string | null;
+
+  // Last observed validator state for jail/commission conditions
+  @Column({ name: 'last_state', type: 'jsonb', nullable: true })
+  lastState: Record<string, unknown> | null;
+
+  @Column({ name: 'last_triggered_at', type: 'timestamp', nullable: true })
+  lastTriggeredAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date;
+}
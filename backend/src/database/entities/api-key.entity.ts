@@ -7,6 +7,7 @@ import {
   ManyToOne,
   PrimaryGeneratedColumn,
 } from 'typeorm';
+import { ApiScope } from '../../auth/enums/api-scope.enum';
 import { UserRole } from '../../auth/enums/user-role.enum';
 import { User } from './user.entity';
 
@@ -37,6 +38,10 @@ export class ApiKey {
   @Column({ type: 'varchar', length: 20 })
   role: UserRole;
 
+  // Route groups the key may call; null means every scope allowed for its role
+  @Column({ type: 'jsonb', nullable: true })
+  scopes: ApiScope[] | null;
+
   @Column({ name: 'time_restricted', type: 'boolean', default: () => 'false' })
   timeRestricted: boolean;
 
@@ -46,12 +51,30 @@ export class ApiKey {
   @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
   expiresAt: Date | null;
 
+  // Sliding-window limits; null disables that window
+  @Column({ name: 'rate_limit_per_minute', type: 'integer', nullable: true, default: () => '100' })
+  rateLimitPerMinute: number | null;
+
+  @Column({ name: 'rate_limit_per_day', type: 'integer', nullable: true })
+  rateLimitPerDay: number | null;
+
+  // Calendar-month (UTC) request quota; null means unlimited
+  @Column({ name: 'monthly_quota', type: 'integer', nullable: true })
+  monthlyQuota: number | null;
+
   @Column({ name: 'request_count', type: 'bigint', default: () => '0' })
   requestCount: string;
 
   @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
   lastUsedAt: Date | null;
 
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  // Key this one replaced through rotation; the old key stays valid until its grace expiry
+  @Column({ name: 'rotated_from_id', type: 'bigint', nullable: true })
+  rotatedFromId: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
   createdAt: Date;
 }
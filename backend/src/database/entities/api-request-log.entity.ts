@@ -29,6 +29,10 @@ export class ApiRequestLog {
   @Column({ type: 'text' })
   path: string;
 
+  // Matched route pattern (e.g. /api/v2/blocks/:height); null for rows logged before it existed
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  route: string | null;
+
   @Column({ name: 'status_code', type: 'smallint' })
   statusCode: number;
 
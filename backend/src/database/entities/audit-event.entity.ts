@@ -0,0 +1,48 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { AuditAction, AuditActorType, AuditOutcome } from '../../audit/enums/audit-action.enum';
+
+/**
+ * Append-only record of a security-relevant action. Rows are only ever inserted (see
+ * AuditService); actors are stored by value so events outlive deleted users and keys.
+ */
+@Entity('audit_events')
+@Index('idx_audit_events_action_time', ['action', 'createdAt'])
+@Index('idx_audit_events_actor_time', ['actorId', 'createdAt'])
+@Index('idx_audit_events_time', ['createdAt'])
+export class AuditEvent {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  action: AuditAction;
+
+  @Column({ type: 'varchar', length: 20 })
+  outcome: AuditOutcome;
+
+  @Column({ name: 'actor_type', type: 'varchar', length: 20 })
+  actorType: AuditActorType;
+
+  @Column({ name: 'actor_id', type: 'varchar', length: 64, nullable: true })
+  actorId: string | null;
+
+  @Column({ name: 'actor_label', type: 'varchar', length: 255, nullable: true })
+  actorLabel: string | null;
+
+  @Column({ name: 'target_type', type: 'varchar', length: 40, nullable: true })
+  targetType: string | null;
+
+  @Column({ name: 'target_id', type: 'varchar', length: 64, nullable: true })
+  targetId: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 64, nullable: true })
+  ipAddress: string | null;
+
+  @Column({ name: 'user_agent', type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import { Column, Entity, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Resolved `ibc/<hash>` denoms. The trace never changes for a hash; registry metadata is
+ * re-resolved from time to time while it is still missing.
+ */
+@Entity('ibc_denom_traces')
+export class IbcDenomTrace {
+  // Uppercase hex hash, without the `ibc/` prefix
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  hash: string;
+
+  @Column({ type: 'text' })
+  path: string;
+
+  @Column({ name: 'base_denom', type: 'text' })
+  baseDenom: string;
+
+  // Channel on this chain the voucher arrived through (first hop of the path)
+  @Column({ name: 'channel_id', type: 'varchar', length: 64, nullable: true })
+  channelId: string | null;
+
+  // Only known for single-hop traces, where the counterparty of the channel is the origin
+  @Column({ name: 'origin_chain_id', type: 'varchar', length: 128, nullable: true })
+  originChainId: string | null;
+
+  @Column({ name: 'origin_chain_name', type: 'varchar', length: 128, nullable: true })
+  originChainName: string | null;
+
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  name: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  symbol: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  decimals: number | null;
+
+  @Column({ name: 'image_url', type: 'text', nullable: true })
+  imageUrl: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ name: 'metadata_resolved', type: 'boolean', default: false })
+  metadataResolved: boolean;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { SavedQueryRunStatus, SavedQueryRunTrigger } from '../../admin/enums/saved-query.enum';
+import { SavedQuery } from './saved-query.entity';
+
+export interface SavedQueryRunDelivery {
+  channel: 'email' | 'webhook';
+  target: string;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+@Entity('saved_query_runs')
+@Index('idx_saved_query_runs_query_time', ['savedQueryId', 'createdAt'])
+export class SavedQueryRun {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'saved_query_id', type: 'bigint' })
+  savedQueryId: string;
+
+  @ManyToOne(() => SavedQuery, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'saved_query_id' })
+  savedQuery?: SavedQuery;
+
+  @Column({ type: 'varchar', length: 20 })
+  trigger: SavedQueryRunTrigger;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: SavedQueryRunStatus;
+
+  // Resolved parameter values the statement was rendered with
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  parameters: Record<string, string | number>;
+
+  @Column({ name: 'row_count', type: 'integer', nullable: true })
+  rowCount: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  truncated: boolean;
+
+  @Column({ name: 'duration_ms', type: 'integer', nullable: true })
+  durationMs: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  deliveries: SavedQueryRunDelivery[];
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+}
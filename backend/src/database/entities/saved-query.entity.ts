@@ -0,0 +1,79 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { AdminQueryTarget } from '../../admin/enums/query-target.enum';
+import { SavedQueryParameterType } from '../../admin/enums/saved-query.enum';
+import { ApiKey } from './api-key.entity';
+
+export interface SavedQueryParameter {
+  name: string;
+  type: SavedQueryParameterType;
+  // Used when a run does not supply the value; dates also accept `now`, `now-7d`, `now-1h`
+  default?: string | number | null;
+  description?: string;
+}
+
+/**
+ * A named admin console statement with `{{name}}` parameters, optionally run on a cron
+ * schedule with the CSV result sent to the configured recipients.
+ */
+@Entity('saved_queries')
+@Index('idx_saved_queries_next_run', ['isActive', 'nextRunAt'])
+export class SavedQuery {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  target: AdminQueryTarget;
+
+  @Column({ type: 'text' })
+  sql: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  parameters: SavedQueryParameter[];
+
+  // Five-field cron expression evaluated in UTC; null for on-demand queries
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  schedule: string | null;
+
+  @Column({ name: 'delivery_emails', type: 'jsonb', default: () => "'[]'" })
+  deliveryEmails: string[];
+
+  @Column({ name: 'delivery_webhook_url', type: 'text', nullable: true })
+  deliveryWebhookUrl: string | null;
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ name: 'next_run_at', type: 'timestamp', nullable: true })
+  nextRunAt: Date | null;
+
+  @Column({ name: 'last_run_at', type: 'timestamp', nullable: true })
+  lastRunAt: Date | null;
+
+  @Column({ name: 'created_by_api_key_id', type: 'bigint', nullable: true })
+  createdByApiKeyId: string | null;
+
+  @ManyToOne(() => ApiKey, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'created_by_api_key_id' })
+  createdByApiKey?: ApiKey | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -38,4 +38,7 @@ export class User {
 
   @Column({ type: 'timestamp', name: 'last_password_reset_request', nullable: true, select: false })
   lastPasswordResetRequest: Date | null;
+
+  @Column({ type: 'integer', name: 'alert_hourly_limit', default: 20 })
+  alertHourlyLimit: number;
 }
@@ -0,0 +1,20 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * Who signed (and who was absent from) the commit of one block, keyed by hex consensus address.
+ * Only a rolling window of recent blocks is kept.
+ */
+@Entity('validator_block_signatures')
+export class ValidatorBlockSignature {
+  @PrimaryColumn({ type: 'bigint' })
+  height: string;
+
+  @Column({ name: 'block_time', type: 'timestamptz', nullable: true })
+  blockTime: Date | null;
+
+  @Column({ type: 'varchar', length: 40, array: true, default: () => "'{}'" })
+  signers: string[];
+
+  @Column({ type: 'varchar', length: 40, array: true, default: () => "'{}'" })
+  absent: string[];
+}
@@ -0,0 +1,32 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { ValidatorJailEventType } from '../../validators/enums/validator-jail-event.enum';
+
+@Entity('validator_jail_events')
+@Index('idx_validator_jail_events_operator_time', ['operatorAddress', 'createdAt'])
+export class ValidatorJailEvent {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'operator_address', type: 'varchar', length: 128 })
+  operatorAddress: string;
+
+  @Column({ name: 'consensus_address', type: 'varchar', length: 128, nullable: true })
+  consensusAddress: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  event: ValidatorJailEventType;
+
+  // Chain height at which the tracker noticed the change
+  @Column({ type: 'bigint' })
+  height: string;
+
+  // 'double_sign' when the validator was tombstoned, otherwise 'downtime'
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  reason: string | null;
+
+  @Column({ name: 'jailed_until', type: 'timestamptz', nullable: true })
+  jailedUntil: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,39 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * One row per validator per UTC day. The row is refreshed throughout the day, so past days
+ * hold the last state seen before midnight.
+ */
+@Entity('validator_power_snapshots')
+@Index('uq_validator_power_snapshots_operator_date', ['operatorAddress', 'snapshotDate'], {
+  unique: true,
+})
+@Index('idx_validator_power_snapshots_date', ['snapshotDate'])
+export class ValidatorPowerSnapshot {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'operator_address', type: 'varchar', length: 128 })
+  operatorAddress: string;
+
+  @Column({ name: 'snapshot_date', type: 'date' })
+  snapshotDate: string;
+
+  @Column({ type: 'numeric', precision: 40, scale: 0 })
+  tokens: string;
+
+  @Column({ name: 'delegator_shares', type: 'numeric', precision: 60, scale: 18 })
+  delegatorShares: string;
+
+  @Column({ name: 'commission_rate', type: 'numeric', precision: 20, scale: 18 })
+  commissionRate: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  status: string;
+
+  @Column({ type: 'boolean', default: false })
+  jailed: boolean;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { WebhookDeliveryStatus, WebhookEventType } from '../../webhooks/enums/webhook-event.enum';
+import { Webhook } from './webhook.entity';
+
+@Entity('webhook_deliveries')
+@Index('idx_webhook_deliveries_queue', ['status', 'nextAttemptAt'])
+@Index('idx_webhook_deliveries_webhook_time', ['webhookId', 'createdAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'webhook_id', type: 'bigint' })
+  webhookId: string;
+
+  @ManyToOne(() => Webhook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'webhook_id' })
+  webhook?: Webhook;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 40 })
+  eventType: WebhookEventType;
+
+  // Stable identifier of the source event (block height, tx hash, snapshot time)
+  @Column({ name: 'event_id', type: 'varchar', length: 128 })
+  eventId: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 20 })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamp', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ name: 'last_attempt_at', type: 'timestamp', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @Column({ name: 'response_status', type: 'integer', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'delivered_at', type: 'timestamp', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,77 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { WebhookEventType } from '../../webhooks/enums/webhook-event.enum';
+import { ApiKey } from './api-key.entity';
+import { User } from './user.entity';
+
+export interface WebhookFilters {
+  // transaction.matched: deliver transactions touching any of these addresses
+  addresses?: string[];
+  // transaction.matched: first message type, exact or with `%` wildcards
+  messageTypes?: string[];
+  // tvl.changed: only deliver when total TVL moves by at least this percentage
+  minTvlChangePercent?: number;
+}
+
+/**
+ * Outbound webhook subscription. Exactly one of `userId` / `apiKeyId` is set, depending on
+ * whether it was registered from a user session or with an API key.
+ */
+@Entity('webhooks')
+@Index('idx_webhooks_user', ['userId'])
+@Index('idx_webhooks_api_key', ['apiKeyId'])
+@Index('idx_webhooks_active', ['isActive'])
+export class Webhook {
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ name: 'user_id', type: 'bigint', nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User | null;
+
+  @Column({ name: 'api_key_id', type: 'bigint', nullable: true })
+  apiKeyId: string | null;
+
+  @ManyToOne(() => ApiKey, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'api_key_id' })
+  apiKey?: ApiKey | null;
+
+  @Column({ type: 'varchar', length: 500 })
+  url: string;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  description: string | null;
+
+  // HMAC-SHA256 signing secret; only returned on create and rotate
+  @Column({ type: 'varchar', length: 100 })
+  secret: string;
+
+  @Column({ type: 'jsonb' })
+  events: WebhookEventType[];
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  filters: WebhookFilters;
+
+  @Column({ name: 'is_active', type: 'boolean', default: () => 'true' })
+  isActive: boolean;
+
+  @Column({ name: 'last_delivery_at', type: 'timestamp', nullable: true })
+  lastDeliveryAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date;
+}
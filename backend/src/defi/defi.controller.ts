@@ -11,6 +11,8 @@ import {
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import {
   DefiService,
   DegenterOhlcvResponse,
@@ -46,6 +48,7 @@ const parseOptionalNumber = (value?: string | string[]): number | undefined => {
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.DEFI_READ)
 export class DefiController {
   constructor(private readonly defiService: DefiService) {}
 
@@ -1,3 +1,5 @@
+import { DecodedStorageKey } from '../common/utils/storage-key.utils';
+
 export interface TransactionStats {
   tx_total: number;
   tx_last_7d: number;
@@ -198,6 +200,39 @@ export interface ContractDetails {
   contract_info?: Record<string, unknown>;
 }
 
+export interface ContractQueryResponse {
+  contract_address: string;
+  query_hash: string;
+  data: unknown;
+}
+
+export interface ContractQueryError {
+  error: string;
+  // Query message names the contract accepts, when it rejected an unknown variant
+  suggestions?: string[];
+  missing_field?: string;
+}
+
+export interface ContractStateEntry {
+  key: DecodedStorageKey;
+  value: unknown;
+  value_base64: string;
+}
+
+export interface ContractStateResponse {
+  contract_address: string;
+  data: ContractStateEntry[];
+  next_key: string | null;
+}
+
+export interface ContractRawStateResponse {
+  contract_address: string;
+  key: DecodedStorageKey;
+  // Null when nothing is stored under the key
+  value: unknown;
+  value_base64: string | null;
+}
+
 export interface CodeInfo {
   code_id?: string;
   creator?: string;
@@ -260,9 +295,36 @@ export interface ClaimableRewards {
   total_zig?: string | null;
 }
 
+export type VestingAccountType = 'continuous' | 'delayed' | 'periodic' | 'permanent_locked';
+
+export interface VestingScheduleEntry {
+  start_time: string | null;
+  unlock_time: string | null;
+  amount: Array<{ denom: string; amount: string }>;
+  // Continuous vesting releases the amount linearly between start_time and unlock_time
+  linear: boolean;
+  unlocked: boolean;
+}
+
+export interface VestingInfo {
+  type: VestingAccountType;
+  start_time: string | null;
+  end_time: string | null;
+  original_vesting: Array<{ denom: string; amount: string }>;
+  vested: Array<{ denom: string; amount: string }>;
+  locked: Array<{ denom: string; amount: string }>;
+  spendable: Array<{ denom: string; amount: string }>;
+  delegated_free: Array<{ denom: string; amount: string }>;
+  delegated_vesting: Array<{ denom: string; amount: string }>;
+  next_unlock: { time: string; amount: Array<{ denom: string; amount: string }> } | null;
+  fully_vested_at: string | null;
+  schedule: VestingScheduleEntry[];
+}
+
 export interface AccountDetails {
   account_info?: AccountInfo | null;
   balance?: TokenBalance | null;
+  vesting?: VestingInfo | null;
   claimable_rewards?: ClaimableRewards | null;
   total_transactions?: number | null;
   first_block_height?: number | null;
@@ -283,18 +345,76 @@ export interface LatestTxResponse {
   direction: 'sent' | 'received' | 'other';
 }
 
+export interface DecodedTxEvent {
+  type: string;
+  attributes: Record<string, string>;
+}
+
+export interface DecodedSwap {
+  pool: string | null;
+  sender: string | null;
+  receiver: string | null;
+  offer_asset: string | null;
+  offer_amount: string | null;
+  ask_asset: string | null;
+  return_amount: string | null;
+  spread_amount: string | null;
+  commission_amount: string | null;
+}
+
+export interface DecodedTxMessage {
+  msg_index: number;
+  type: string;
+  module: string;
+  summary: string;
+  decoded: Record<string, unknown>;
+  swaps: DecodedSwap[];
+  events: DecodedTxEvent[];
+}
+
+export interface BalanceChange {
+  address: string;
+  denom: string;
+  amount: string;
+  display_amount: string;
+  symbol: string;
+}
+
+export interface DecodedTransaction {
+  tx_hash: string;
+  height: number;
+  timestamp: string | null;
+  code: number;
+  success: boolean;
+  failure_reason: string | null;
+  gas_wanted: number;
+  gas_used: number;
+  memo: string | null;
+  fee: {
+    amount: Array<{ denom: string; amount: string }>;
+    gas_limit: string | null;
+    payer: string | null;
+  };
+  messages: DecodedTxMessage[];
+  tx_events: DecodedTxEvent[];
+  balance_changes: BalanceChange[];
+}
+
 export interface ContractTransactionsResponse {
   data: ContractTransaction[];
   total_count: number;
   limit?: number;
   offset?: number;
+  next_cursor?: string | null;
 }
 
 export interface AccountTransactionsResponse {
   data: AccountTransaction[];
   total_count: number;
+  total_count_estimated?: boolean;
   limit?: number;
   offset?: number;
+  next_cursor?: string | null;
 }
 
 export interface Delegation {
@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const EXPORT_FORMATS = ['csv', 'jsonl'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export class ExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Output format',
+    enum: EXPORT_FORMATS,
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS)
+  format: ExportFormat = 'csv';
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions at or above this block height',
+    minimum: 1,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  from_height?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions at or below this block height',
+    minimum: 1,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  to_height?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Only include transactions at or after this time (ISO format: 2025-10-01T00:00:00)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from_date?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only include transactions before this time (ISO format: 2025-10-31T23:59:59)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to_date?: string;
+}
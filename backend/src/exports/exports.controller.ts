@@ -0,0 +1,128 @@
+import { Controller, Get, Logger, Param, Query, Res, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiProduces, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { once } from 'events';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { RequestCost } from '../auth/decorators/request-cost.decorator';
+import { toCsvCell } from '../common/utils/csv.utils';
+import { ExportFormat, ExportQueryDto } from './dto/export-query.dto';
+import {
+  ExportsService,
+  TRANSACTION_EXPORT_COLUMNS,
+  TransactionExportRow,
+} from './exports.service';
+
+// Each export consumes this many units of the caller's per-minute rate limit
+const EXPORT_REQUEST_COST = 10;
+
+@ApiTags('Exports')
+@ApiBearerAuth('api-key')
+@Controller('api/v2')
+@RequireScopes(ApiScope.EXPORT)
+export class ExportsController {
+  private readonly logger = new Logger(ExportsController.name);
+
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('account/transactions/:address/export')
+  @UseGuards(ApiKeyGuard)
+  @RequestCost(EXPORT_REQUEST_COST)
+  @ApiOperation({ summary: 'Download the full transaction history of an account' })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  async exportAccountTransactions(
+    @Param('address') address: string,
+    @Query() query: ExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const rows = this.exportsService.exportAccountTransactions(address, query);
+    await this.pipeExport(res, rows, query.format, `account-${address}`);
+  }
+
+  @Get('contract/transactions/:contractAddress/export')
+  @UseGuards(ApiKeyGuard)
+  @RequestCost(EXPORT_REQUEST_COST)
+  @ApiOperation({ summary: 'Download the transactions that touched a contract' })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  async exportContractTransactions(
+    @Param('contractAddress') contractAddress: string,
+    @Query() query: ExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const rows = await this.exportsService.exportContractTransactions(contractAddress, query);
+    await this.pipeExport(res, rows, query.format, `contract-${contractAddress}`);
+  }
+
+  @Get('blocks/export')
+  @UseGuards(ApiKeyGuard)
+  @RequestCost(EXPORT_REQUEST_COST)
+  @ApiOperation({
+    summary: 'Download all transactions in a block range',
+    description: 'Requires from_height and to_height; at most 100000 blocks per export.',
+  })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  async exportBlockRangeTransactions(
+    @Query() query: ExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const rows = this.exportsService.exportBlockRangeTransactions(query);
+    await this.pipeExport(
+      res,
+      rows,
+      query.format,
+      `blocks-${query.from_height}-${query.to_height}`,
+    );
+  }
+
+  private async pipeExport(
+    res: Response,
+    rows: AsyncGenerator<TransactionExportRow>,
+    format: ExportFormat,
+    name: string,
+  ): Promise<void> {
+    const extension = format === 'jsonl' ? 'jsonl' : 'csv';
+    res.setHeader(
+      'Content-Type',
+      format === 'jsonl' ? 'application/x-ndjson; charset=utf-8' : 'text/csv; charset=utf-8',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.${extension}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    let clientGone = false;
+    res.on('close', () => {
+      clientGone = true;
+    });
+
+    const write = async (chunk: string) => {
+      if (!res.write(chunk)) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      }
+    };
+
+    try {
+      if (format === 'csv') {
+        await write(`${TRANSACTION_EXPORT_COLUMNS.join(',')}\n`);
+      }
+
+      for await (const row of rows) {
+        if (clientGone) {
+          // Leaving the loop closes the generator and releases the database cursor
+          break;
+        }
+        await write(format === 'jsonl' ? `${JSON.stringify(row)}\n` : this.toCsvLine(row));
+      }
+
+      res.end();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Export ${name} failed: ${message}`);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  private toCsvLine(row: TransactionExportRow): string {
+    const cells = TRANSACTION_EXPORT_COLUMNS.map(column => toCsvCell(row[column]));
+    return `${cells.join(',')}\n`;
+  }
+}
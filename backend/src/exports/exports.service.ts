@@ -0,0 +1,321 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { AccountsService, DenomResolver } from '../accounts/accounts.service';
+import { parseCoins, toDisplayAmount } from '../common/utils/coin.utils';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+
+export interface TransactionExportRow {
+  tx_hash: string;
+  height: number;
+  block_time: string | null;
+  status: 'success' | 'failed';
+  message_type: string | null;
+  signer: string | null;
+  direction: string | null;
+  amount: string | null;
+  amount_symbol: string | null;
+  amount_denom: string | null;
+  fee: string | null;
+  fee_symbol: string | null;
+}
+
+export const TRANSACTION_EXPORT_COLUMNS: Array<keyof TransactionExportRow> = [
+  'tx_hash',
+  'height',
+  'block_time',
+  'status',
+  'message_type',
+  'signer',
+  'direction',
+  'amount',
+  'amount_symbol',
+  'amount_denom',
+  'fee',
+  'fee_symbol',
+];
+
+type ExportSqlRow = {
+  tx_hash: string;
+  height: number | string;
+  block_time: Date | string | null;
+  code: number | null;
+  message_type: string | null;
+  signer: string | null;
+  fee: string | null;
+  amount: string | null;
+  direction: string | null;
+};
+
+@Injectable()
+export class ExportsService {
+  private readonly MAX_BLOCK_RANGE = 100_000;
+
+  constructor(
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly accountsService: AccountsService,
+  ) {}
+
+  exportAccountTransactions(
+    address: string,
+    query: ExportQueryDto,
+  ): AsyncGenerator<TransactionExportRow> {
+    const normalizedAddress = address.trim();
+    if (!normalizedAddress.startsWith('zig1') || normalizedAddress.length > 50) {
+      throw new BadRequestException('Invalid account address');
+    }
+    this.assertValidRange(query);
+
+    const params: Array<string | number> = [normalizedAddress];
+    const sourceSql = `
+        SELECT tx_hash, height, tx_index, block_time, code
+        FROM address_transactions
+        WHERE address = $1
+        ${this.buildRangeClause(query, params)}
+    `;
+
+    return this.streamRows(sourceSql, params, normalizedAddress);
+  }
+
+  async exportContractTransactions(
+    contractAddress: string,
+    query: ExportQueryDto,
+  ): Promise<AsyncGenerator<TransactionExportRow>> {
+    const normalizedContract = contractAddress.trim();
+    this.assertValidRange(query);
+
+    const contractExists = await this.zigscanPostgresService.query(
+      `
+        SELECT 1
+        FROM wasm_contracts
+        WHERE contract_address = $1
+        LIMIT 1
+      `,
+      [normalizedContract],
+    );
+    if (contractExists.rowCount === 0) {
+      throw new NotFoundException(`Contract ${normalizedContract} not found`);
+    }
+
+    const params: Array<string | number> = [normalizedContract];
+    const sourceSql = `
+        SELECT tx_hash, height, tx_index, block_time, code
+        FROM transactions
+        WHERE tx_hash IN (
+            SELECT tx_hash
+            FROM wasm_contract_events
+            WHERE contract_address = $1
+        )
+        ${this.buildRangeClause(query, params)}
+    `;
+
+    return this.streamRows(sourceSql, params, null);
+  }
+
+  exportBlockRangeTransactions(query: ExportQueryDto): AsyncGenerator<TransactionExportRow> {
+    if (query.from_height === undefined || query.to_height === undefined) {
+      throw new BadRequestException('from_height and to_height are required for block exports');
+    }
+    this.assertValidRange(query);
+
+    if (query.to_height - query.from_height + 1 > this.MAX_BLOCK_RANGE) {
+      throw new BadRequestException(
+        `Block range too large. Max ${this.MAX_BLOCK_RANGE} blocks per export.`,
+      );
+    }
+
+    const params: Array<string | number> = [];
+    const sourceSql = `
+        SELECT tx_hash, height, tx_index, block_time, code
+        FROM transactions
+        WHERE TRUE
+        ${this.buildRangeClause(query, params)}
+    `;
+
+    return this.streamRows(sourceSql, params, null);
+  }
+
+  private assertValidRange(query: ExportQueryDto): void {
+    if (
+      query.from_height !== undefined &&
+      query.to_height !== undefined &&
+      query.from_height > query.to_height
+    ) {
+      throw new BadRequestException('Invalid height range: from_height must not exceed to_height');
+    }
+
+    if (
+      query.from_date &&
+      query.to_date &&
+      new Date(query.from_date).getTime() > new Date(query.to_date).getTime()
+    ) {
+      throw new BadRequestException('Invalid date range: from_date must not be after to_date');
+    }
+  }
+
+  private buildRangeClause(query: ExportQueryDto, params: Array<string | number>): string {
+    const addParam = (value: string | number): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const conditions: string[] = [];
+    if (query.from_height !== undefined) {
+      conditions.push(`AND height >= ${addParam(query.from_height)}::bigint`);
+    }
+    if (query.to_height !== undefined) {
+      conditions.push(`AND height <= ${addParam(query.to_height)}::bigint`);
+    }
+    if (query.from_date) {
+      conditions.push(`AND block_time >= ${addParam(query.from_date)}`);
+    }
+    if (query.to_date) {
+      conditions.push(`AND block_time < ${addParam(query.to_date)}`);
+    }
+    return conditions.join('\n        ');
+  }
+
+  /**
+   * Wraps a `(tx_hash, height, tx_index, block_time, code)` source query with the per-tx
+   * event lookups and streams it oldest first. When `address` is set, amounts and direction
+   * are taken from that address's coin_spent / coin_received events.
+   */
+  private async *streamRows(
+    sourceSql: string,
+    params: Array<string | number>,
+    address: string | null,
+  ): AsyncGenerator<TransactionExportRow> {
+    let amountExpression = `
+        (SELECT e.attributes ->> 'amount'
+         FROM events e
+         WHERE e.tx_hash = src.tx_hash
+           AND e.event_type = 'transfer'
+           AND (e.attributes ->> 'msg_index') = '0'
+         LIMIT 1)`;
+    let directionExpression = 'NULL';
+
+    if (address) {
+      params.push(address);
+      const addressPlaceholder = `$${params.length}`;
+      const spentLookup = `
+        (SELECT e.attributes ->> 'amount'
+         FROM events e
+         WHERE e.tx_hash = src.tx_hash
+           AND e.event_type = 'coin_spent'
+           AND e.attributes ->> 'spender' = ${addressPlaceholder}
+           AND (e.attributes ->> 'msg_index') = '0'
+         LIMIT 1)`;
+      const receivedLookup = `
+        (SELECT e.attributes ->> 'amount'
+         FROM events e
+         WHERE e.tx_hash = src.tx_hash
+           AND e.event_type = 'coin_received'
+           AND e.attributes ->> 'receiver' = ${addressPlaceholder}
+           AND (e.attributes ->> 'msg_index') = '0'
+         LIMIT 1)`;
+      amountExpression = `COALESCE(${spentLookup}, ${receivedLookup})`;
+      directionExpression = `
+        CASE
+            WHEN ${spentLookup} IS NOT NULL THEN 'sent'
+            WHEN ${receivedLookup} IS NOT NULL THEN 'received'
+            ELSE 'other'
+        END`;
+    }
+
+    const sql = `
+      SELECT
+          src.tx_hash,
+          src.height,
+          src.block_time,
+          src.code,
+          (SELECT COALESCE(e.action, e.attributes ->> 'action')
+           FROM events e
+           WHERE e.tx_hash = src.tx_hash
+             AND e.event_type = 'message'
+             AND (e.attributes ->> 'msg_index') = '0'
+           LIMIT 1) AS message_type,
+          COALESCE(
+              (SELECT e.attributes ->> 'fee_payer'
+               FROM events e
+               WHERE e.tx_hash = src.tx_hash
+                 AND e.event_type = 'tx'
+                 AND (e.attributes ->> 'fee_payer') IS NOT NULL
+               LIMIT 1),
+              (SELECT e.attributes ->> 'sender'
+               FROM events e
+               WHERE e.tx_hash = src.tx_hash
+                 AND e.event_type = 'message'
+                 AND (e.attributes ->> 'msg_index') = '0'
+               LIMIT 1)
+          ) AS signer,
+          (SELECT e.attributes ->> 'fee'
+           FROM events e
+           WHERE e.tx_hash = src.tx_hash
+             AND e.event_type = 'tx'
+             AND e.attributes ? 'fee'
+           LIMIT 1) AS fee,
+          ${amountExpression} AS amount,
+          ${directionExpression} AS direction
+      FROM (${sourceSql}) src
+      ORDER BY src.height ASC, src.tx_index ASC
+    `;
+
+    const resolveDenom = this.accountsService.createDenomResolver();
+
+    for await (const batch of this.zigscanPostgresService.stream<ExportSqlRow>(sql, params)) {
+      for (const row of batch) {
+        const amount = await this.formatCoins(row.amount, resolveDenom);
+        const fee = await this.formatCoins(row.fee, resolveDenom);
+
+        yield {
+          tx_hash: row.tx_hash,
+          height: Number(row.height ?? 0),
+          block_time: this.formatTimestamp(row.block_time),
+          status: Number(row.code ?? 0) === 0 ? 'success' : 'failed',
+          message_type: row.message_type ?? null,
+          signer: row.signer ?? null,
+          direction: row.direction ?? null,
+          amount: amount?.amounts ?? null,
+          amount_symbol: amount?.symbols ?? null,
+          amount_denom: amount?.denoms ?? null,
+          fee: fee?.amounts ?? null,
+          fee_symbol: fee?.symbols ?? null,
+        };
+      }
+    }
+  }
+
+  /**
+   * Converts a Cosmos coin list (`1000uzig,5ibc/ABC`) into display units. Multiple coins are
+   * joined with `;` in each column so amounts, symbols and denoms stay aligned.
+   */
+  private async formatCoins(
+    raw: string | null,
+    resolveDenom: DenomResolver,
+  ): Promise<{ amounts: string; symbols: string; denoms: string } | null> {
+    const coins = parseCoins(raw);
+    if (coins.length === 0) {
+      return null;
+    }
+
+    const amounts: string[] = [];
+    const symbols: string[] = [];
+    const denoms: string[] = [];
+
+    for (const { amount, denom } of coins) {
+      const display = await resolveDenom(denom);
+      amounts.push(toDisplayAmount(amount, display.decimals));
+      symbols.push(display.symbol);
+      denoms.push(denom);
+    }
+
+    return { amounts: amounts.join(';'), symbols: symbols.join(';'), denoms: denoms.join(';') };
+  }
+
+  private formatTimestamp(value: Date | string | null): string | null {
+    if (!value) {
+      return null;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+
+export const VOTE_OPTIONS = ['yes', 'abstain', 'no', 'no_with_veto'] as const;
+export type VoteOptionFilter = (typeof VOTE_OPTIONS)[number];
+
+export class ProposalVotesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: "Only return votes that put weight on this option (a voter's latest vote counts)",
+    enum: VOTE_OPTIONS,
+  })
+  @IsOptional()
+  @IsIn(VOTE_OPTIONS)
+  option?: VoteOptionFilter;
+}
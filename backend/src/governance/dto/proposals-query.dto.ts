@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+
+export const PROPOSAL_STATUSES = [
+  'deposit_period',
+  'voting_period',
+  'passed',
+  'rejected',
+  'failed',
+] as const;
+export type ProposalStatusFilter = (typeof PROPOSAL_STATUSES)[number];
+
+export class ProposalsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return proposals in this status',
+    enum: PROPOSAL_STATUSES,
+  })
+  @IsOptional()
+  @IsIn(PROPOSAL_STATUSES)
+  status?: ProposalStatusFilter;
+}
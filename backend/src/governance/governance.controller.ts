@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { ProposalVotesQueryDto } from './dto/proposal-votes-query.dto';
+import { ProposalsQueryDto } from './dto/proposals-query.dto';
+import {
+  AccountVotesResponse,
+  GovernanceService,
+  ProposalDetail,
+  ProposalsResponse,
+  ProposalVotesResponse,
+} from './governance.service';
+
+@ApiTags('Governance')
+@ApiBearerAuth('api-key')
+@Controller('api/v2')
+@UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
+export class GovernanceController {
+  constructor(private readonly governanceService: GovernanceService) {}
+
+  @Get('proposals')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(60)
+  @ApiOperation({ summary: 'Governance proposals, newest first, optionally filtered by status' })
+  async getProposals(@Query() query: ProposalsQueryDto): Promise<ProposalsResponse> {
+    const result = await this.governanceService.getProposals(query);
+
+    if ('error' in result) {
+      throw new HttpException(result.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return result;
+  }
+
+  @Get('proposal/:id')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({
+    summary: 'Proposal with decoded messages, deposit progress, tally and voting period',
+  })
+  async getProposal(@Param('id') id: string): Promise<ProposalDetail> {
+    const result = await this.governanceService.getProposal(id);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('invalid')
+        ? HttpStatus.BAD_REQUEST
+        : normalized.includes('not found')
+          ? HttpStatus.NOT_FOUND
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('proposal/:id/votes')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({ summary: 'Latest vote per voter on a proposal, with validator votes flagged' })
+  async getProposalVotes(
+    @Param('id') id: string,
+    @Query() query: ProposalVotesQueryDto,
+  ): Promise<ProposalVotesResponse> {
+    const result = await this.governanceService.getProposalVotes(id, query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('invalid')
+        ? HttpStatus.BAD_REQUEST
+        : normalized.includes('not found')
+          ? HttpStatus.NOT_FOUND
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('account/:address/votes')
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiScope.ACCOUNTS_READ)
+  @CacheTTL(60)
+  @ApiOperation({ summary: 'Governance votes cast by an account, latest vote per proposal' })
+  async getAccountVotes(
+    @Param('address') address: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<AccountVotesResponse> {
+    const result = await this.governanceService.getAccountVotes(address, query);
+
+    if ('error' in result) {
+      const status = result.error.toLowerCase().includes('invalid')
+        ? HttpStatus.BAD_REQUEST
+        : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+}
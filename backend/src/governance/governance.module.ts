@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { AccountsModule } from '../accounts/accounts.module';
+import { AuthModule } from '../auth/auth.module';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { ValidatorsModule } from '../validators/validators.module';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+import { GovernanceController } from './governance.controller';
+import { GovernanceService } from './governance.service';
+
+@Module({
+  imports: [AuthModule, BlockchainModule, ZigscanPostgresModule, AccountsModule, ValidatorsModule],
+  controllers: [GovernanceController],
+  providers: [GovernanceService],
+  exports: [GovernanceService],
+})
+export class GovernanceModule {}
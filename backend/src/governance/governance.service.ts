@@ -0,0 +1,573 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AccountsService } from '../accounts/accounts.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { toAccountAddress } from '../common/utils/address.utils';
+import { Coin } from '../common/utils/coin.utils';
+import { ValidatorsService } from '../validators/validators.service';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { ProposalVotesQueryDto, VoteOptionFilter } from './dto/proposal-votes-query.dto';
+import { ProposalStatusFilter, ProposalsQueryDto } from './dto/proposals-query.dto';
+
+export interface TallyResult {
+  yes: string;
+  abstain: string;
+  no: string;
+  no_with_veto: string;
+}
+
+export interface ProposalSummary {
+  id: string;
+  title: string;
+  summary: string;
+  status: string;
+  proposer: string | null;
+  expedited: boolean;
+  message_types: string[];
+  submit_time: string;
+  deposit_end_time: string;
+  voting_start_time: string | null;
+  voting_end_time: string | null;
+  total_deposit: Coin[];
+  final_tally_result: TallyResult;
+}
+
+export interface ProposalsResponse {
+  data: ProposalSummary[];
+  total_count: number;
+  limit: number;
+  offset: number;
+}
+
+export interface DecodedProposalMessage {
+  type: string;
+  type_label: string;
+  summary: string;
+  content: Record<string, unknown>;
+}
+
+export interface ProposalDetail extends ProposalSummary {
+  metadata: string;
+  messages: DecodedProposalMessage[];
+  deposit: {
+    total: Coin[];
+    min_deposit: Coin[];
+    deposit_end_time: string;
+    met: boolean;
+  };
+  tally: TallyResult & {
+    // 'live' while voting is open, otherwise the result stored on the proposal
+    source: 'live' | 'final';
+    total_voted: string;
+    turnout: number | null;
+    yes_ratio: number | null;
+    no_with_veto_ratio: number | null;
+    quorum: string | null;
+    threshold: string | null;
+    veto_threshold: string | null;
+  };
+  voting_period: {
+    state: 'not_started' | 'active' | 'ended';
+    start_time: string | null;
+    end_time: string | null;
+    remaining_seconds: number | null;
+  };
+}
+
+export interface WeightedVoteOption {
+  option: VoteOptionFilter | 'unspecified';
+  weight: string;
+}
+
+export interface ProposalVote {
+  voter: string;
+  options: WeightedVoteOption[];
+  tx_hash: string;
+  height: number;
+  block_time: string;
+  is_validator: boolean;
+  validator_address: string | null;
+  validator_moniker: string | null;
+}
+
+export interface ProposalVotesResponse {
+  proposal_id: string;
+  validator_votes: ProposalVote[];
+  data: ProposalVote[];
+  total_count: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AccountVotesResponse {
+  address: string;
+  data: Array<{
+    proposal_id: string;
+    options: WeightedVoteOption[];
+    tx_hash: string;
+    height: number;
+    block_time: string;
+  }>;
+  total_count: number;
+  limit: number;
+  offset: number;
+}
+
+interface VoteRow {
+  proposal_id: string;
+  voter: string;
+  option: string | null;
+  tx_hash: string;
+  height: number;
+  block_time: Date | string;
+}
+
+const STATUS_FILTERS: Record<ProposalStatusFilter, string> = {
+  deposit_period: 'PROPOSAL_STATUS_DEPOSIT_PERIOD',
+  voting_period: 'PROPOSAL_STATUS_VOTING_PERIOD',
+  passed: 'PROPOSAL_STATUS_PASSED',
+  rejected: 'PROPOSAL_STATUS_REJECTED',
+  failed: 'PROPOSAL_STATUS_FAILED',
+};
+
+const VOTE_OPTION_NAMES: Record<string, WeightedVoteOption['option']> = {
+  '0': 'unspecified',
+  '1': 'yes',
+  '2': 'abstain',
+  '3': 'no',
+  '4': 'no_with_veto',
+  VOTE_OPTION_UNSPECIFIED: 'unspecified',
+  VOTE_OPTION_YES: 'yes',
+  VOTE_OPTION_ABSTAIN: 'abstain',
+  VOTE_OPTION_NO: 'no',
+  VOTE_OPTION_NO_WITH_VETO: 'no_with_veto',
+};
+
+// A voter may vote several times while the period is open; only the latest vote counts
+const LATEST_VOTES_SQL = (filter: string) => `
+  SELECT DISTINCT ON (e.attributes ->> 'proposal_id', e.attributes ->> 'voter')
+         e.attributes ->> 'proposal_id' AS proposal_id,
+         e.attributes ->> 'voter' AS voter,
+         e.attributes ->> 'option' AS option,
+         t.tx_hash,
+         t.height,
+         t.block_time
+  FROM events e
+  JOIN transactions t ON t.tx_hash = e.tx_hash
+  WHERE e.event_type = 'proposal_vote'
+    AND t.code = 0
+    AND ${filter}
+  ORDER BY e.attributes ->> 'proposal_id', e.attributes ->> 'voter', t.height DESC, t.tx_index DESC
+`;
+
+@Injectable()
+export class GovernanceService {
+  private readonly logger = new Logger(GovernanceService.name);
+
+  constructor(
+    private readonly accountsService: AccountsService,
+    private readonly blockchainService: BlockchainService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly validatorsService: ValidatorsService,
+  ) {}
+
+  async getProposals(query: ProposalsQueryDto): Promise<ProposalsResponse | { error: string }> {
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    try {
+      const response = await this.blockchainService.getFromApi<Record<string, any>>(
+        '/cosmos/gov/v1/proposals',
+        {
+          params: {
+            ...(query.status ? { proposal_status: STATUS_FILTERS[query.status] } : {}),
+            'pagination.limit': limit,
+            'pagination.offset': offset,
+            'pagination.reverse': true,
+            'pagination.count_total': true,
+          },
+        },
+      );
+
+      if (response.status !== 200 || !response.data) {
+        return { error: `Failed to fetch proposals: HTTP ${response.status}` };
+      }
+
+      const proposals = (response.data.proposals ?? []) as Record<string, any>[];
+
+      return {
+        data: proposals.map(proposal => this.toSummary(proposal)),
+        total_count: Number(response.data.pagination?.total ?? proposals.length),
+        limit,
+        offset,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch proposals: ${message}`);
+      return { error: message };
+    }
+  }
+
+  async getProposal(id: string): Promise<ProposalDetail | { error: string }> {
+    if (!/^\d+$/.test(id)) {
+      return { error: 'Invalid proposal id' };
+    }
+
+    try {
+      const [proposalResponse, depositParams, tallyParams, pool] = await Promise.all([
+        this.blockchainService.getFromApi<Record<string, any>>(`/cosmos/gov/v1/proposals/${id}`),
+        this.blockchainService.getFromApi<Record<string, any>>('/cosmos/gov/v1/params/deposit'),
+        this.blockchainService.getFromApi<Record<string, any>>('/cosmos/gov/v1/params/tallying'),
+        this.blockchainService.getFromApi<Record<string, any>>('/cosmos/staking/v1beta1/pool'),
+      ]);
+
+      if (this.isProposalNotFound(proposalResponse)) {
+        return { error: `Proposal ${id} not found` };
+      }
+      if (proposalResponse.status !== 200 || !proposalResponse.data?.proposal) {
+        return { error: `Failed to fetch proposal: HTTP ${proposalResponse.status}` };
+      }
+
+      const proposal = proposalResponse.data.proposal as Record<string, any>;
+      const summary = this.toSummary(proposal);
+      const votingOpen = summary.status === 'PROPOSAL_STATUS_VOTING_PERIOD';
+
+      let tally = summary.final_tally_result;
+      if (votingOpen) {
+        const liveTally = await this.blockchainService.getFromApi<Record<string, any>>(
+          `/cosmos/gov/v1/proposals/${id}/tally`,
+        );
+        if (liveTally.status === 200 && liveTally.data?.tally) {
+          tally = this.toTally(liveTally.data.tally);
+        }
+      }
+
+      const params = (
+        depositParams.status === 200
+          ? (depositParams.data?.params ?? depositParams.data?.deposit_params ?? {})
+          : {}
+      ) as Record<string, any>;
+      const tallying = (
+        tallyParams.status === 200
+          ? (tallyParams.data?.params ?? tallyParams.data?.tally_params ?? {})
+          : {}
+      ) as Record<string, any>;
+      const minDeposit = (
+        summary.expedited
+          ? (params.expedited_min_deposit ?? params.min_deposit)
+          : params.min_deposit
+      ) as Coin[] | undefined;
+
+      const yes = BigInt(tally.yes);
+      const no = BigInt(tally.no);
+      const veto = BigInt(tally.no_with_veto);
+      const totalVoted = yes + no + veto + BigInt(tally.abstain);
+      const nonAbstain = yes + no + veto;
+      const bonded = Number(pool.status === 200 ? (pool.data?.pool?.bonded_tokens ?? 0) : 0);
+
+      const now = Date.now();
+      const start = summary.voting_start_time ? Date.parse(summary.voting_start_time) : NaN;
+      const end = summary.voting_end_time ? Date.parse(summary.voting_end_time) : NaN;
+      const state =
+        !Number.isFinite(start) || now < start ? 'not_started' : now < end ? 'active' : 'ended';
+
+      return {
+        ...summary,
+        metadata: proposal.metadata ?? '',
+        messages: ((proposal.messages ?? []) as Record<string, any>[]).map(message =>
+          this.decodeMessage(message),
+        ),
+        deposit: {
+          total: summary.total_deposit,
+          min_deposit: minDeposit ?? [],
+          deposit_end_time: summary.deposit_end_time,
+          met: this.depositMet(summary.total_deposit, minDeposit ?? []),
+        },
+        tally: {
+          ...tally,
+          source: votingOpen ? 'live' : 'final',
+          total_voted: totalVoted.toString(),
+          turnout: bonded > 0 ? Number((Number(totalVoted) / bonded).toFixed(6)) : null,
+          yes_ratio: nonAbstain > 0n ? Number((Number(yes) / Number(nonAbstain)).toFixed(6)) : null,
+          no_with_veto_ratio:
+            totalVoted > 0n ? Number((Number(veto) / Number(totalVoted)).toFixed(6)) : null,
+          quorum: tallying.quorum ?? null,
+          threshold: tallying.threshold ?? null,
+          veto_threshold: tallying.veto_threshold ?? null,
+        },
+        voting_period: {
+          state,
+          start_time: summary.voting_start_time,
+          end_time: summary.voting_end_time,
+          remaining_seconds: state === 'active' ? Math.floor((end - now) / 1000) : null,
+        },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch proposal ${id}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Latest vote per voter from indexed proposal_vote events. Votes cast by a validator's own
+   * account are flagged and also listed in full under `validator_votes`.
+   */
+  async getProposalVotes(
+    id: string,
+    query: ProposalVotesQueryDto,
+  ): Promise<ProposalVotesResponse | { error: string }> {
+    if (!/^\d+$/.test(id)) {
+      return { error: 'Invalid proposal id' };
+    }
+
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    try {
+      const [proposalResponse, monikers] = await Promise.all([
+        this.blockchainService.getFromApi<Record<string, any>>(`/cosmos/gov/v1/proposals/${id}`),
+        this.validatorsService.getValidatorMonikers(),
+      ]);
+      if (this.isProposalNotFound(proposalResponse)) {
+        return { error: `Proposal ${id} not found` };
+      }
+      if (proposalResponse.status !== 200) {
+        return { error: `Failed to fetch proposal: HTTP ${proposalResponse.status}` };
+      }
+
+      const validatorAccounts = new Map<string, string>();
+      for (const operatorAddress of monikers.keys()) {
+        const accountAddress = toAccountAddress(operatorAddress);
+        if (accountAddress) {
+          validatorAccounts.set(accountAddress, operatorAddress);
+        }
+      }
+
+      const params: Array<string | number | string[]> = [id];
+      let optionFilter = '';
+      if (query.option) {
+        params.push(this.voteOptionPattern(query.option));
+        optionFilter = `WHERE votes.option ~ $${params.length}`;
+      }
+
+      const [result, validatorResult] = await Promise.all([
+        this.zigscanPostgresService.query<VoteRow & { total_count: string }>(
+          `
+            SELECT votes.*, COUNT(*) OVER () AS total_count
+            FROM (${LATEST_VOTES_SQL(`e.attributes ->> 'proposal_id' = $1`)}) votes
+            ${optionFilter}
+            ORDER BY height DESC, tx_hash
+            LIMIT $${params.length + 1}
+            OFFSET $${params.length + 2}
+          `,
+          [...params, limit, offset],
+        ),
+        this.zigscanPostgresService.query<VoteRow>(
+          `
+            SELECT votes.*
+            FROM (${LATEST_VOTES_SQL(`e.attributes ->> 'proposal_id' = $1`)}) votes
+            WHERE votes.voter = ANY($2::text[])
+            ORDER BY height DESC, tx_hash
+          `,
+          [id, [...validatorAccounts.keys()]],
+        ),
+      ]);
+
+      const toVote = (row: VoteRow): ProposalVote => {
+        const operatorAddress = validatorAccounts.get(row.voter) ?? null;
+        return {
+          voter: row.voter,
+          options: this.parseVoteOptions(row.option),
+          tx_hash: row.tx_hash,
+          height: Number(row.height),
+          block_time: new Date(row.block_time).toISOString(),
+          is_validator: operatorAddress !== null,
+          validator_address: operatorAddress,
+          validator_moniker: operatorAddress ? (monikers.get(operatorAddress) ?? null) : null,
+        };
+      };
+
+      return {
+        proposal_id: id,
+        validator_votes: validatorResult.rows
+          .map(toVote)
+          .filter(
+            vote => !query.option || vote.options.some(option => option.option === query.option),
+          ),
+        data: result.rows.map(toVote),
+        total_count: Number(result.rows[0]?.total_count ?? 0),
+        limit,
+        offset,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch votes for proposal ${id}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  async getAccountVotes(
+    address: string,
+    query: PaginationQueryDto,
+  ): Promise<AccountVotesResponse | { error: string }> {
+    const validationError = this.accountsService.validateAddress(address);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    try {
+      const result = await this.zigscanPostgresService.query<VoteRow & { total_count: string }>(
+        `
+          SELECT votes.*, COUNT(*) OVER () AS total_count
+          FROM (
+              ${LATEST_VOTES_SQL(`e.tx_hash IN (
+                  SELECT tx_hash FROM address_transactions WHERE address = $1
+              ) AND e.attributes ->> 'voter' = $1`)}
+          ) votes
+          ORDER BY proposal_id::bigint DESC
+          LIMIT $2
+          OFFSET $3
+        `,
+        [address, limit, offset],
+      );
+
+      return {
+        address,
+        data: result.rows.map(row => ({
+          proposal_id: row.proposal_id,
+          options: this.parseVoteOptions(row.option),
+          tx_hash: row.tx_hash,
+          height: Number(row.height),
+          block_time: new Date(row.block_time).toISOString(),
+        })),
+        total_count: Number(result.rows[0]?.total_count ?? 0),
+        limit,
+        offset,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch votes for ${address}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private toSummary(proposal: Record<string, any>): ProposalSummary {
+    const messages = (proposal.messages ?? []) as Record<string, any>[];
+    // Legacy content proposals keep their title inside the wrapped content
+    const legacyContent = messages.find(message => message.content)?.content ?? {};
+
+    return {
+      id: String(proposal.id),
+      title: proposal.title || legacyContent.title || '',
+      summary: proposal.summary || legacyContent.description || '',
+      status: proposal.status,
+      proposer: proposal.proposer || null,
+      expedited: Boolean(proposal.expedited),
+      message_types: messages.map(message => message['@type']),
+      submit_time: proposal.submit_time,
+      deposit_end_time: proposal.deposit_end_time,
+      voting_start_time: proposal.voting_start_time ?? null,
+      voting_end_time: proposal.voting_end_time ?? null,
+      total_deposit: proposal.total_deposit ?? [],
+      final_tally_result: this.toTally(proposal.final_tally_result),
+    };
+  }
+
+  private toTally(tally: Record<string, string> | null | undefined): TallyResult {
+    return {
+      yes: tally?.yes_count ?? tally?.yes ?? '0',
+      abstain: tally?.abstain_count ?? tally?.abstain ?? '0',
+      no: tally?.no_count ?? tally?.no ?? '0',
+      no_with_veto: tally?.no_with_veto_count ?? tally?.no_with_veto ?? '0',
+    };
+  }
+
+  private decodeMessage(message: Record<string, any>): DecodedProposalMessage {
+    const type = message['@type'] ?? 'unknown';
+    const { '@type': _type, ...content } = message;
+    const typeLabel = type.split('.').pop() ?? type;
+    let summary = typeLabel;
+
+    switch (type) {
+      case '/cosmos.gov.v1.MsgExecLegacyContent':
+        summary = `Legacy ${(message.content?.['@type'] ?? 'content').split('.').pop()}: ${message.content?.title ?? ''}`;
+        break;
+      case '/cosmos.upgrade.v1beta1.MsgSoftwareUpgrade':
+        summary = `Upgrade "${message.plan?.name}" at height ${message.plan?.height}`;
+        break;
+      case '/cosmos.upgrade.v1beta1.MsgCancelUpgrade':
+        summary = 'Cancel the scheduled software upgrade';
+        break;
+      case '/cosmos.distribution.v1beta1.MsgCommunityPoolSpend':
+        summary = `Spend ${((message.amount ?? []) as Coin[])
+          .map(coin => `${coin.amount}${coin.denom}`)
+          .join(', ')} from the community pool to ${message.recipient}`;
+        break;
+      default:
+        if (typeLabel === 'MsgUpdateParams') {
+          summary = `Update ${type.split('.')[1] ?? 'module'} parameters`;
+        }
+    }
+
+    return { type, type_label: typeLabel, summary, content };
+  }
+
+  private depositMet(total: Coin[], minimum: Coin[]): boolean {
+    return minimum.every(required => {
+      const deposited = total.find(coin => coin.denom === required.denom);
+      return deposited ? BigInt(deposited.amount) >= BigInt(required.amount) : false;
+    });
+  }
+
+  // Unknown ids come back as a gRPC NotFound wrapped in a 400 on some LCD versions
+  private isProposalNotFound(response: { status: number; data?: Record<string, any> }): boolean {
+    return (
+      response.status === 404 || String(response.data?.message ?? '').includes("doesn't exist")
+    );
+  }
+
+  /**
+   * Postgres regex matching an option attribute, in any of the formats `parseVoteOptions`
+   * reads, that includes `option`
+   */
+  private voteOptionPattern(option: VoteOptionFilter): string {
+    const codes = Object.keys(VOTE_OPTION_NAMES).filter(key => VOTE_OPTION_NAMES[key] === option);
+    const names = codes.filter(code => !/^\d+$/.test(code));
+    return `"option":\\s*"?(${codes.join('|')})"?\\s*[,}]|(^|[\\s:])(${names.join('|')})(\\s|$)`;
+  }
+
+  /**
+   * The option attribute is a JSON array of weighted options on SDK 0.50+, and a
+   * `option:VOTE_OPTION_YES weight:"1.0"` string on earlier versions.
+   */
+  private parseVoteOptions(raw: string | null): WeightedVoteOption[] {
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        return parsed.map(entry => ({
+          option: VOTE_OPTION_NAMES[String(entry.option)] ?? 'unspecified',
+          weight: String(entry.weight ?? '1'),
+        }));
+      }
+    } catch {
+      // Fall through to the text format
+    }
+
+    const options: WeightedVoteOption[] = [];
+    for (const match of raw.matchAll(/option:\s*(\w+)\s+weight:\s*"?([\d.]+)"?/g)) {
+      options.push({ option: VOTE_OPTION_NAMES[match[1]] ?? 'unspecified', weight: match[2] });
+    }
+    if (options.length === 0 && VOTE_OPTION_NAMES[raw.trim()]) {
+      options.push({ option: VOTE_OPTION_NAMES[raw.trim()], weight: '1.000000000000000000' });
+    }
+    return options;
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export const PACKET_DIRECTIONS = ['outbound', 'inbound'] as const;
+export type PacketDirection = (typeof PACKET_DIRECTIONS)[number];
+
+export class PacketLifecycleQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'outbound: the packet was sent from this chain over the channel; inbound: it was received on it',
+    enum: PACKET_DIRECTIONS,
+    default: 'outbound',
+  })
+  @IsOptional()
+  @IsIn(PACKET_DIRECTIONS)
+  direction: PacketDirection = 'outbound';
+}
@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+
+export class RelayerLeaderboardQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of days to rank over, counting back from now',
+    default: 30,
+    minimum: 1,
+    maximum: 90,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  days = 30;
+
+  @ApiPropertyOptional({ description: 'Number of relayers to return', default: 20, maximum: 100 })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+
+  @ApiPropertyOptional({ description: 'Only count packets relayed on this channel of this chain' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^channel-\d+$/)
+  channel?: string;
+}
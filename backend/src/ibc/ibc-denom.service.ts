@@ -0,0 +1,292 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import axios from 'axios';
+import { Repository } from 'typeorm';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { IbcDenomTrace } from '../database/entities/ibc-denom-trace.entity';
+import { IbcService } from './ibc.service';
+
+export interface ResolvedIbcDenom {
+  denom: string;
+  hash: string;
+  path: string;
+  base_denom: string;
+  channel_id: string | null;
+  hops: number;
+  origin_chain_id: string | null;
+  origin_chain_name: string | null;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  image_url: string | null;
+  description: string | null;
+  metadata_resolved: boolean;
+}
+
+interface RegistryAsset {
+  base: string;
+  name?: string;
+  display?: string;
+  symbol?: string;
+  description?: string;
+  logo_URIs?: { png?: string; svg?: string };
+  images?: Array<{ png?: string; svg?: string }>;
+  denom_units?: Array<{ denom: string; exponent: number }>;
+  traces?: Array<{
+    type?: string;
+    counterparty?: { chain_name?: string; base_denom?: string; channel_id?: string };
+    chain?: { channel_id?: string; path?: string };
+  }>;
+}
+
+const REGISTRY_BASE_URL = 'https://raw.githubusercontent.com/cosmos/chain-registry/master';
+const HOME_CHAIN_NAME = 'zigchain';
+
+/**
+ * Resolves `ibc/<hash>` denoms to their trace and origin chain, and pulls symbol, decimals and
+ * logo from the origin chain's chain-registry asset list. Resolutions are stored in
+ * ibc_denom_traces so each hash only hits the LCD and the registry once.
+ */
+@Injectable()
+export class IbcDenomService {
+  private readonly logger = new Logger(IbcDenomService.name);
+  private readonly REGISTRY_TTL_MS = 6 * 60 * 60 * 1000;
+  // How long a trace without registry metadata is served before the registry is asked again
+  private readonly UNRESOLVED_RETRY_MS = 6 * 60 * 60 * 1000;
+  private readonly registryFiles = new Map<string, { data: any; fetchedAt: number }>();
+  private readonly pending = new Map<string, Promise<ResolvedIbcDenom | null>>();
+
+  constructor(
+    @InjectRepository(IbcDenomTrace)
+    private readonly traceRepository: Repository<IbcDenomTrace>,
+    private readonly blockchainService: BlockchainService,
+    private readonly ibcService: IbcService,
+  ) {}
+
+  /**
+   * Returns null for non-IBC denoms and for hashes the chain does not know
+   */
+  async resolve(denom: string): Promise<ResolvedIbcDenom | null> {
+    const match = /^ibc\/([0-9a-f]{64})$/i.exec(denom);
+    if (!match) {
+      return null;
+    }
+
+    const hash = match[1].toUpperCase();
+    // Balances often list the same voucher for many accounts at once; share one lookup
+    const inFlight = this.pending.get(hash);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const lookup = this.resolveHash(hash).finally(() => this.pending.delete(hash));
+    this.pending.set(hash, lookup);
+    return lookup;
+  }
+
+  private async resolveHash(hash: string): Promise<ResolvedIbcDenom | null> {
+    const stored = await this.traceRepository.findOne({ where: { hash } });
+    if (
+      stored &&
+      (stored.metadataResolved ||
+        Date.now() - stored.updatedAt.getTime() < this.UNRESOLVED_RETRY_MS)
+    ) {
+      return this.toResolved(stored);
+    }
+
+    const trace = stored
+      ? { path: stored.path, baseDenom: stored.baseDenom }
+      : await this.fetchTrace(hash);
+    if (!trace) {
+      return null;
+    }
+
+    const hops = this.parseHops(trace.path);
+    const channelId = hops[0]?.channelId ?? null;
+    const originChainId = hops.length === 1 ? await this.getCounterpartyChainId(channelId) : null;
+    const originChainName =
+      hops.length === 1 ? await this.findChainName(channelId, originChainId) : null;
+    const asset = originChainName
+      ? await this.findRegistryAsset(originChainName, trace.baseDenom)
+      : null;
+
+    const entity = this.traceRepository.create({
+      hash,
+      path: trace.path,
+      baseDenom: trace.baseDenom,
+      channelId,
+      originChainId,
+      originChainName,
+      ...this.toMetadata(asset),
+      metadataResolved: Boolean(asset),
+    });
+    // updatedAt only moves on actual changes, so touch it to restart the retry window
+    entity.updatedAt = new Date();
+    const saved = await this.traceRepository.save(entity);
+    return this.toResolved(saved);
+  }
+
+  /**
+   * `/denom_traces` is the ibc-go v7 route; v8+ serves the same data as `/denoms`
+   */
+  private async fetchTrace(hash: string): Promise<{ path: string; baseDenom: string } | null> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/ibc/apps/transfer/v1/denom_traces/${hash}`,
+    );
+    if (response.status === 200 && response.data?.denom_trace) {
+      return {
+        path: response.data.denom_trace.path ?? '',
+        baseDenom: response.data.denom_trace.base_denom,
+      };
+    }
+
+    const fallback = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/ibc/apps/transfer/v1/denoms/${hash}`,
+    );
+    if (fallback.status === 200 && fallback.data?.denom) {
+      const trace = (fallback.data.denom.trace ?? []) as Array<{
+        port_id: string;
+        channel_id: string;
+      }>;
+      return {
+        path: trace.map(hop => `${hop.port_id}/${hop.channel_id}`).join('/'),
+        baseDenom: fallback.data.denom.base,
+      };
+    }
+
+    if (response.status !== 404 && response.status !== 400) {
+      throw new Error(`Failed to fetch denom trace ${hash}: HTTP ${response.status}`);
+    }
+    return null;
+  }
+
+  private parseHops(path: string): Array<{ portId: string; channelId: string }> {
+    const segments = path ? path.split('/') : [];
+    const hops: Array<{ portId: string; channelId: string }> = [];
+    for (let index = 0; index + 1 < segments.length; index += 2) {
+      hops.push({ portId: segments[index], channelId: segments[index + 1] });
+    }
+    return hops;
+  }
+
+  private async getCounterpartyChainId(channelId: string | null): Promise<string | null> {
+    if (!channelId) {
+      return null;
+    }
+    const topology = await this.ibcService.getTopology();
+    if ('error' in topology) {
+      return null;
+    }
+    const channel = topology.channels.find(item => item.channel_id === channelId);
+    return channel?.counterparty_chain_id ?? null;
+  }
+
+  /**
+   * Chain-registry directory name of the counterparty. The home chain's own IBC asset traces
+   * are authoritative; otherwise the name is guessed from the chain ID (`osmosis-1` ->
+   * `osmosis`) and accepted only if that registry entry reports the same chain ID.
+   */
+  private async findChainName(
+    channelId: string | null,
+    chainId: string | null,
+  ): Promise<string | null> {
+    const homeAssets = await this.getRegistryAssets(HOME_CHAIN_NAME);
+    for (const asset of homeAssets) {
+      const trace = asset.traces?.find(
+        item => item.type === 'ibc' && item.chain?.channel_id === channelId,
+      );
+      if (trace?.counterparty?.chain_name) {
+        return trace.counterparty.chain_name;
+      }
+    }
+
+    if (!chainId) {
+      return null;
+    }
+    const candidate = chainId.replace(/-\d+$/, '');
+    const chain = await this.getRegistryFile(`${candidate}/chain.json`);
+    return chain?.chain_id === chainId ? candidate : null;
+  }
+
+  private async findRegistryAsset(
+    chainName: string,
+    baseDenom: string,
+  ): Promise<RegistryAsset | null> {
+    const assets = await this.getRegistryAssets(chainName);
+    return assets.find(asset => asset.base === baseDenom) ?? null;
+  }
+
+  private async getRegistryAssets(chainName: string): Promise<RegistryAsset[]> {
+    const assetList = await this.getRegistryFile(`${chainName}/assetlist.json`);
+    return Array.isArray(assetList?.assets) ? (assetList.assets as RegistryAsset[]) : [];
+  }
+
+  private async getRegistryFile(path: string): Promise<any | null> {
+    const cached = this.registryFiles.get(path);
+    if (cached && Date.now() - cached.fetchedAt < this.REGISTRY_TTL_MS) {
+      return cached.data;
+    }
+
+    try {
+      const response = await axios.get(`${REGISTRY_BASE_URL}/${path}`, {
+        validateStatus: () => true,
+        timeout: 15000,
+      });
+      // Missing files are cached too, so unknown chains are not requested on every lookup
+      const data = response.status === 200 ? response.data : null;
+      if (response.status !== 200 && response.status !== 404) {
+        this.logger.warn(`Failed to fetch chain-registry ${path}: HTTP ${response.status}`);
+        return cached?.data ?? null;
+      }
+      this.registryFiles.set(path, { data, fetchedAt: Date.now() });
+      return data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to fetch chain-registry ${path}: ${message}`);
+      return cached?.data ?? null;
+    }
+  }
+
+  private toMetadata(asset: RegistryAsset | null) {
+    if (!asset) {
+      return { name: null, symbol: null, decimals: null, imageUrl: null, description: null };
+    }
+
+    const units = asset.denom_units ?? [];
+    const displayUnit = units.find(unit => unit.denom === asset.display);
+    const decimals =
+      displayUnit?.exponent ?? units.reduce((max, unit) => Math.max(max, unit.exponent), 0);
+
+    return {
+      name: asset.name ?? null,
+      symbol: asset.symbol ?? null,
+      decimals,
+      imageUrl:
+        asset.logo_URIs?.png ||
+        asset.logo_URIs?.svg ||
+        asset.images?.[0]?.png ||
+        asset.images?.[0]?.svg ||
+        null,
+      description: asset.description ?? null,
+    };
+  }
+
+  private toResolved(trace: IbcDenomTrace): ResolvedIbcDenom {
+    return {
+      denom: `ibc/${trace.hash}`,
+      hash: trace.hash,
+      path: trace.path,
+      base_denom: trace.baseDenom,
+      channel_id: trace.channelId,
+      hops: this.parseHops(trace.path).length,
+      origin_chain_id: trace.originChainId,
+      origin_chain_name: trace.originChainName,
+      name: trace.name,
+      symbol: trace.symbol,
+      decimals: trace.decimals,
+      image_url: trace.imageUrl,
+      description: trace.description,
+      metadata_resolved: trace.metadataResolved,
+    };
+  }
+}
@@ -0,0 +1,526 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { ChannelVolumeQueryDto } from './dto/channel-volume-query.dto';
+import { PacketDirection } from './dto/packet-lifecycle-query.dto';
+import { RelayerLeaderboardQueryDto } from './dto/relayer-leaderboard-query.dto';
+import { IbcService } from './ibc.service';
+
+export interface FungibleTokenPacketData {
+  denom: string;
+  amount: string;
+  sender: string;
+  receiver: string;
+  memo?: string;
+}
+
+export interface ChannelVolumeDirection {
+  packets: number;
+  unique_senders: number;
+  unique_receivers: number;
+  // Denoms as written in the packet, i.e. the trace path on the sending chain
+  by_denom: Array<{ denom: string; amount: string; transfers: number }>;
+}
+
+export interface ChannelVolume {
+  port_id: string;
+  channel_id: string;
+  counterparty_chain_id: string | null;
+  from: string;
+  to: string;
+  outbound: ChannelVolumeDirection;
+  inbound: ChannelVolumeDirection;
+  daily: Array<{ date: string; outbound_packets: number; inbound_packets: number }>;
+}
+
+export type PacketStage = 'send' | 'receive' | 'write_ack' | 'acknowledge' | 'timeout';
+
+export interface PacketLifecycle {
+  direction: PacketDirection;
+  sequence: string;
+  source: { port_id: string; channel_id: string };
+  destination: { port_id: string; channel_id: string };
+  // Outbound: pending until acknowledged or timed out here. Inbound: received once recv_packet
+  // is indexed; ack_error when the written acknowledgement carries an error.
+  status: 'pending' | 'received' | 'acknowledged' | 'ack_error' | 'timed_out';
+  transfer: FungibleTokenPacketData | null;
+  timeout_height: string | null;
+  timeout_timestamp: string | null;
+  ack_error: string | null;
+  steps: Array<{
+    stage: PacketStage;
+    tx_hash: string;
+    height: number;
+    block_time: string;
+    relayer: string | null;
+  }>;
+}
+
+export interface RelayerLeaderboard {
+  from: string;
+  to: string;
+  channel: string | null;
+  relayers: Array<{
+    relayer: string;
+    total_packets: number;
+    received: number;
+    acknowledged: number;
+    timed_out: number;
+    transactions: number;
+    channels: string[];
+    last_active: string;
+  }>;
+}
+
+interface PacketEventRow {
+  tx_hash: string;
+  height: number;
+  block_time: Date | string;
+  event_type: string;
+  attributes: Record<string, string>;
+  relayer: string | null;
+  ack_error: string | null;
+}
+
+const STAGES: Record<string, PacketStage> = {
+  send_packet: 'send',
+  recv_packet: 'receive',
+  write_acknowledgement: 'write_ack',
+  acknowledge_packet: 'acknowledge',
+  timeout_packet: 'timeout',
+};
+
+// Events recorded on this chain when it is the sending side of a packet; the rest belong to
+// packets it receives
+const OUTBOUND_EVENT_TYPES = ['send_packet', 'acknowledge_packet', 'timeout_packet'];
+
+// Relayers pay for the transactions they submit, so the fee payer identifies them
+const RELAYER_SQL = (txAlias: string) => `
+  (SELECT f.attributes ->> 'fee_payer'
+   FROM events f
+   WHERE f.tx_hash = ${txAlias}.tx_hash
+     AND f.event_type = 'tx'
+     AND f.attributes ? 'fee_payer'
+   LIMIT 1)
+`;
+
+@Injectable()
+export class IbcTransfersService {
+  private readonly logger = new Logger(IbcTransfersService.name);
+  private readonly MAX_TX_PACKETS = 50;
+
+  constructor(
+    private readonly ibcService: IbcService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+  ) {}
+
+  /**
+   * ICS-20 transfer volume over one channel of this chain, split by direction and denom
+   */
+  async getChannelVolume(
+    portId: string,
+    channelId: string,
+    query: ChannelVolumeQueryDto,
+  ): Promise<ChannelVolume | { error: string }> {
+    const channel = await this.ibcService.getChannel(portId, channelId);
+    if ('error' in channel) {
+      return channel;
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - (query.days ?? 30) * 24 * 60 * 60 * 1000);
+
+    try {
+      const directions = {
+        outbound: this.emptyTotals(),
+        inbound: this.emptyTotals(),
+      };
+      const daily = new Map<string, { outbound_packets: number; inbound_packets: number }>();
+
+      const sql = `
+        SELECT t.block_time,
+               e.event_type,
+               e.attributes ->> 'packet_data' AS packet_data,
+               e.attributes ->> 'packet_data_hex' AS packet_data_hex
+        FROM events e
+        JOIN transactions t ON t.tx_hash = e.tx_hash
+        WHERE t.block_time >= $3
+          AND t.code = 0
+          AND (
+              (e.event_type = 'send_packet'
+                  AND e.attributes ->> 'packet_src_port' = $1
+                  AND e.attributes ->> 'packet_src_channel' = $2)
+              OR (e.event_type = 'recv_packet'
+                  AND e.attributes ->> 'packet_dst_port' = $1
+                  AND e.attributes ->> 'packet_dst_channel' = $2)
+          )
+      `;
+
+      for await (const batch of this.zigscanPostgresService.stream<{
+        block_time: Date | string;
+        event_type: string;
+        packet_data: string | null;
+        packet_data_hex: string | null;
+      }>(sql, [portId, channelId, from])) {
+        for (const row of batch) {
+          const direction = row.event_type === 'send_packet' ? 'outbound' : 'inbound';
+          const totals = directions[direction];
+          totals.packets += 1;
+
+          const date = new Date(row.block_time).toISOString().slice(0, 10);
+          const day = daily.get(date) ?? { outbound_packets: 0, inbound_packets: 0 };
+          day[`${direction}_packets`] += 1;
+          daily.set(date, day);
+
+          const data = this.parsePacketData(row.packet_data, row.packet_data_hex);
+          if (!data || !/^\d+$/.test(data.amount)) {
+            continue;
+          }
+          totals.senders.add(data.sender);
+          totals.receivers.add(data.receiver);
+          const denom = totals.denoms.get(data.denom) ?? { amount: 0n, transfers: 0 };
+          denom.amount += BigInt(data.amount);
+          denom.transfers += 1;
+          totals.denoms.set(data.denom, denom);
+        }
+      }
+
+      return {
+        port_id: portId,
+        channel_id: channelId,
+        counterparty_chain_id: channel.counterparty_chain_id,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        outbound: this.summarizeTotals(directions.outbound),
+        inbound: this.summarizeTotals(directions.inbound),
+        daily: [...daily.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, counts]) => ({ date, ...counts })),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to compute volume for ${portId}/${channelId}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Every indexed step of one packet, identified by the channel end on this chain and the
+   * packet sequence. Steps that happen on the counterparty chain are not visible here.
+   */
+  async getPacketLifecycle(
+    portId: string,
+    channelId: string,
+    sequence: string,
+    direction: PacketDirection,
+  ): Promise<PacketLifecycle | { error: string }> {
+    if (!/^\d+$/.test(sequence)) {
+      return { error: 'Invalid packet sequence' };
+    }
+
+    try {
+      const side = direction === 'outbound' ? 'src' : 'dst';
+      const eventTypes = Object.keys(STAGES).filter(
+        eventType => OUTBOUND_EVENT_TYPES.includes(eventType) === (direction === 'outbound'),
+      );
+
+      const result = await this.zigscanPostgresService.query<PacketEventRow>(
+        `
+          SELECT t.tx_hash,
+                 t.height,
+                 t.block_time,
+                 e.event_type,
+                 e.attributes,
+                 ${RELAYER_SQL('t')} AS relayer,
+                 (SELECT a.attributes ->> 'error'
+                  FROM events a
+                  WHERE a.tx_hash = t.tx_hash
+                    AND a.event_type = 'fungible_token_packet'
+                    AND a.attributes ? 'error'
+                  LIMIT 1) AS ack_error
+          FROM events e
+          JOIN transactions t ON t.tx_hash = e.tx_hash
+          WHERE e.event_type = ANY($4)
+            AND e.attributes ->> 'packet_${side}_port' = $1
+            AND e.attributes ->> 'packet_${side}_channel' = $2
+            AND e.attributes ->> 'packet_sequence' = $3
+            AND t.code = 0
+          ORDER BY t.height, t.tx_index
+        `,
+        [portId, channelId, sequence, eventTypes],
+      );
+
+      if (result.rows.length === 0) {
+        return {
+          error: `Packet ${sequence} not found for ${direction} channel ${portId}/${channelId}`,
+        };
+      }
+
+      return this.buildLifecycle(direction, sequence, result.rows);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Failed to fetch packet ${portId}/${channelId}/${sequence} lifecycle: ${message}`,
+      );
+      return { error: message };
+    }
+  }
+
+  /**
+   * Lifecycles of every packet sent or received by a transaction
+   */
+  async getTransactionPackets(
+    txHash: string,
+  ): Promise<{ tx_hash: string; packets: PacketLifecycle[] } | { error: string }> {
+    const normalized = txHash.toUpperCase();
+    if (!/^[0-9A-F]{64}$/.test(normalized)) {
+      return { error: 'Invalid transaction hash' };
+    }
+
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        event_type: string;
+        attributes: Record<string, string>;
+      }>(
+        `
+          SELECT event_type, attributes
+          FROM events
+          WHERE tx_hash = $1
+            AND event_type = ANY($2)
+          LIMIT $3
+        `,
+        [normalized, Object.keys(STAGES), this.MAX_TX_PACKETS],
+      );
+
+      const seen = new Set<string>();
+      const packets: PacketLifecycle[] = [];
+      for (const row of result.rows) {
+        const direction: PacketDirection = OUTBOUND_EVENT_TYPES.includes(row.event_type)
+          ? 'outbound'
+          : 'inbound';
+        const side = direction === 'outbound' ? 'src' : 'dst';
+        const portId = row.attributes?.[`packet_${side}_port`];
+        const channelId = row.attributes?.[`packet_${side}_channel`];
+        const sequence = row.attributes?.packet_sequence;
+        const key = `${direction}/${portId}/${channelId}/${sequence}`;
+        if (!portId || !channelId || !sequence || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        const lifecycle = await this.getPacketLifecycle(portId, channelId, sequence, direction);
+        if ('error' in lifecycle) {
+          return lifecycle;
+        }
+        packets.push(lifecycle);
+      }
+
+      if (packets.length === 0) {
+        return { error: `No IBC packets found in transaction ${normalized}` };
+      }
+      return { tx_hash: normalized, packets };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch IBC packets of ${normalized}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Relayers ranked by packets delivered to this chain (recv) and acknowledgements / timeouts
+   * relayed back to it
+   */
+  async getRelayerLeaderboard(
+    query: RelayerLeaderboardQueryDto,
+  ): Promise<RelayerLeaderboard | { error: string }> {
+    const to = new Date();
+    const from = new Date(to.getTime() - (query.days ?? 30) * 24 * 60 * 60 * 1000);
+
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        relayer: string;
+        total_packets: string;
+        received: string;
+        acknowledged: string;
+        timed_out: string;
+        transactions: string;
+        channels: string[];
+        last_active: Date | string;
+      }>(
+        `
+          WITH relays AS (
+              SELECT t.tx_hash,
+                     t.block_time,
+                     e.event_type,
+                     CASE
+                         WHEN e.event_type = 'recv_packet' THEN e.attributes ->> 'packet_dst_channel'
+                         ELSE e.attributes ->> 'packet_src_channel'
+                     END AS channel_id
+              FROM events e
+              JOIN transactions t ON t.tx_hash = e.tx_hash
+              WHERE t.block_time >= $1
+                AND t.code = 0
+                AND e.event_type IN ('recv_packet', 'acknowledge_packet', 'timeout_packet')
+          ),
+          payers AS (
+              SELECT DISTINCT ON (r.tx_hash) r.tx_hash, ${RELAYER_SQL('r')} AS relayer
+              FROM relays r
+          )
+          SELECT p.relayer,
+                 COUNT(*) AS total_packets,
+                 COUNT(*) FILTER (WHERE r.event_type = 'recv_packet') AS received,
+                 COUNT(*) FILTER (WHERE r.event_type = 'acknowledge_packet') AS acknowledged,
+                 COUNT(*) FILTER (WHERE r.event_type = 'timeout_packet') AS timed_out,
+                 COUNT(DISTINCT r.tx_hash) AS transactions,
+                 array_agg(DISTINCT r.channel_id) AS channels,
+                 MAX(r.block_time) AS last_active
+          FROM relays r
+          JOIN payers p ON p.tx_hash = r.tx_hash
+          WHERE p.relayer IS NOT NULL
+            AND ($2::text IS NULL OR r.channel_id = $2)
+          GROUP BY p.relayer
+          ORDER BY total_packets DESC, last_active DESC
+          LIMIT $3
+        `,
+        [from, query.channel ?? null, query.limit ?? 20],
+      );
+
+      return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        channel: query.channel ?? null,
+        relayers: result.rows.map(row => ({
+          relayer: row.relayer,
+          total_packets: Number(row.total_packets),
+          received: Number(row.received),
+          acknowledged: Number(row.acknowledged),
+          timed_out: Number(row.timed_out),
+          transactions: Number(row.transactions),
+          channels: (row.channels ?? []).filter(Boolean).sort(),
+          last_active: new Date(row.last_active).toISOString(),
+        })),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to build relayer leaderboard: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private buildLifecycle(
+    direction: PacketDirection,
+    sequence: string,
+    rows: PacketEventRow[],
+  ): PacketLifecycle {
+    const first = rows[0].attributes ?? {};
+    const stages = new Set(rows.map(row => STAGES[row.event_type]));
+
+    // write_acknowledgement carries the ack itself; on the sending side the transfer module
+    // reports a failed ack through the fungible_token_packet event of the ack transaction
+    let ackError: string | null = null;
+    for (const row of rows) {
+      if (row.event_type === 'write_acknowledgement') {
+        ackError = this.parseAckError(row.attributes?.packet_ack);
+      } else if (row.event_type === 'acknowledge_packet' && row.ack_error) {
+        ackError = row.ack_error;
+      }
+    }
+
+    let status: PacketLifecycle['status'];
+    if (stages.has('timeout')) {
+      status = 'timed_out';
+    } else if (ackError) {
+      status = 'ack_error';
+    } else if (stages.has('acknowledge')) {
+      status = 'acknowledged';
+    } else if (stages.has('receive')) {
+      status = 'received';
+    } else {
+      status = 'pending';
+    }
+
+    return {
+      direction,
+      sequence,
+      source: { port_id: first.packet_src_port, channel_id: first.packet_src_channel },
+      destination: { port_id: first.packet_dst_port, channel_id: first.packet_dst_channel },
+      status,
+      transfer: this.parsePacketData(first.packet_data, first.packet_data_hex),
+      timeout_height: first.packet_timeout_height ?? null,
+      timeout_timestamp: first.packet_timeout_timestamp ?? null,
+      ack_error: ackError,
+      steps: rows.map(row => ({
+        stage: STAGES[row.event_type],
+        tx_hash: row.tx_hash,
+        height: Number(row.height),
+        block_time: new Date(row.block_time).toISOString(),
+        relayer: row.relayer,
+      })),
+    };
+  }
+
+  /**
+   * ICS-20 packet data; newer ibc-go versions may only emit the hex encoded form
+   */
+  private parsePacketData(
+    raw: string | null | undefined,
+    hex: string | null | undefined,
+  ): FungibleTokenPacketData | null {
+    const source = raw || (hex ? Buffer.from(hex, 'hex').toString('utf8') : null);
+    if (!source) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(source);
+      return parsed && typeof parsed.denom === 'string' && parsed.amount !== undefined
+        ? {
+            denom: parsed.denom,
+            amount: String(parsed.amount),
+            sender: parsed.sender,
+            receiver: parsed.receiver,
+            memo: parsed.memo || undefined,
+          }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private parseAckError(raw: string | null | undefined): string | null {
+    if (!raw) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return typeof parsed?.error === 'string' ? parsed.error : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private emptyTotals() {
+    return {
+      packets: 0,
+      senders: new Set<string>(),
+      receivers: new Set<string>(),
+      denoms: new Map<string, { amount: bigint; transfers: number }>(),
+    };
+  }
+
+  private summarizeTotals(
+    totals: ReturnType<IbcTransfersService['emptyTotals']>,
+  ): ChannelVolumeDirection {
+    return {
+      packets: totals.packets,
+      unique_senders: totals.senders.size,
+      unique_receivers: totals.receivers.size,
+      by_denom: [...totals.denoms.entries()]
+        .sort(([, a], [, b]) => b.transfers - a.transfers)
+        .map(([denom, value]) => ({
+          denom,
+          amount: value.amount.toString(),
+          transfers: value.transfers,
+        })),
+    };
+  }
+}
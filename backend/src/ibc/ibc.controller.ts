@@ -0,0 +1,198 @@
+import {
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { ChannelVolumeQueryDto } from './dto/channel-volume-query.dto';
+import { PacketLifecycleQueryDto } from './dto/packet-lifecycle-query.dto';
+import { RelayerLeaderboardQueryDto } from './dto/relayer-leaderboard-query.dto';
+import { IbcDenomService, ResolvedIbcDenom } from './ibc-denom.service';
+import {
+  ChannelVolume,
+  IbcTransfersService,
+  PacketLifecycle,
+  RelayerLeaderboard,
+} from './ibc-transfers.service';
+import { IbcChannel, IbcClient, IbcConnection, IbcService } from './ibc.service';
+
+@ApiTags('IBC')
+@ApiBearerAuth('api-key')
+@Controller('api/v2')
+@UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
+export class IbcController {
+  constructor(
+    private readonly ibcService: IbcService,
+    private readonly ibcTransfersService: IbcTransfersService,
+    private readonly ibcDenomService: IbcDenomService,
+  ) {}
+
+  @Get('ibc/clients')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({ summary: 'IBC light clients with their counterparty chain IDs' })
+  async getClients(): Promise<IbcClient[]> {
+    const topology = await this.ibcService.getTopology();
+
+    if ('error' in topology) {
+      throw new HttpException(topology.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return topology.clients;
+  }
+
+  @Get('ibc/connections')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({ summary: 'IBC connections with their counterparty chain IDs' })
+  async getConnections(): Promise<IbcConnection[]> {
+    const topology = await this.ibcService.getTopology();
+
+    if ('error' in topology) {
+      throw new HttpException(topology.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return topology.connections;
+  }
+
+  @Get('ibc/channels')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({ summary: 'IBC channels with connection, client and counterparty chain ID' })
+  async getChannels(): Promise<IbcChannel[]> {
+    const topology = await this.ibcService.getTopology();
+
+    if ('error' in topology) {
+      throw new HttpException(topology.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return topology.channels;
+  }
+
+  @Get('ibc/channel/:portId/:channelId/volume')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({ summary: 'ICS-20 transfer volume over a channel, by direction and denom' })
+  async getChannelVolume(
+    @Param('portId') portId: string,
+    @Param('channelId') channelId: string,
+    @Query() query: ChannelVolumeQueryDto,
+  ): Promise<ChannelVolume> {
+    const result = await this.ibcTransfersService.getChannelVolume(portId, channelId, query);
+
+    if ('error' in result) {
+      const status = result.error.toLowerCase().includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('ibc/packet/:portId/:channelId/:sequence')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({
+    summary: 'Send, receive, acknowledgement and timeout steps of one packet on this chain',
+  })
+  async getPacketLifecycle(
+    @Param('portId') portId: string,
+    @Param('channelId') channelId: string,
+    @Param('sequence') sequence: string,
+    @Query() query: PacketLifecycleQueryDto,
+  ): Promise<PacketLifecycle> {
+    const result = await this.ibcTransfersService.getPacketLifecycle(
+      portId,
+      channelId,
+      sequence,
+      query.direction ?? 'outbound',
+    );
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('invalid')
+        ? HttpStatus.BAD_REQUEST
+        : normalized.includes('not found')
+          ? HttpStatus.NOT_FOUND
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('ibc/tx/:txHash/packets')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({ summary: 'Lifecycles of the IBC packets sent or received in a transaction' })
+  async getTransactionPackets(
+    @Param('txHash') txHash: string,
+  ): Promise<{ tx_hash: string; packets: PacketLifecycle[] }> {
+    const result = await this.ibcTransfersService.getTransactionPackets(txHash);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('invalid')
+        ? HttpStatus.BAD_REQUEST
+        : normalized.includes('not found') || normalized.includes('no ibc packets')
+          ? HttpStatus.NOT_FOUND
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('ibc/relayers')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({ summary: 'Relayers ranked by packets relayed to this chain' })
+  async getRelayerLeaderboard(
+    @Query() query: RelayerLeaderboardQueryDto,
+  ): Promise<RelayerLeaderboard> {
+    const result = await this.ibcTransfersService.getRelayerLeaderboard(query);
+
+    if ('error' in result) {
+      throw new HttpException(result.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return result;
+  }
+
+  @Get('ibc/denom/:hash')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({
+    summary: 'Trace, origin chain and registry metadata of an ibc/<hash> denom',
+  })
+  async getDenomTrace(@Param('hash') hash: string): Promise<ResolvedIbcDenom> {
+    if (!/^[0-9a-f]{64}$/i.test(hash)) {
+      throw new HttpException('Invalid IBC denom hash', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const resolved = await this.ibcDenomService.resolve(`ibc/${hash}`);
+      if (!resolved) {
+        throw new HttpException(`Denom trace not found for ${hash}`, HttpStatus.NOT_FOUND);
+      }
+      return resolved;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Failed to resolve denom trace';
+      throw new HttpException(message, HttpStatus.BAD_GATEWAY);
+    }
+  }
+}
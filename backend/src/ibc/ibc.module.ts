@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { BlockchainModule } from '../blockchain/blockchain.module';
+import { IbcDenomTrace } from '../database/entities/ibc-denom-trace.entity';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+import { IbcDenomService } from './ibc-denom.service';
+import { IbcTransfersService } from './ibc-transfers.service';
+import { IbcController } from './ibc.controller';
+import { IbcService } from './ibc.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    BlockchainModule,
+    ZigscanPostgresModule,
+    TypeOrmModule.forFeature([IbcDenomTrace]),
+  ],
+  controllers: [IbcController],
+  providers: [IbcService, IbcTransfersService, IbcDenomService],
+  exports: [IbcService, IbcDenomService],
+})
+export class IbcModule {}
@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockchainService } from '../blockchain/blockchain.service';
+
+export interface IbcClient {
+  client_id: string;
+  client_type: string;
+  counterparty_chain_id: string | null;
+  latest_height: string | null;
+  trusting_period: string | null;
+  frozen: boolean;
+}
+
+export interface IbcConnection {
+  connection_id: string;
+  client_id: string;
+  state: string;
+  counterparty_chain_id: string | null;
+  counterparty_client_id: string | null;
+  counterparty_connection_id: string | null;
+  delay_period: string;
+}
+
+export interface IbcChannel {
+  port_id: string;
+  channel_id: string;
+  state: string;
+  ordering: string;
+  version: string;
+  connection_id: string | null;
+  client_id: string | null;
+  counterparty_chain_id: string | null;
+  counterparty_port_id: string | null;
+  counterparty_channel_id: string | null;
+}
+
+export interface IbcTopology {
+  clients: IbcClient[];
+  connections: IbcConnection[];
+  channels: IbcChannel[];
+}
+
+/**
+ * Light clients, connections and channels from the LCD `/ibc/core` routes, joined so that every
+ * connection and channel carries the chain ID of its counterparty.
+ */
+@Injectable()
+export class IbcService {
+  private readonly logger = new Logger(IbcService.name);
+  private readonly TOPOLOGY_TTL_MS = 5 * 60 * 1000;
+  private topology: { value: IbcTopology; fetchedAt: number } | null = null;
+
+  constructor(private readonly blockchainService: BlockchainService) {}
+
+  async getTopology(): Promise<IbcTopology | { error: string }> {
+    if (this.topology && Date.now() - this.topology.fetchedAt < this.TOPOLOGY_TTL_MS) {
+      return this.topology.value;
+    }
+
+    try {
+      const [clientStates, connections, channels] = await Promise.all([
+        this.fetchAll('/ibc/core/client/v1/client_states', 'client_states'),
+        this.fetchAll('/ibc/core/connection/v1/connections', 'connections'),
+        this.fetchAll('/ibc/core/channel/v1/channels', 'channels'),
+      ]);
+
+      const clients: IbcClient[] = clientStates.map(item => {
+        const state = (item.client_state ?? {}) as Record<string, any>;
+        const frozenHeight = Number(state.frozen_height?.revision_height ?? 0);
+        return {
+          client_id: item.client_id,
+          client_type: (state['@type'] ?? 'unknown').split('.').pop(),
+          counterparty_chain_id: state.chain_id ?? null,
+          latest_height: state.latest_height
+            ? `${state.latest_height.revision_number}-${state.latest_height.revision_height}`
+            : null,
+          trusting_period: state.trusting_period ?? null,
+          frozen: frozenHeight > 0,
+        };
+      });
+      const chainByClient = new Map(
+        clients.map(client => [client.client_id, client.counterparty_chain_id]),
+      );
+
+      const connectionList: IbcConnection[] = connections.map(connection => ({
+        connection_id: connection.id,
+        client_id: connection.client_id,
+        state: connection.state,
+        counterparty_chain_id: chainByClient.get(connection.client_id) ?? null,
+        counterparty_client_id: connection.counterparty?.client_id ?? null,
+        counterparty_connection_id: connection.counterparty?.connection_id || null,
+        delay_period: connection.delay_period ?? '0',
+      }));
+      const clientByConnection = new Map(
+        connectionList.map(connection => [connection.connection_id, connection.client_id]),
+      );
+
+      const channelList: IbcChannel[] = channels.map(channel => {
+        const connectionId = (channel.connection_hops ?? [])[0] ?? null;
+        const clientId = connectionId ? (clientByConnection.get(connectionId) ?? null) : null;
+        return {
+          port_id: channel.port_id,
+          channel_id: channel.channel_id,
+          state: channel.state,
+          ordering: channel.ordering,
+          version: channel.version,
+          connection_id: connectionId,
+          client_id: clientId,
+          counterparty_chain_id: clientId ? (chainByClient.get(clientId) ?? null) : null,
+          counterparty_port_id: channel.counterparty?.port_id ?? null,
+          counterparty_channel_id: channel.counterparty?.channel_id || null,
+        };
+      });
+
+      const value = { clients, connections: connectionList, channels: channelList };
+      this.topology = { value, fetchedAt: Date.now() };
+      return value;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch IBC topology: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Looks up a channel of this chain by port and channel ID
+   */
+  async getChannel(portId: string, channelId: string): Promise<IbcChannel | { error: string }> {
+    const topology = await this.getTopology();
+    if ('error' in topology) {
+      return topology;
+    }
+
+    const channel = topology.channels.find(
+      item => item.port_id === portId && item.channel_id === channelId,
+    );
+    return channel ?? { error: `Channel ${portId}/${channelId} not found` };
+  }
+
+  private async fetchAll(path: string, field: string): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let nextKey: string | null = null;
+
+    do {
+      const response = await this.blockchainService.getFromApi<Record<string, any>>(path, {
+        params: {
+          'pagination.limit': 1000,
+          ...(nextKey ? { 'pagination.key': nextKey } : {}),
+        },
+      });
+
+      if (response.status !== 200 || !response.data) {
+        throw new Error(`Failed to fetch ${path}: HTTP ${response.status}`);
+      }
+
+      items.push(...((response.data[field] ?? []) as Record<string, any>[]));
+      nextKey = response.data.pagination?.next_key ?? null;
+    } while (nextKey);
+
+    return items;
+  }
+}
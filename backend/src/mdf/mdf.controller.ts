@@ -9,6 +9,8 @@ import {
   ApiTags,
 } from '@nestjs/swagger';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { MemesDotFunCoinsResponse } from '../dto/schema.dto';
 import { MdfService } from './mdf.service';
 
@@ -17,6 +19,7 @@ import { MdfService } from './mdf.service';
 @Controller('api/v2/mdf')
 @UseGuards(ApiKeyGuard)
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.DEFI_READ)
 export class MdfController {
   constructor(private readonly mdfService: MdfService) {}
 
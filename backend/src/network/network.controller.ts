@@ -8,6 +8,8 @@ import {
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { NetworkOverview, NetworkService } from './network.service';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 
@@ -15,6 +17,7 @@ import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
 export class NetworkController {
   constructor(private readonly networkService: NetworkService) {}
 
@@ -0,0 +1,66 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient } from 'redis';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Shared connection to the Redis instance configured for CacheModule (REDIS_HOST/REDIS_PORT),
+ * for features that need atomic counters rather than plain cache entries.
+ */
+@Injectable()
+export class RedisService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisService.name);
+  private client: RedisClient | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    // Connect in the background so a missing Redis never blocks startup
+    void this.connect();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    try {
+      await this.client?.quit();
+    } catch {
+      // Already disconnected
+    }
+  }
+
+  /**
+   * The client while it is connected, otherwise null. Commands are not queued while offline,
+   * so callers should fall back instead of waiting on Redis.
+   */
+  getReadyClient(): RedisClient | null {
+    return this.client?.isReady ? this.client : null;
+  }
+
+  private async connect(): Promise<void> {
+    const host = this.configService.get<string>('REDIS_HOST', 'localhost');
+    const port = Number(this.configService.get<number>('REDIS_PORT', 6379));
+
+    const client = createClient({
+      socket: {
+        host,
+        port,
+        connectTimeout: 2000,
+        reconnectStrategy: retries => Math.min(retries * 500, 10000),
+      },
+      disableOfflineQueue: true,
+    });
+    // Without a listener, connection errors would be thrown as uncaught exceptions
+    client.on('error', (error: Error) => {
+      this.logger.warn(`Redis connection error: ${error.message}`);
+    });
+    this.client = client;
+
+    try {
+      await client.connect();
+      this.logger.log(`Connected to Redis at ${host}:${port}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to connect to Redis at ${host}:${port}: ${message}`);
+    }
+  }
+}
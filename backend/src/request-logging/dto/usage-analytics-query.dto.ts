@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export const USAGE_INTERVALS = ['hour', 'day'] as const;
+export type UsageInterval = (typeof USAGE_INTERVALS)[number];
+
+export class UsageAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Bucket size for time series',
+    enum: USAGE_INTERVALS,
+    default: 'day',
+  })
+  @IsOptional()
+  @IsIn(USAGE_INTERVALS)
+  interval: UsageInterval = 'day';
+
+  @ApiPropertyOptional({
+    description: 'Number of days to include (hourly buckets are limited to 14 days)',
+    minimum: 1,
+    maximum: 90,
+    default: 7,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  days = 7;
+
+  @ApiPropertyOptional({
+    description: 'Number of routes, IPs and user agents returned in each ranking',
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 10;
+}
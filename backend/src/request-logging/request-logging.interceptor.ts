@@ -53,6 +53,7 @@ export class ApiRequestLoggingInterceptor implements NestInterceptor {
     const authContext = request.authContext;
     const apiKeyPrefix = authContext?.apiKeyPrefix ?? 'public';
     const contentLength = response.getHeader('content-length');
+    const pathLabel = this.extractPathLabel(request);
 
     void this.requestLoggingService.logRequest({
       apiKeyId: authContext?.apiKeyId ?? null,
@@ -60,6 +61,7 @@ export class ApiRequestLoggingInterceptor implements NestInterceptor {
       ipAddress: ip,
       method: request.method ?? 'UNKNOWN',
       path: request.originalUrl ?? request.url ?? '',
+      route: pathLabel,
       statusCode: status,
       responseMs: durationMs,
       bytesSent:
@@ -68,7 +70,6 @@ export class ApiRequestLoggingInterceptor implements NestInterceptor {
       referer: this.safeHeader(request.headers['referer'] ?? request.headers['referrer']),
     });
 
-    const pathLabel = this.extractPathLabel(request);
     this.metricsService.recordHttpRequest(
       request.method ?? 'UNKNOWN',
       pathLabel,
@@ -5,11 +5,13 @@ import { ApiRequestLog } from '../database/entities/api-request-log.entity';
 import { RequestLoggingService } from './request-logging.service';
 import { ApiRequestLoggingInterceptor } from './request-logging.interceptor';
 import { ApiRequestLogPartitionService } from './request-log-partition.service';
+import { UsageAnalyticsService } from './usage-analytics.service';
 
 @Module({
   imports: [TypeOrmModule.forFeature([ApiRequestLog])],
   providers: [
     RequestLoggingService,
+    UsageAnalyticsService,
     ApiRequestLogPartitionService,
     ApiRequestLoggingInterceptor,
     {
@@ -17,6 +19,6 @@ import { ApiRequestLogPartitionService } from './request-log-partition.service';
       useClass: ApiRequestLoggingInterceptor,
     },
   ],
-  exports: [RequestLoggingService],
+  exports: [RequestLoggingService, UsageAnalyticsService],
 })
 export class RequestLoggingModule {}
@@ -10,6 +10,7 @@ export interface RequestLogPayload {
   ipAddress: string;
   method: string;
   path: string;
+  route?: string | null;
   statusCode: number;
   responseMs: number;
   bytesSent: number;
@@ -26,6 +27,75 @@ export class RequestLoggingService {
     private readonly requestLogRepository: Repository<ApiRequestLog>,
   ) {}
 
+  /**
+   * Aggregated request log statistics for one API key since `since`
+   */
+  async getUsageForKey(apiKeyId: string, since: Date) {
+    const baseQuery = () =>
+      this.requestLogRepository
+        .createQueryBuilder('log')
+        .where('log.api_key_id = :apiKeyId', { apiKeyId })
+        .andWhere('log.created_at >= :since', { since });
+
+    const [totals, daily, statusCodes, topPaths] = await Promise.all([
+      baseQuery()
+        .select('COUNT(*)', 'requests')
+        .addSelect('COUNT(*) FILTER (WHERE log.status_code >= 400)', 'errors')
+        .addSelect('COALESCE(AVG(log.response_ms), 0)', 'avgResponseMs')
+        .addSelect('COALESCE(SUM(log.bytes_sent), 0)', 'bytesSent')
+        .getRawOne<{
+          requests: string;
+          errors: string;
+          avgResponseMs: string;
+          bytesSent: string;
+        }>(),
+      baseQuery()
+        .select(`date_trunc('day', log.created_at)`, 'day')
+        .addSelect('COUNT(*)', 'requests')
+        .addSelect('COUNT(*) FILTER (WHERE log.status_code >= 400)', 'errors')
+        .groupBy('day')
+        .orderBy('day', 'ASC')
+        .getRawMany<{ day: Date; requests: string; errors: string }>(),
+      baseQuery()
+        .select('log.status_code', 'statusCode')
+        .addSelect('COUNT(*)', 'requests')
+        .groupBy('log.status_code')
+        .orderBy('requests', 'DESC')
+        .getRawMany<{ statusCode: number; requests: string }>(),
+      baseQuery()
+        .select('log.method', 'method')
+        .addSelect('log.path', 'path')
+        .addSelect('COUNT(*)', 'requests')
+        .groupBy('log.method')
+        .addGroupBy('log.path')
+        .orderBy('requests', 'DESC')
+        .limit(10)
+        .getRawMany<{ method: string; path: string; requests: string }>(),
+    ]);
+
+    return {
+      since: since.toISOString(),
+      requests: Number(totals?.requests ?? 0),
+      errors: Number(totals?.errors ?? 0),
+      avgResponseMs: Math.round(Number(totals?.avgResponseMs ?? 0)),
+      bytesSent: Number(totals?.bytesSent ?? 0),
+      daily: daily.map(row => ({
+        day: new Date(row.day).toISOString().slice(0, 10),
+        requests: Number(row.requests),
+        errors: Number(row.errors),
+      })),
+      statusCodes: statusCodes.map(row => ({
+        statusCode: Number(row.statusCode),
+        requests: Number(row.requests),
+      })),
+      topPaths: topPaths.map(row => ({
+        method: row.method,
+        path: row.path,
+        requests: Number(row.requests),
+      })),
+    };
+  }
+
   async logRequest(payload: RequestLogPayload): Promise<void> {
     const createdAt = new Date();
     const logEntry: Partial<ApiRequestLog> = {
@@ -36,6 +106,7 @@ export class RequestLoggingService {
       ipAddress: payload.ipAddress,
       method: payload.method,
       path: payload.path,
+      route: payload.route ?? null,
       statusCode: payload.statusCode,
       responseMs: payload.responseMs,
       bytesSent: payload.bytesSent,
@@ -0,0 +1,216 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ApiRequestLog } from '../database/entities/api-request-log.entity';
+import { UsageAnalyticsQueryDto } from './dto/usage-analytics-query.dto';
+
+// Rows logged before the route column existed fall back to the path without its query string
+const ROUTE_LABEL = `COALESCE(route, split_part(path, '?', 1))`;
+
+@Injectable()
+export class UsageAnalyticsService {
+  private readonly MAX_HOURLY_DAYS = 14;
+
+  constructor(
+    @InjectRepository(ApiRequestLog)
+    private readonly requestLogRepository: Repository<ApiRequestLog>,
+  ) {}
+
+  /**
+   * Time-bucketed traffic, per-route latency percentiles, status code breakdown and top clients
+   * from api_request_logs. Pass `apiKeyId` to restrict every figure to a single key.
+   */
+  async getAnalytics(query: UsageAnalyticsQueryDto, apiKeyId?: string) {
+    const interval = query.interval ?? 'day';
+    const days = query.days ?? 7;
+    const limit = query.limit ?? 10;
+
+    if (interval === 'hour' && days > this.MAX_HOURLY_DAYS) {
+      throw new BadRequestException(
+        `Hourly buckets are limited to ${this.MAX_HOURLY_DAYS} days; use interval=day`,
+      );
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const params: unknown[] = [from, to];
+    const conditions = ['created_at >= $1', 'created_at < $2'];
+    if (apiKeyId) {
+      params.push(apiKeyId);
+      conditions.push(`api_key_id = $${params.length}`);
+    }
+    const where = conditions.join(' AND ');
+    const next = params.length + 1;
+
+    const [totals, timeseries, routes, routeTimeseries, statusCodes, topIps, topUserAgents] =
+      await Promise.all([
+        this.requestLogRepository.query(
+          `
+            SELECT COUNT(*) AS requests,
+                   COUNT(*) FILTER (WHERE status_code >= 400) AS errors,
+                   COALESCE(SUM(bytes_sent), 0) AS bytes_sent,
+                   COALESCE(AVG(response_ms), 0) AS avg_response_ms,
+                   COUNT(DISTINCT ip_address) AS unique_ips
+            FROM api_request_logs
+            WHERE ${where}
+          `,
+          params,
+        ),
+        this.requestLogRepository.query(
+          `
+            SELECT date_trunc($${next}, created_at) AS bucket,
+                   COUNT(*) AS requests,
+                   COUNT(*) FILTER (WHERE status_code BETWEEN 400 AND 499) AS client_errors,
+                   COUNT(*) FILTER (WHERE status_code >= 500) AS server_errors,
+                   COALESCE(SUM(bytes_sent), 0) AS bytes_sent
+            FROM api_request_logs
+            WHERE ${where}
+            GROUP BY 1
+            ORDER BY 1
+          `,
+          [...params, interval],
+        ),
+        this.requestLogRepository.query(
+          `
+            SELECT ${ROUTE_LABEL} AS route,
+                   COUNT(*) AS requests,
+                   COUNT(*) FILTER (WHERE status_code >= 400) AS errors,
+                   percentile_cont(0.5) WITHIN GROUP (ORDER BY response_ms) AS p50,
+                   percentile_cont(0.95) WITHIN GROUP (ORDER BY response_ms) AS p95,
+                   percentile_cont(0.99) WITHIN GROUP (ORDER BY response_ms) AS p99,
+                   MAX(response_ms) AS max_response_ms,
+                   COALESCE(SUM(bytes_sent), 0) AS bytes_sent
+            FROM api_request_logs
+            WHERE ${where}
+            GROUP BY 1
+            ORDER BY requests DESC
+            LIMIT $${next}
+          `,
+          [...params, limit],
+        ),
+        // Per-bucket counts for the busiest routes only, so the series stays a bounded size
+        this.requestLogRepository.query(
+          `
+            WITH top_routes AS (
+              SELECT ${ROUTE_LABEL} AS route
+              FROM api_request_logs
+              WHERE ${where}
+              GROUP BY 1
+              ORDER BY COUNT(*) DESC
+              LIMIT $${next + 1}
+            )
+            SELECT date_trunc($${next}, created_at) AS bucket,
+                   ${ROUTE_LABEL} AS route,
+                   COUNT(*) AS requests,
+                   COUNT(*) FILTER (WHERE status_code >= 400) AS errors
+            FROM api_request_logs
+            WHERE ${where} AND ${ROUTE_LABEL} IN (SELECT route FROM top_routes)
+            GROUP BY 1, 2
+            ORDER BY 1, requests DESC
+          `,
+          [...params, interval, limit],
+        ),
+        this.requestLogRepository.query(
+          `
+            SELECT status_code, COUNT(*) AS requests
+            FROM api_request_logs
+            WHERE ${where}
+            GROUP BY status_code
+            ORDER BY requests DESC
+          `,
+          params,
+        ),
+        this.requestLogRepository.query(
+          `
+            SELECT host(ip_address) AS ip,
+                   COUNT(*) AS requests,
+                   COALESCE(SUM(bytes_sent), 0) AS bytes_sent
+            FROM api_request_logs
+            WHERE ${where}
+            GROUP BY ip_address
+            ORDER BY requests DESC
+            LIMIT $${next}
+          `,
+          [...params, limit],
+        ),
+        this.requestLogRepository.query(
+          `
+            SELECT user_agent, COUNT(*) AS requests
+            FROM api_request_logs
+            WHERE ${where}
+            GROUP BY user_agent
+            ORDER BY requests DESC
+            LIMIT $${next}
+          `,
+          [...params, limit],
+        ),
+      ]);
+
+    const totalRequests = Number(totals[0]?.requests ?? 0);
+    const totalErrors = Number(totals[0]?.errors ?? 0);
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      interval,
+      apiKeyId: apiKeyId ?? null,
+      totals: {
+        requests: totalRequests,
+        errors: totalErrors,
+        errorRate: this.ratio(totalErrors, totalRequests),
+        bytesSent: Number(totals[0]?.bytes_sent ?? 0),
+        avgResponseMs: Math.round(Number(totals[0]?.avg_response_ms ?? 0)),
+        uniqueIps: Number(totals[0]?.unique_ips ?? 0),
+      },
+      timeseries: timeseries.map(row => {
+        const requests = Number(row.requests);
+        const clientErrors = Number(row.client_errors);
+        const serverErrors = Number(row.server_errors);
+        return {
+          bucket: new Date(row.bucket).toISOString(),
+          requests,
+          clientErrors,
+          serverErrors,
+          errorRate: this.ratio(clientErrors + serverErrors, requests),
+          bytesSent: Number(row.bytes_sent),
+        };
+      }),
+      routes: routes.map(row => ({
+        route: row.route,
+        requests: Number(row.requests),
+        errors: Number(row.errors),
+        errorRate: this.ratio(Number(row.errors), Number(row.requests)),
+        p50Ms: Math.round(Number(row.p50)),
+        p95Ms: Math.round(Number(row.p95)),
+        p99Ms: Math.round(Number(row.p99)),
+        maxMs: Number(row.max_response_ms),
+        bytesSent: Number(row.bytes_sent),
+      })),
+      routeTimeseries: routeTimeseries.map(row => ({
+        bucket: new Date(row.bucket).toISOString(),
+        route: row.route,
+        requests: Number(row.requests),
+        errors: Number(row.errors),
+      })),
+      statusCodes: statusCodes.map(row => ({
+        statusCode: Number(row.status_code),
+        requests: Number(row.requests),
+        share: this.ratio(Number(row.requests), totalRequests),
+      })),
+      topIps: topIps.map(row => ({
+        ip: row.ip,
+        requests: Number(row.requests),
+        bytesSent: Number(row.bytes_sent),
+      })),
+      topUserAgents: topUserAgents.map(row => ({
+        userAgent: row.user_agent,
+        requests: Number(row.requests),
+      })),
+    };
+  }
+
+  private ratio(part: number, total: number): number {
+    return total > 0 ? Number((part / total).toFixed(4)) : 0;
+  }
+}
@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SearchQueryDto {
+  @ApiProperty({
+    description:
+      'Tx hash, block height, account/contract address, validator operator address, code ID, token denom, validator moniker or token symbol',
+    example: 'zig1...',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Search query is required' })
+  @MaxLength(256)
+  q: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results to return',
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+    type: Number,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit = 10;
+}
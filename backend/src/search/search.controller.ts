@@ -0,0 +1,29 @@
+import { Controller, Get, Query, UseGuards, UseInterceptors } from '@nestjs/common';
+import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { SearchResponse, SearchService } from './search.service';
+
+@ApiTags('Search')
+@ApiBearerAuth('api-key')
+@Controller('api/v2')
+@UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get('search')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(30)
+  @ApiOperation({
+    summary: 'Resolve any identifier to the matching explorer entities',
+    description:
+      'Accepts a tx hash, block height, account or contract address, validator operator address, code ID or token denom. Free text is prefix-matched against validator monikers and token symbols.',
+  })
+  async search(@Query() query: SearchQueryDto): Promise<SearchResponse> {
+    return this.searchService.search(query);
+  }
+}
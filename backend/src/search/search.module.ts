@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { BlocksModule } from '../blocks/blocks.module';
+import { CodesModule } from '../codes/codes.module';
+import { ContractsModule } from '../contracts/contracts.module';
+import { DefiModule } from '../defi/defi.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    ZigscanPostgresModule,
+    TransactionsModule,
+    BlocksModule,
+    ContractsModule,
+    CodesModule,
+    DefiModule,
+  ],
+  controllers: [SearchController],
+  providers: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,476 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { TransactionsService } from '../transactions/transactions.service';
+import { BlocksService } from '../blocks/blocks.service';
+import { ContractsService } from '../contracts/contracts.service';
+import { CodesService } from '../codes/codes.service';
+import { DefiService } from '../defi/defi.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+
+export type SearchEntityType =
+  | 'transaction'
+  | 'block'
+  | 'account'
+  | 'contract'
+  | 'validator'
+  | 'code'
+  | 'token';
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  label: string;
+  link: string;
+  score: number;
+  match: 'exact' | 'prefix';
+  details?: Record<string, unknown>;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  total_count: number;
+}
+
+const TX_HASH_PATTERN = /^[0-9a-fA-F]{64}$/;
+const NUMERIC_PATTERN = /^\d{1,18}$/;
+const BECH32_BODY = '[02-9ac-hj-np-z]';
+const ACCOUNT_PATTERN = new RegExp(`^zig1${BECH32_BODY}{38,58}$`);
+const VALOPER_PATTERN = new RegExp(`^zigvaloper1${BECH32_BODY}{38}$`);
+const DENOM_PATTERN = /^(uzig|coin\.[^\s]+|ibc\/[0-9A-Fa-f]{64}|factory\/[^\s]+)$/;
+
+// Account addresses are 42 characters; anything longer is a contract (matches AccountsService).
+const ACCOUNT_ADDRESS_MAX_LENGTH = 50;
+const MIN_PREFIX_LENGTH = 2;
+const TOKEN_SCAN_LIMIT = 500;
+
+@Injectable()
+export class SearchService {
+  private readonly logger = new Logger(SearchService.name);
+
+  constructor(
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly transactionsService: TransactionsService,
+    private readonly blocksService: BlocksService,
+    private readonly contractsService: ContractsService,
+    private readonly codesService: CodesService,
+    private readonly defiService: DefiService,
+  ) {}
+
+  async search(query: SearchQueryDto): Promise<SearchResponse> {
+    const term = query.q.trim();
+    const limit = Math.min(Math.max(Number(query.limit ?? 10), 1), 50);
+
+    const lookups: Array<Promise<SearchResult[]>> = [];
+
+    if (TX_HASH_PATTERN.test(term)) {
+      lookups.push(this.findTransaction(term));
+    }
+
+    if (NUMERIC_PATTERN.test(term)) {
+      lookups.push(this.findBlock(Number(term)), this.findCode(term));
+    }
+
+    if (VALOPER_PATTERN.test(term)) {
+      lookups.push(this.findValidator(term));
+    } else if (ACCOUNT_PATTERN.test(term)) {
+      lookups.push(
+        term.length > ACCOUNT_ADDRESS_MAX_LENGTH ? this.findContract(term) : this.findAccount(term),
+      );
+    }
+
+    if (DENOM_PATTERN.test(term)) {
+      lookups.push(this.findTokenByDenom(term));
+    }
+
+    if (lookups.length === 0 && term.length >= MIN_PREFIX_LENGTH) {
+      lookups.push(this.findValidatorsByMoniker(term, limit), this.findTokensBySymbol(term, limit));
+    }
+
+    const settled = await Promise.all(lookups);
+    const results = this.rank(settled.flat()).slice(0, limit);
+
+    return {
+      query: term,
+      results,
+      total_count: results.length,
+    };
+  }
+
+  private rank(results: SearchResult[]): SearchResult[] {
+    const unique = new Map<string, SearchResult>();
+    for (const result of results) {
+      const key = `${result.type}:${result.id}`;
+      const existing = unique.get(key);
+      if (!existing || existing.score < result.score) {
+        unique.set(key, result);
+      }
+    }
+
+    return Array.from(unique.values()).sort(
+      (a, b) => b.score - a.score || a.label.localeCompare(b.label),
+    );
+  }
+
+  private async findTransaction(hash: string): Promise<SearchResult[]> {
+    const txHash = hash.toUpperCase();
+
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        tx_hash: string;
+        height: number | string;
+        block_time: Date | string | null;
+        code: number | null;
+      }>(
+        `
+          SELECT tx_hash, height, block_time, code
+          FROM transactions
+          WHERE tx_hash = $1
+          LIMIT 1
+        `,
+        [txHash],
+      );
+
+      const row = result.rows[0];
+      if (row) {
+        return [
+          this.buildResult('transaction', row.tx_hash, row.tx_hash, 100, 'exact', {
+            height: Number(row.height ?? 0),
+            status: row.code ?? null,
+            created_at: this.formatTimestamp(row.block_time),
+          }),
+        ];
+      }
+    } catch (error) {
+      this.logLookupFailure('transaction', hash, error);
+    }
+
+    // Not indexed yet (or Postgres unavailable): fall back to the chain API.
+    const detail = await this.transactionsService.getTransactionDetail(txHash);
+    if ('error' in detail) {
+      return [];
+    }
+
+    const txResponse = (detail.tx_response ?? {}) as Record<string, unknown>;
+    return [
+      this.buildResult('transaction', txHash, txHash, 100, 'exact', {
+        height: Number(txResponse.height ?? 0),
+        status: txResponse.code ?? null,
+        created_at: (txResponse.timestamp as string | undefined) ?? null,
+      }),
+    ];
+  }
+
+  private async findBlock(height: number): Promise<SearchResult[]> {
+    if (!Number.isSafeInteger(height) || height < 1) {
+      return [];
+    }
+
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        height: number | string;
+        block_time: Date | string | null;
+        num_txs: number | null;
+      }>(
+        `
+          SELECT height, block_time, num_txs
+          FROM blocks
+          WHERE height = $1
+          LIMIT 1
+        `,
+        [height],
+      );
+
+      const row = result.rows[0];
+      if (row) {
+        return [
+          this.buildResult('block', String(height), `Block #${height}`, 90, 'exact', {
+            created_at: this.formatTimestamp(row.block_time),
+            txs_results_count: Number(row.num_txs ?? 0),
+          }),
+        ];
+      }
+    } catch (error) {
+      this.logLookupFailure('block', String(height), error);
+    }
+
+    try {
+      await this.blocksService.getBlockDetail(height);
+      return [this.buildResult('block', String(height), `Block #${height}`, 90, 'exact')];
+    } catch {
+      return [];
+    }
+  }
+
+  private async findCode(codeId: string): Promise<SearchResult[]> {
+    const details = await this.codesService.getCodeDetails(codeId);
+    if ('error' in details || !details.code_info?.code_id) {
+      return [];
+    }
+
+    return [
+      this.buildResult('code', codeId, `Code #${codeId}`, 80, 'exact', {
+        creator: details.code_info.creator ?? null,
+      }),
+    ];
+  }
+
+  private async findAccount(address: string): Promise<SearchResult[]> {
+    let details: Record<string, unknown> | undefined;
+
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        height: number | string;
+        block_time: Date | string | null;
+      }>(
+        `
+          SELECT height, block_time
+          FROM address_transactions
+          WHERE address = $1
+          ORDER BY height DESC, tx_index DESC
+          LIMIT 1
+        `,
+        [address],
+      );
+
+      const row = result.rows[0];
+      if (row) {
+        details = {
+          last_active_height: Number(row.height ?? 0),
+          last_active_at: this.formatTimestamp(row.block_time),
+        };
+      }
+    } catch (error) {
+      this.logLookupFailure('account', address, error);
+    }
+
+    // A well-formed address is always a valid account page, but one with on-chain
+    // activity ranks above a fresh address.
+    return [this.buildResult('account', address, address, details ? 100 : 90, 'exact', details)];
+  }
+
+  private async findContract(address: string): Promise<SearchResult[]> {
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        contract_address: string;
+        label: string | null;
+        code_id: string | null;
+        creator: string | null;
+      }>(
+        `
+          SELECT contract_address, label, code_id, creator
+          FROM wasm_contracts
+          WHERE contract_address = $1
+          LIMIT 1
+        `,
+        [address],
+      );
+
+      const row = result.rows[0];
+      if (row) {
+        return [
+          this.buildResult('contract', address, row.label || address, 100, 'exact', {
+            code_id: row.code_id ?? null,
+            creator: row.creator ?? null,
+          }),
+        ];
+      }
+    } catch (error) {
+      this.logLookupFailure('contract', address, error);
+    }
+
+    const details = await this.contractsService.getContractDetails(address);
+    if ('error' in details) {
+      return [];
+    }
+
+    const contractInfo = (details.contract_info?.contract_info ?? {}) as Record<string, unknown>;
+    return [
+      this.buildResult(
+        'contract',
+        address,
+        (contractInfo.label as string | undefined) || address,
+        100,
+        'exact',
+        {
+          code_id: contractInfo.code_id ?? null,
+          creator: contractInfo.creator ?? null,
+        },
+      ),
+    ];
+  }
+
+  private async findValidator(operatorAddress: string): Promise<SearchResult[]> {
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        operator_address: string;
+        moniker: string | null;
+      }>(
+        `
+          SELECT operator_address, moniker
+          FROM validators
+          WHERE operator_address = $1
+          LIMIT 1
+        `,
+        [operatorAddress],
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        return [];
+      }
+
+      return [
+        this.buildResult(
+          'validator',
+          row.operator_address,
+          row.moniker || row.operator_address,
+          100,
+          'exact',
+        ),
+      ];
+    } catch (error) {
+      this.logLookupFailure('validator', operatorAddress, error);
+      return [];
+    }
+  }
+
+  private async findValidatorsByMoniker(term: string, limit: number): Promise<SearchResult[]> {
+    try {
+      const result = await this.zigscanPostgresService.query<{
+        operator_address: string;
+        moniker: string;
+        identity: string | null;
+      }>(
+        `
+          SELECT DISTINCT ON (operator_address) operator_address, moniker, identity
+          FROM validators
+          WHERE moniker ILIKE $1 ESCAPE '\\'
+          ORDER BY operator_address
+          LIMIT $2
+        `,
+        [`${this.escapeLikePattern(term)}%`, limit],
+      );
+
+      const normalized = term.toLowerCase();
+      return result.rows.map(row => {
+        const isExact = row.moniker.toLowerCase() === normalized;
+        return this.buildResult(
+          'validator',
+          row.operator_address,
+          row.moniker,
+          isExact ? 70 : 60,
+          isExact ? 'exact' : 'prefix',
+          { identity: row.identity ?? null },
+        );
+      });
+    } catch (error) {
+      this.logLookupFailure('validator moniker', term, error);
+      return [];
+    }
+  }
+
+  private async findTokenByDenom(denom: string): Promise<SearchResult[]> {
+    try {
+      const response = await this.defiService.getTokenByDenom(denom);
+      const token = response.data;
+      return [
+        this.buildResult('token', token.denom || denom, token.symbol || denom, 100, 'exact', {
+          name: token.name ?? null,
+          image_url: token.imageUri ?? null,
+          price_usd: token.priceUsd ?? null,
+        }),
+      ];
+    } catch (error) {
+      this.logLookupFailure('token', denom, error);
+      return [];
+    }
+  }
+
+  private async findTokensBySymbol(term: string, limit: number): Promise<SearchResult[]> {
+    try {
+      const response = await this.defiService.getTokens({ limit: TOKEN_SCAN_LIMIT });
+      const normalized = term.toLowerCase();
+
+      return response.data
+        .filter(token => token.symbol?.toLowerCase().startsWith(normalized))
+        .slice(0, limit)
+        .map(token => {
+          const isExact = token.symbol.toLowerCase() === normalized;
+          return this.buildResult(
+            'token',
+            token.denom,
+            token.symbol,
+            isExact ? 70 : 50,
+            isExact ? 'exact' : 'prefix',
+            {
+              name: token.name ?? null,
+              image_url: token.imageUri ?? null,
+              price_usd: token.priceUsd ?? null,
+            },
+          );
+        });
+    } catch (error) {
+      this.logLookupFailure('token symbol', term, error);
+      return [];
+    }
+  }
+
+  private buildResult(
+    type: SearchEntityType,
+    id: string,
+    label: string,
+    score: number,
+    match: SearchResult['match'],
+    details?: Record<string, unknown>,
+  ): SearchResult {
+    return {
+      type,
+      id,
+      label,
+      link: this.buildLink(type, id),
+      score,
+      match,
+      ...(details ? { details } : {}),
+    };
+  }
+
+  private buildLink(type: SearchEntityType, id: string): string {
+    const encodedId = encodeURIComponent(id);
+
+    switch (type) {
+      case 'transaction':
+        return `/api/v2/transaction/${encodedId}`;
+      case 'block':
+        return `/api/v2/blocks/details/${encodedId}`;
+      case 'account':
+        return `/api/v2/account/details/${encodedId}`;
+      case 'contract':
+        return `/api/v2/contract/details/${encodedId}`;
+      case 'validator':
+        return `/api/v2/validator/details/${encodedId}`;
+      case 'code':
+        return `/api/v2/code/details/${encodedId}`;
+      case 'token':
+        return `/api/v2/tokens/details/${encodedId}`;
+    }
+  }
+
+  private escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+  }
+
+  private formatTimestamp(value: Date | string | null | undefined): string | null {
+    if (!value) {
+      return null;
+    }
+
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+  }
+
+  private logLookupFailure(kind: string, term: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    this.logger.warn(`Search ${kind} lookup failed for ${term}: ${message}`);
+  }
+}
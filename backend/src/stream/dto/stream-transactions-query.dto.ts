@@ -0,0 +1,13 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StreamTransactionsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only push transactions of this message type (supports % wildcards)',
+    example: '/cosmwasm.wasm.v1.MsgExecuteContract',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  message_type?: string;
+}
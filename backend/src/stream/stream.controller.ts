@@ -0,0 +1,51 @@
+import {
+  BadRequestException,
+  Controller,
+  MessageEvent,
+  Param,
+  Query,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiProduces, ApiTags } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { StreamTransactionsQueryDto } from './dto/stream-transactions-query.dto';
+import { StreamService } from './stream.service';
+
+@ApiTags('Stream')
+@ApiBearerAuth('api-key')
+@Controller('api/v2/stream')
+@RequireScopes(ApiScope.STREAM)
+export class StreamController {
+  constructor(private readonly streamService: StreamService) {}
+
+  @Sse('blocks')
+  @UseGuards(ApiKeyGuard)
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Server-sent events for every new block' })
+  streamBlocks(): Observable<MessageEvent> {
+    return this.streamService.blocks();
+  }
+
+  @Sse('transactions')
+  @UseGuards(ApiKeyGuard)
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Server-sent events for new transactions, optionally by message type' })
+  streamTransactions(@Query() query: StreamTransactionsQueryDto): Observable<MessageEvent> {
+    return this.streamService.transactions(query.message_type);
+  }
+
+  @Sse('address/:address')
+  @UseGuards(ApiKeyGuard)
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Server-sent events for transactions involving an address' })
+  streamAddressActivity(@Param('address') address: string): Observable<MessageEvent> {
+    if (!address.trim().startsWith('zig1')) {
+      throw new BadRequestException('Invalid address');
+    }
+    return this.streamService.addressActivity(address);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+import { StreamController } from './stream.controller';
+import { StreamService } from './stream.service';
+
+@Module({
+  imports: [AuthModule, ConfigModule, ZigscanPostgresModule],
+  controllers: [StreamController],
+  providers: [StreamService],
+  exports: [StreamService],
+})
+export class StreamModule {}
@@ -0,0 +1,233 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { filter, interval, map, merge, Observable, share } from 'rxjs';
+import { buildMessageTypeMatcher } from '../common/utils/message-type.utils';
+import { AppConfiguration } from '../config/configuration';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+
+export interface StreamBlock {
+  height: number;
+  created_at: string | null;
+  txs_results_count: number;
+  proposer_address: string | null;
+}
+
+export interface StreamTransaction {
+  tx_hash: string;
+  height: number;
+  created_at: string | null;
+  status: number | null;
+  message_type: string | null;
+  addresses: string[];
+}
+
+export type StreamEvent =
+  | { type: 'block'; data: StreamBlock }
+  | { type: 'transaction'; data: StreamTransaction }
+  | { type: 'ping'; data: { time: string } };
+
+type BlockRow = {
+  height: number | string;
+  proposer_address: string | null;
+  block_time: Date | string | null;
+  num_txs: number | null;
+};
+
+type TransactionRow = {
+  tx_hash: string;
+  height: number | string;
+  block_time: Date | string | null;
+  code: number | null;
+  message_type: string | null;
+  addresses: string[] | null;
+};
+
+@Injectable()
+export class StreamService {
+  private readonly logger = new Logger(StreamService.name);
+  private readonly pollIntervalMs: number;
+  private readonly heartbeatSeconds: number;
+  private readonly MAX_BLOCKS_PER_POLL = 50;
+
+  /**
+   * Single ZigScan Postgres tail shared by every connected client. Polling starts with the
+   * first subscriber and stops when the last one disconnects; each start resumes from the
+   * current chain head rather than replaying history.
+   */
+  private readonly feed$: Observable<StreamEvent>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+  ) {
+    const config = this.configService.getOrThrow<AppConfiguration['stream']>('stream');
+    this.pollIntervalMs = Math.max(config.pollIntervalMs, 500);
+    this.heartbeatSeconds = Math.max(config.heartbeatSeconds, 5);
+
+    this.feed$ = new Observable<StreamEvent>(subscriber => {
+      let stopped = false;
+      let timer: NodeJS.Timeout | undefined;
+      let lastHeight: number | null = null;
+
+      const tick = async () => {
+        try {
+          if (lastHeight === null) {
+            lastHeight = await this.getLatestHeight();
+          } else {
+            const blocks = await this.fetchBlocksAfter(lastHeight);
+            if (blocks.length > 0) {
+              const upperHeight = blocks[blocks.length - 1].height;
+              const transactions = await this.fetchTransactionsBetween(lastHeight, upperHeight);
+              lastHeight = upperHeight;
+
+              blocks.forEach(block => subscriber.next({ type: 'block', data: block }));
+              transactions.forEach(tx => subscriber.next({ type: 'transaction', data: tx }));
+            }
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Stream poll failed: ${message}`);
+        } finally {
+          if (!stopped) {
+            timer = setTimeout(() => void tick(), this.pollIntervalMs);
+          }
+        }
+      };
+
+      this.logger.log('Starting live feed poller');
+      void tick();
+
+      return () => {
+        stopped = true;
+        clearTimeout(timer);
+        this.logger.log('Stopped live feed poller (no subscribers)');
+      };
+    }).pipe(share());
+  }
+
+  /**
+   * Raw block and transaction events for in-process consumers such as webhooks.
+   */
+  events(): Observable<StreamEvent> {
+    return this.feed$;
+  }
+
+  blocks(): Observable<MessageEvent> {
+    return this.withHeartbeat(this.feed$.pipe(filter(event => event.type === 'block')));
+  }
+
+  transactions(messageType?: string): Observable<MessageEvent> {
+    const matcher = buildMessageTypeMatcher(messageType);
+    return this.withHeartbeat(
+      this.feed$.pipe(
+        filter(
+          (event): event is Extract<StreamEvent, { type: 'transaction' }> =>
+            event.type === 'transaction' && matcher(event.data.message_type),
+        ),
+      ),
+    );
+  }
+
+  addressActivity(address: string): Observable<MessageEvent> {
+    const normalized = address.trim();
+    return this.withHeartbeat(
+      this.feed$.pipe(
+        filter(
+          (event): event is Extract<StreamEvent, { type: 'transaction' }> =>
+            event.type === 'transaction' && event.data.addresses.includes(normalized),
+        ),
+      ),
+    );
+  }
+
+  private withHeartbeat(events$: Observable<StreamEvent>): Observable<MessageEvent> {
+    const heartbeat$ = interval(this.heartbeatSeconds * 1000).pipe(
+      map((): StreamEvent => ({ type: 'ping', data: { time: new Date().toISOString() } })),
+    );
+
+    return merge(events$, heartbeat$).pipe(
+      map(event => ({
+        type: event.type,
+        id:
+          event.type === 'block'
+            ? String(event.data.height)
+            : event.type === 'transaction'
+              ? event.data.tx_hash
+              : undefined,
+        data: event.data,
+      })),
+    );
+  }
+
+  private async getLatestHeight(): Promise<number> {
+    const result = await this.zigscanPostgresService.query<{ height: number | string | null }>(
+      'SELECT MAX(height) AS height FROM blocks',
+    );
+    return Number(result.rows[0]?.height ?? 0);
+  }
+
+  private async fetchBlocksAfter(height: number): Promise<StreamBlock[]> {
+    const result = await this.zigscanPostgresService.query<BlockRow>(
+      `
+        SELECT height, proposer_address, block_time, num_txs
+        FROM blocks
+        WHERE height > $1
+        ORDER BY height ASC
+        LIMIT $2
+      `,
+      [height, this.MAX_BLOCKS_PER_POLL],
+    );
+
+    return result.rows.map(row => ({
+      height: Number(row.height),
+      created_at: this.formatTimestamp(row.block_time),
+      txs_results_count: Number(row.num_txs ?? 0),
+      proposer_address: row.proposer_address ?? null,
+    }));
+  }
+
+  private async fetchTransactionsBetween(
+    fromHeight: number,
+    toHeight: number,
+  ): Promise<StreamTransaction[]> {
+    const result = await this.zigscanPostgresService.query<TransactionRow>(
+      `
+        SELECT
+            at.tx_hash,
+            MIN(at.height) AS height,
+            MIN(at.block_time) AS block_time,
+            MIN(at.code) AS code,
+            array_agg(DISTINCT at.address) AS addresses,
+            (SELECT COALESCE(e.action, e.attributes ->> 'action')
+             FROM events e
+             WHERE e.tx_hash = at.tx_hash
+               AND e.event_type = 'message'
+               AND (e.attributes ->> 'msg_index') = '0'
+             LIMIT 1) AS message_type
+        FROM address_transactions at
+        WHERE at.height > $1
+          AND at.height <= $2
+        GROUP BY at.tx_hash
+        ORDER BY MIN(at.height) ASC, MIN(at.tx_index) ASC
+      `,
+      [fromHeight, toHeight],
+    );
+
+    return result.rows.map(row => ({
+      tx_hash: row.tx_hash,
+      height: Number(row.height),
+      created_at: this.formatTimestamp(row.block_time),
+      status: row.code ?? null,
+      message_type: row.message_type ?? null,
+      addresses: row.addresses ?? [],
+    }));
+  }
+
+  private formatTimestamp(value: Date | string | null): string | null {
+    if (!value) {
+      return null;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -10,6 +10,8 @@ import {
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import {
   ChartData,
   ZigStakingPool,
@@ -22,6 +24,7 @@ import {
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.DEFI_READ)
 export class SupplyController {
   constructor(private readonly supplyService: ZigSupplyService) {}
 
@@ -1,4 +1,4 @@
-import { IsInt, Min, IsOptional, Max, IsString, IsDateString } from 'class-validator';
+import { IsInt, Min, IsOptional, Max, IsString, IsDateString, MaxLength } from 'class-validator';
 
 export class GetTransactionsQueryDto {
   @IsOptional()
@@ -35,4 +35,9 @@ export class GetTransactionsQueryDto {
   @IsInt()
   @Min(1)
   beforeHeight?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  cursor?: string;
 }
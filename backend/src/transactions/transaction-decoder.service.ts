@@ -0,0 +1,381 @@
+import { Injectable } from '@nestjs/common';
+import { AccountsService, DenomResolver } from '../accounts/accounts.service';
+import { Coin, parseCoins, toDisplayAmount } from '../common/utils/coin.utils';
+import {
+  BalanceChange,
+  DecodedSwap,
+  DecodedTransaction,
+  DecodedTxEvent,
+  DecodedTxMessage,
+} from '../dto/schema.dto';
+
+type RawEvent = {
+  type?: string;
+  attributes?: Array<{ key?: string; value?: string }>;
+};
+
+type RawMessage = Record<string, any> & { '@type'?: string };
+
+export type RawTxResponse = {
+  tx?: {
+    body?: { messages?: RawMessage[]; memo?: string };
+    auth_info?: {
+      fee?: { amount?: Coin[]; gas_limit?: string; payer?: string };
+    };
+  };
+  tx_response?: {
+    txhash?: string;
+    height?: string;
+    timestamp?: string;
+    code?: number;
+    raw_log?: string;
+    gas_wanted?: string;
+    gas_used?: string;
+    events?: RawEvent[];
+  };
+};
+
+/**
+ * Turns an LCD `/cosmos/tx/v1beta1/txs/:hash` payload into a message-level breakdown with
+ * decoded payloads, per-message events, balance deltas and a readable summary per message.
+ */
+@Injectable()
+export class TransactionDecoderService {
+  constructor(private readonly accountsService: AccountsService) {}
+
+  async decode(payload: RawTxResponse): Promise<DecodedTransaction> {
+    const txResponse = payload.tx_response ?? {};
+    const body = payload.tx?.body ?? {};
+    const fee = payload.tx?.auth_info?.fee ?? {};
+    const resolveDenom = this.accountsService.createDenomResolver();
+
+    const events = (txResponse.events ?? []).map(event => this.normalizeEvent(event));
+    const eventsByMessage = new Map<number, DecodedTxEvent[]>();
+    const txEvents: DecodedTxEvent[] = [];
+
+    for (const event of events) {
+      const msgIndex = Number(event.attributes.msg_index);
+      if (event.attributes.msg_index === undefined || !Number.isInteger(msgIndex)) {
+        txEvents.push(event);
+        continue;
+      }
+      const { msg_index: _msgIndex, ...attributes } = event.attributes;
+      const grouped = eventsByMessage.get(msgIndex) ?? [];
+      grouped.push({ type: event.type, attributes });
+      eventsByMessage.set(msgIndex, grouped);
+    }
+
+    const messages: DecodedTxMessage[] = [];
+    for (const [index, message] of (body.messages ?? []).entries()) {
+      messages.push(
+        await this.decodeMessage(index, message, eventsByMessage.get(index) ?? [], resolveDenom),
+      );
+    }
+
+    const code = Number(txResponse.code ?? 0);
+
+    return {
+      tx_hash: txResponse.txhash ?? '',
+      height: Number(txResponse.height ?? 0),
+      timestamp: txResponse.timestamp ?? null,
+      code,
+      success: code === 0,
+      failure_reason: code === 0 ? null : (txResponse.raw_log ?? null),
+      gas_wanted: Number(txResponse.gas_wanted ?? 0),
+      gas_used: Number(txResponse.gas_used ?? 0),
+      memo: body.memo || null,
+      fee: {
+        amount: fee.amount ?? [],
+        gas_limit: fee.gas_limit ?? null,
+        payer: fee.payer || this.findAttribute(txEvents, 'tx', 'fee_payer'),
+      },
+      messages,
+      tx_events: txEvents,
+      balance_changes: await this.computeBalanceChanges(events, resolveDenom),
+    };
+  }
+
+  private async decodeMessage(
+    index: number,
+    message: RawMessage,
+    events: DecodedTxEvent[],
+    resolveDenom: DenomResolver,
+  ): Promise<DecodedTxMessage> {
+    const type = message['@type'] ?? 'unknown';
+    const format = (coins: Coin[] | Coin | null | undefined) =>
+      this.formatCoins(Array.isArray(coins) ? coins : coins ? [coins] : [], resolveDenom);
+    const sender =
+      this.findAttribute(events, 'message', 'sender') ??
+      message.sender ??
+      message.from_address ??
+      message.delegator_address ??
+      message.signer ??
+      null;
+
+    const { '@type': _type, ...fields } = message;
+    let decoded: Record<string, unknown> = fields;
+    let summary = `${this.shortType(type)} by ${sender ?? 'unknown signer'}`;
+    let swaps: DecodedSwap[] = [];
+
+    switch (type) {
+      case '/cosmos.bank.v1beta1.MsgSend':
+        summary = `${message.from_address} sent ${await format(message.amount)} to ${message.to_address}`;
+        break;
+      case '/cosmos.bank.v1beta1.MsgMultiSend': {
+        const outputs: Array<{ address: string; coins: Coin[] }> = message.outputs ?? [];
+        summary = `${sender ?? 'unknown signer'} sent ${await format(
+          outputs.flatMap(output => output.coins ?? []),
+        )} to ${outputs.length} recipient(s)`;
+        break;
+      }
+      case '/cosmos.staking.v1beta1.MsgDelegate':
+        summary = `${message.delegator_address} delegated ${await format(message.amount)} to ${message.validator_address}`;
+        break;
+      case '/cosmos.staking.v1beta1.MsgUndelegate':
+        summary = `${message.delegator_address} undelegated ${await format(message.amount)} from ${message.validator_address}`;
+        break;
+      case '/cosmos.staking.v1beta1.MsgBeginRedelegate':
+        summary = `${message.delegator_address} redelegated ${await format(message.amount)} from ${message.validator_src_address} to ${message.validator_dst_address}`;
+        break;
+      case '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation':
+        summary = `${message.delegator_address} cancelled unbonding of ${await format(message.amount)} from ${message.validator_address}`;
+        break;
+      case '/cosmos.staking.v1beta1.MsgCreateValidator':
+        summary = `Created validator ${message.description?.moniker ?? message.validator_address} with self-delegation of ${await format(message.value)}`;
+        break;
+      case '/cosmos.staking.v1beta1.MsgEditValidator':
+        summary = `Edited validator ${message.validator_address}`;
+        break;
+      case '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward': {
+        const rewards = parseCoins(this.findAttribute(events, 'withdraw_rewards', 'amount'));
+        decoded = { ...fields, rewards };
+        summary = `${message.delegator_address} withdrew ${await format(rewards)} in rewards from ${message.validator_address}`;
+        break;
+      }
+      case '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission': {
+        const commission = parseCoins(this.findAttribute(events, 'withdraw_commission', 'amount'));
+        decoded = { ...fields, commission };
+        summary = `${message.validator_address} withdrew ${await format(commission)} in commission`;
+        break;
+      }
+      case '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress':
+        summary = `${message.delegator_address} set reward withdraw address to ${message.withdraw_address}`;
+        break;
+      case '/cosmos.distribution.v1beta1.MsgFundCommunityPool':
+        summary = `${message.depositor} funded the community pool with ${await format(message.amount)}`;
+        break;
+      case '/ibc.applications.transfer.v1.MsgTransfer':
+        summary = `${message.sender} sent ${await format(message.token)} to ${message.receiver} over IBC (${message.source_port}/${message.source_channel})`;
+        break;
+      case '/ibc.core.channel.v1.MsgRecvPacket': {
+        const packetData = this.decodeJsonPayload(message.packet?.data) as Record<
+          string,
+          unknown
+        > | null;
+        decoded = { ...fields, packet_data: packetData };
+        summary =
+          packetData && typeof packetData === 'object' && 'receiver' in packetData
+            ? `Received IBC transfer of ${packetData.amount} ${packetData.denom} from ${packetData.sender} to ${packetData.receiver} on ${message.packet?.destination_channel}`
+            : `Relayed IBC packet on ${message.packet?.destination_channel ?? 'unknown channel'}`;
+        break;
+      }
+      case '/ibc.core.channel.v1.MsgAcknowledgement':
+        summary = `Relayed IBC acknowledgement for packet ${message.packet?.sequence} on ${message.packet?.source_channel}`;
+        break;
+      case '/ibc.core.channel.v1.MsgTimeout':
+        summary = `Relayed IBC timeout for packet ${message.packet?.sequence} on ${message.packet?.source_channel}`;
+        break;
+      case '/ibc.core.client.v1.MsgUpdateClient':
+        summary = `Updated IBC client ${message.client_id}`;
+        break;
+      case '/cosmwasm.wasm.v1.MsgExecuteContract': {
+        const msg = this.decodeJsonPayload(message.msg);
+        const action =
+          msg && typeof msg === 'object' && !Array.isArray(msg) ? Object.keys(msg)[0] : null;
+        decoded = { ...fields, msg, action };
+        swaps = this.extractSwaps(events);
+
+        if (swaps.length > 0) {
+          const legs: string[] = [];
+          for (const swap of swaps) {
+            legs.push(
+              `${await format(this.toCoin(swap.offer_amount, swap.offer_asset))} for ${await format(
+                this.toCoin(swap.return_amount, swap.ask_asset),
+              )}`,
+            );
+          }
+          summary = `${message.sender} swapped ${legs.join(', then ')}`;
+        } else {
+          const funds: Coin[] = message.funds ?? [];
+          summary = `${message.sender} executed ${action ?? 'a message'} on ${message.contract}${
+            funds.length > 0 ? ` with ${await format(funds)}` : ''
+          }`;
+        }
+        break;
+      }
+      case '/cosmwasm.wasm.v1.MsgInstantiateContract':
+      case '/cosmwasm.wasm.v1.MsgInstantiateContract2': {
+        const msg = this.decodeJsonPayload(message.msg);
+        const contractAddress = this.findAttribute(events, 'instantiate', '_contract_address');
+        decoded = { ...fields, msg, contract_address: contractAddress };
+        summary = `${message.sender} instantiated code ${message.code_id} as "${message.label}"${
+          contractAddress ? ` at ${contractAddress}` : ''
+        }`;
+        break;
+      }
+      case '/cosmwasm.wasm.v1.MsgMigrateContract':
+        decoded = { ...fields, msg: this.decodeJsonPayload(message.msg) };
+        summary = `${message.sender} migrated ${message.contract} to code ${message.code_id}`;
+        break;
+      case '/cosmwasm.wasm.v1.MsgStoreCode':
+        decoded = {
+          sender: message.sender,
+          instantiate_permission: message.instantiate_permission,
+        };
+        summary = `${message.sender} uploaded code ${
+          this.findAttribute(events, 'store_code', 'code_id') ?? ''
+        }`.trim();
+        break;
+    }
+
+    return {
+      msg_index: index,
+      type,
+      module: this.moduleForType(type),
+      summary,
+      decoded,
+      swaps,
+      events,
+    };
+  }
+
+  /**
+   * Oroswap pairs emit one `wasm` event per hop with `action=swap`, mirroring the attributes
+   * the latest-transactions SQL reads.
+   */
+  private extractSwaps(events: DecodedTxEvent[]): DecodedSwap[] {
+    return events
+      .filter(event => event.type === 'wasm' && event.attributes.action === 'swap')
+      .map(event => ({
+        pool: event.attributes._contract_address ?? null,
+        sender: event.attributes.sender ?? null,
+        receiver: event.attributes.receiver ?? null,
+        offer_asset: event.attributes.offer_asset ?? null,
+        offer_amount: event.attributes.offer_amount ?? null,
+        ask_asset: event.attributes.ask_asset ?? null,
+        return_amount: event.attributes.return_amount ?? null,
+        spread_amount: event.attributes.spread_amount ?? null,
+        commission_amount: event.attributes.commission_amount ?? null,
+      }));
+  }
+
+  private async computeBalanceChanges(
+    events: DecodedTxEvent[],
+    resolveDenom: DenomResolver,
+  ): Promise<BalanceChange[]> {
+    const deltas = new Map<string, Map<string, bigint>>();
+    const apply = (address: string | undefined, raw: string | undefined, sign: bigint) => {
+      if (!address) {
+        return;
+      }
+      const perDenom = deltas.get(address) ?? new Map<string, bigint>();
+      for (const coin of parseCoins(raw)) {
+        perDenom.set(coin.denom, (perDenom.get(coin.denom) ?? 0n) + sign * BigInt(coin.amount));
+      }
+      deltas.set(address, perDenom);
+    };
+
+    for (const event of events) {
+      if (event.type === 'coin_spent') {
+        apply(event.attributes.spender, event.attributes.amount, -1n);
+      } else if (event.type === 'coin_received') {
+        apply(event.attributes.receiver, event.attributes.amount, 1n);
+      }
+    }
+
+    const changes: BalanceChange[] = [];
+    for (const [address, perDenom] of deltas) {
+      for (const [denom, amount] of perDenom) {
+        if (amount === 0n) {
+          continue;
+        }
+        const display = await resolveDenom(denom);
+        changes.push({
+          address,
+          denom,
+          amount: amount.toString(),
+          display_amount: toDisplayAmount(amount.toString(), display.decimals),
+          symbol: display.symbol,
+        });
+      }
+    }
+
+    return changes.sort(
+      (left, right) =>
+        left.address.localeCompare(right.address) || left.denom.localeCompare(right.denom),
+    );
+  }
+
+  private normalizeEvent(event: RawEvent): DecodedTxEvent {
+    const attributes: Record<string, string> = {};
+    for (const attribute of event.attributes ?? []) {
+      if (attribute.key && !(attribute.key in attributes)) {
+        attributes[attribute.key] = attribute.value ?? '';
+      }
+    }
+    return { type: event.type ?? 'unknown', attributes };
+  }
+
+  private findAttribute(events: DecodedTxEvent[], type: string, key: string): string | null {
+    const event = events.find(entry => entry.type === type && entry.attributes[key] !== undefined);
+    return event?.attributes[key] ?? null;
+  }
+
+  /**
+   * Contract and packet payloads arrive either as JSON objects or base64-encoded JSON bytes.
+   */
+  private decodeJsonPayload(value: unknown): unknown {
+    if (typeof value !== 'string') {
+      return value ?? null;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(value, 'base64').toString('utf8'));
+    } catch {
+      return value;
+    }
+  }
+
+  private toCoin(amount: string | null, denom: string | null): Coin | null {
+    return amount && denom ? { amount, denom } : null;
+  }
+
+  private async formatCoins(coins: Coin[], resolveDenom: DenomResolver) {
+    if (coins.length === 0) {
+      return 'nothing';
+    }
+
+    const parts: string[] = [];
+    for (const coin of coins) {
+      const display = await resolveDenom(coin.denom);
+      parts.push(`${toDisplayAmount(coin.amount, display.decimals)} ${display.symbol}`);
+    }
+    return parts.join(', ');
+  }
+
+  private moduleForType(type: string): string {
+    const modules: Array<[string, string]> = [
+      ['/cosmos.bank.', 'bank'],
+      ['/cosmos.staking.', 'staking'],
+      ['/cosmos.distribution.', 'distribution'],
+      ['/cosmos.gov.', 'gov'],
+      ['/ibc.', 'ibc'],
+      ['/cosmwasm.wasm.', 'wasm'],
+    ];
+    return modules.find(([prefix]) => type.startsWith(prefix))?.[1] ?? 'other';
+  }
+
+  private shortType(type: string): string {
+    return type.split('.').pop() ?? type;
+  }
+}
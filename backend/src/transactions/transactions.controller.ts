@@ -10,9 +10,11 @@ import {
   UseInterceptors,
 } from '@nestjs/common';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
-import { TransactionStats } from '../dto/schema.dto';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+import { DecodedTransaction, TransactionStats } from '../dto/schema.dto';
 import { TransactionsService } from './transactions.service';
-import { ApiBearerAuth, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
 import { GetTransactionsQueryDto } from './dto/transaction-query.dto';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 
@@ -20,6 +22,7 @@ import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
 @UseInterceptors(CacheInterceptor)
+@RequireScopes(ApiScope.BLOCKS_READ)
 export class TransactionsController {
   constructor(private readonly transactionsService: TransactionsService) {}
 
@@ -65,6 +68,13 @@ export class TransactionsController {
     description:
       'Height of the last transaction from the previous page; the next batch will return entries strictly older than this height within the requested window.',
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description:
+      'Opaque cursor returned as `next_cursor` by the previous page. Takes precedence over beforeHeight and offset.',
+  })
   async getLatestTransactions(@Query() query: GetTransactionsQueryDto) {
     return this.transactionsService.getLatestTransactions(
       query.limit,
@@ -74,6 +84,7 @@ export class TransactionsController {
       query.endDate,
       query.heightWindow,
       query.beforeHeight,
+      query.cursor,
     );
   }
 
@@ -106,4 +117,25 @@ export class TransactionsController {
 
     return result;
   }
+
+  @Get('transaction/:txHash/decoded')
+  @UseGuards(ApiKeyGuard)
+  @CacheTTL(300)
+  @ApiOperation({
+    summary: 'Decoded transaction with a per-message breakdown',
+    description:
+      'Groups events by msg_index, decodes known bank/staking/distribution/IBC/wasm messages, computes per-address balance changes and adds a readable summary per message.',
+  })
+  async getDecodedTransaction(@Param('txHash') txHash: string): Promise<DecodedTransaction> {
+    const result = await this.transactionsService.getDecodedTransaction(txHash);
+
+    if ('error' in result) {
+      if (result.error.toLowerCase().includes('not found')) {
+        throw new NotFoundException(result.error);
+      }
+      throw new HttpException(result.error, HttpStatus.BAD_GATEWAY);
+    }
+
+    return result;
+  }
 }
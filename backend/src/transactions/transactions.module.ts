@@ -6,11 +6,20 @@ import { ClickhouseModule } from '../clickhouse/clickhouse.module';
 import { TransactionsController } from './transactions.controller';
 import { TransactionsService } from './transactions.service';
 import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { TransactionDecoderService } from './transaction-decoder.service';
 
 @Module({
-  imports: [AuthModule, DatabaseModule, BlockchainModule, ClickhouseModule, ZigscanPostgresModule],
+  imports: [
+    AuthModule,
+    DatabaseModule,
+    BlockchainModule,
+    ClickhouseModule,
+    ZigscanPostgresModule,
+    AccountsModule,
+  ],
   controllers: [TransactionsController],
-  providers: [TransactionsService],
+  providers: [TransactionsService, TransactionDecoderService],
   exports: [TransactionsService],
 })
 export class TransactionsModule {}
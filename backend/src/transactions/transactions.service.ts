@@ -1,8 +1,15 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
 import { ClickhouseService } from '../clickhouse/clickhouse.service';
-import { LatestTxResponse, TransactionStats } from '../dto/schema.dto';
+import { DecodedTransaction, LatestTxResponse, TransactionStats } from '../dto/schema.dto';
 import { BlockchainService } from '../blockchain/blockchain.service';
 import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import {
+  buildNextCursor,
+  decodeCursor,
+  encodeCursor,
+  KeysetCursor,
+} from '../common/utils/cursor.utils';
+import { RawTxResponse, TransactionDecoderService } from './transaction-decoder.service';
 
 // Example Response
 // {
@@ -21,6 +28,7 @@ export class TransactionsService {
     private readonly clickhouseService: ClickhouseService,
     private readonly blockchainService: BlockchainService,
     private readonly zigscanPostgresService: ZigscanPostgresService,
+    private readonly transactionDecoderService: TransactionDecoderService,
   ) {}
 
   async getTransactionStats(): Promise<TransactionStats | Record<string, never>> {
@@ -120,6 +128,28 @@ export class TransactionsService {
     }
   }
 
+  async getDecodedTransaction(txHash: string): Promise<DecodedTransaction | { error: string }> {
+    try {
+      const response = await this.blockchainService.getFromApi<RawTxResponse>(
+        `/cosmos/tx/v1beta1/txs/${txHash}`,
+      );
+
+      if (response.status === 200 && response.data?.tx_response) {
+        return await this.transactionDecoderService.decode(response.data);
+      }
+
+      if (response.status === 404) {
+        return { error: 'Transaction not found' };
+      }
+
+      return { error: `API error: HTTP ${response.status}` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to decode transaction ${txHash}: ${message}`);
+      return { error: `Failed to decode transaction: ${message}` };
+    }
+  }
+
   async getLatestTransactions(
     limit = 10,
     offset = 0,
@@ -128,7 +158,16 @@ export class TransactionsService {
     endDate?: string,
     heightWindow?: number,
     beforeHeight?: number,
-  ): Promise<{ data: LatestTxResponse[]; total_count: number }> {
+    cursor?: string,
+  ): Promise<{ data: LatestTxResponse[]; total_count: number; next_cursor: string | null }> {
+    let keyset: KeysetCursor | null = null;
+    if (cursor) {
+      keyset = decodeCursor(cursor);
+      if (!keyset) {
+        throw new HttpException('Invalid cursor', HttpStatus.BAD_REQUEST);
+      }
+    }
+
     limit = Number(limit);
     offset = Number(offset);
 
@@ -154,8 +193,10 @@ export class TransactionsService {
         ? Math.floor(requestedBeforeHeight)
         : null;
     const effectiveOffsetForCursor = normalizedBeforeHeight !== null ? offset : 0;
-    const upperHeight =
-      normalizedBeforeHeight !== null
+    // A keyset cursor takes precedence over beforeHeight and disables offset paging
+    const upperHeight = keyset
+      ? keyset.height
+      : normalizedBeforeHeight !== null
         ? Math.max(normalizedBeforeHeight - effectiveOffsetForCursor, 0)
         : null;
 
@@ -169,6 +210,14 @@ export class TransactionsService {
     const upperHeightExpr = `${upperHeightPlaceholder}::bigint`;
     const whereConditions: string[] = [`ed.message_type LIKE '/%'`];
 
+    if (keyset) {
+      const heightPlaceholder = addParam(keyset.height);
+      const txIndexPlaceholder = addParam(keyset.txIndex);
+      whereConditions.push(
+        `(u.height, u.tx_index) < (${heightPlaceholder}::bigint, ${txIndexPlaceholder}::int)`,
+      );
+    }
+
     if (action) {
       const placeholder = addParam(action);
       const comparison = action.includes('%') ? `LIKE ${placeholder}` : `= ${placeholder}`;
@@ -254,6 +303,7 @@ event_data AS (
 SELECT
     u.tx_hash,
     u.height,
+    u.tx_index,
     u.block_time,
     u.code,
     u.event_types,
@@ -276,20 +326,66 @@ FROM uniq u
 ${whereClause}
 ORDER BY u.height DESC, u.tx_index DESC
 LIMIT ${limit}
-OFFSET ${normalizedBeforeHeight !== null ? 0 : offset};
+OFFSET ${keyset || normalizedBeforeHeight !== null ? 0 : offset};
     `;
 
     if (action || startDate || endDate) {
       this.logger.log('Applying ZigScan Postgres filters', { action, startDate, endDate });
     }
 
-    const result = await this.zigscanPostgresService.query<LatestTxResponse>(sql, params);
+    const result = await this.zigscanPostgresService.query<
+      LatestTxResponse & { tx_index: number | null }
+    >(sql, params);
+    const nextCursor =
+      buildNextCursor(result.rows, limit) ??
+      (await this.buildWindowCursor(upperHeight, normalizedHeightWindow, startDate));
+
     return {
-      data: result.rows,
+      data: result.rows.map(({ tx_index: _txIndex, ...row }) => row),
       total_count: result.rowCount,
+      next_cursor: nextCursor,
     };
   }
 
+  /**
+   * A short page only means the height window ran out of matches, not the chain. Continue at the
+   * next indexed height below the window (skipping empty stretches), and stop once nothing older
+   * is left or everything older predates `startDate`.
+   */
+  private async buildWindowCursor(
+    upperHeight: number | null,
+    heightWindow: number,
+    startDate?: string,
+  ): Promise<string | null> {
+    const params: Array<string | number | null> = [upperHeight, heightWindow];
+    const startDateCondition = startDate ? `AND at.block_time >= $${params.push(startDate)}` : '';
+
+    const result = await this.zigscanPostgresService.query<{
+      next_height: number | string | null;
+    }>(
+      `
+        WITH bounds AS (
+          SELECT LEAST(COALESCE($1::bigint, MAX(height)), MAX(height)) AS upper_height
+          FROM address_transactions
+        )
+        SELECT MAX(at.height) AS next_height
+        FROM address_transactions at
+        CROSS JOIN bounds b
+        WHERE at.height < b.upper_height - $2
+          ${startDateCondition}
+      `,
+      params,
+    );
+
+    const nextHeight = result.rows[0]?.next_height;
+    if (nextHeight == null) {
+      return null;
+    }
+
+    // Cursors are exclusive, so point one above the next height to keep it on the next page
+    return encodeCursor({ height: Number(nextHeight) + 1, txIndex: 0 });
+  }
+
   async getMessageTypes(): Promise<{
     data: Array<{ transaction_type: string; transaction_count: number }>;
     total_types: number;
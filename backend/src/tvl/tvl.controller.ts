@@ -1,11 +1,14 @@
 import { Controller, Get, HttpException, HttpStatus, UseGuards } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { TvlService, TvlSnapshot } from './tvl.service';
 
 @ApiTags('TVL')
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
+@RequireScopes(ApiScope.DEFI_READ)
 export class TvlController {
   constructor(private readonly tvlService: TvlService) {}
 
@@ -240,6 +240,75 @@ ZIGScan © 2025
     );
   }
 
+  /**
+   * Send a watchlist alert notification
+   */
+  async sendAlertEmail(email: string, subject: string, lines: string[]): Promise<void> {
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const mailOptions: MailDataRequired = {
+      from: this.fromEmail,
+      to: email,
+      subject: `${subject} - ZIGScan`,
+      text: lines.join('\n'),
+      html: `
+        <!DOCTYPE html>
+        <html lang="en">
+          <body style="margin:0; padding:24px; background:#f3f4f6; font-family: 'Poppins', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;">
+            <div style="max-width:600px; margin:0 auto; background:#ffffff; border-radius:16px; border:1px solid #e5e7eb; padding:24px;">
+              <p style="margin:0 0 12px 0; font-size:20px; font-weight:600; color:#111827;">${escape(subject)}</p>
+              ${lines
+                .map(
+                  line =>
+                    `<p style="margin:0 0 8px 0; font-size:15px; line-height:24px; color:#4b5563;">${escape(line)}</p>`,
+                )
+                .join('')}
+              <p style="margin:16px 0 0 0; font-size:13px; color:#6b7280;">Manage your alerts at <a href="${this.frontendUrl}/dashboard" style="color:#4f46e5; text-decoration:none;">${this.frontendUrl}/dashboard</a>.</p>
+            </div>
+          </body>
+        </html>
+      `,
+    };
+
+    await this.sendMail(
+      mailOptions,
+      `✓ Alert email sent to ${email}`,
+      'Failed to send alert email',
+    );
+  }
+
+  /**
+   * Send a scheduled admin query report with the result attached as CSV
+   */
+  async sendQueryReportEmail(
+    email: string,
+    subject: string,
+    lines: string[],
+    attachment: { filename: string; content: string },
+  ): Promise<void> {
+    const mailOptions: MailDataRequired = {
+      from: this.fromEmail,
+      to: email,
+      subject: `${subject} - ZIGScan`,
+      text: lines.join('\n'),
+      attachments: [
+        {
+          content: Buffer.from(attachment.content, 'utf8').toString('base64'),
+          filename: attachment.filename,
+          type: 'text/csv',
+          disposition: 'attachment',
+        },
+      ],
+    };
+
+    await this.sendMail(
+      mailOptions,
+      `✓ Query report email sent to ${email}`,
+      'Failed to send query report email',
+    );
+  }
+
   private async sendMail(
     data: MailDataRequired,
     successMessage: string,
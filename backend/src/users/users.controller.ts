@@ -134,8 +134,12 @@ export class UsersController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Request password reset' })
   @ApiResponse({ status: 200, description: 'Password reset email sent' })
-  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
-    return this.usersService.forgotPassword(forgotPasswordDto.email);
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.usersService.forgotPassword(forgotPasswordDto.email, { ipAddress, userAgent });
   }
 
   @Post('reset-password')
@@ -143,8 +147,15 @@ export class UsersController {
   @ApiOperation({ summary: 'Reset password with token' })
   @ApiResponse({ status: 200, description: 'Password reset successful' })
   @ApiResponse({ status: 400, description: 'Invalid or expired token' })
-  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
-    return this.usersService.resetPassword(resetPasswordDto.token, resetPasswordDto.newPassword);
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.usersService.resetPassword(resetPasswordDto.token, resetPasswordDto.newPassword, {
+      ipAddress,
+      userAgent,
+    });
   }
 
   @Get('profile')
@@ -168,7 +179,15 @@ export class UsersController {
   })
   @ApiResponse({ status: 200, description: 'Account deleted successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized or invalid password' })
-  async deleteAccount(@Request() req: any, @Body() deleteAccountDto: DeleteAccountDto) {
-    return this.usersService.deleteAccount(req.user.id, deleteAccountDto.password);
+  async deleteAccount(
+    @Request() req: any,
+    @Body() deleteAccountDto: DeleteAccountDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    return this.usersService.deleteAccount(req.user.id, deleteAccountDto.password, {
+      ipAddress,
+      userAgent,
+    });
   }
 }
@@ -33,6 +33,6 @@ import { AuthModule } from '../auth/auth.module';
   ],
   controllers: [UsersController],
   providers: [UsersService, SessionService, EmailService, JwtAuthGuard, JwtStrategy],
-  exports: [UsersService, JwtStrategy, PassportModule],
+  exports: [UsersService, EmailService, JwtStrategy, PassportModule],
 })
 export class UsersModule {}
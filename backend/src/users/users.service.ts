@@ -17,6 +17,9 @@ import { LoginDto } from './dto/login.dto';
 import { SessionService } from './session.service';
 import { JwtPayload } from './strategies/jwt.strategy';
 import { EmailService } from './email.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActorType, AuditOutcome } from '../audit/enums/audit-action.enum';
+import { AuditRequestContext } from '../audit/interfaces/audit-event.interface';
 
 @Injectable()
 export class UsersService {
@@ -31,6 +34,7 @@ export class UsersService {
     private readonly jwtService: JwtService,
     private readonly sessionService: SessionService,
     private readonly emailService: EmailService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -111,7 +115,10 @@ export class UsersService {
       .addSelect('user.password')
       .getOne();
 
+    const context = { ipAddress, userAgent };
+
     if (!user) {
+      await this.recordLoginFailure(identifier, null, 'unknown_user', context);
       // Use generic error message to prevent user enumeration
       throw new UnauthorizedException('Invalid credentials');
     }
@@ -119,11 +126,13 @@ export class UsersService {
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await this.recordLoginFailure(identifier, user.id, 'invalid_password', context);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     // Check if email is verified (enforce verification before login)
     if (!user.isVerified) {
+      await this.recordLoginFailure(identifier, user.id, 'email_not_verified', context);
       throw new UnauthorizedException(
         'Please verify your email before logging in. Check your inbox for the verification link.',
       );
@@ -154,6 +163,14 @@ export class UsersService {
     );
 
     this.logger.log(`User logged in: ${user.username}`);
+    await this.auditService.record({
+      action: AuditAction.LOGIN,
+      outcome: AuditOutcome.SUCCESS,
+      actorType: AuditActorType.USER,
+      actorId: user.id,
+      actorLabel: user.email,
+      ...context,
+    });
 
     return {
       message: 'Login successful',
@@ -245,7 +262,10 @@ export class UsersService {
   /**
    * Request password reset
    */
-  async forgotPassword(email: string): Promise<{ message: string }> {
+  async forgotPassword(
+    email: string,
+    context: AuditRequestContext = {},
+  ): Promise<{ message: string }> {
     const user = await this.userRepository
       .createQueryBuilder('user')
       .where('user.email = :email', { email })
@@ -253,6 +273,9 @@ export class UsersService {
       .getOne();
 
     if (!user) {
+      await this.recordPasswordEvent(AuditAction.PASSWORD_RESET_REQUESTED, null, email, context, {
+        reason: 'unknown_email',
+      });
       // Don't reveal if email exists - return success anyway for security
       return {
         message: 'If the email exists, a 6-digit verification code has been sent to your email.',
@@ -267,6 +290,13 @@ export class UsersService {
 
       if (hoursSinceLastRequest < this.RATE_LIMIT_HOURS) {
         const minutesRemaining = Math.ceil((this.RATE_LIMIT_HOURS - hoursSinceLastRequest) * 60);
+        await this.recordPasswordEvent(
+          AuditAction.PASSWORD_RESET_REQUESTED,
+          user.id,
+          user.email,
+          context,
+          { reason: 'rate_limited' },
+        );
         throw new BadRequestException(
           `You can only request a password reset once every 1 minute. Please try again in ${minutesRemaining} second(s).`,
         );
@@ -285,6 +315,12 @@ export class UsersService {
     });
 
     this.logger.log(`Password reset requested for user: ${user.username}`);
+    await this.recordPasswordEvent(
+      AuditAction.PASSWORD_RESET_REQUESTED,
+      user.id,
+      user.email,
+      context,
+    );
 
     // Send reset email
     try {
@@ -304,7 +340,11 @@ export class UsersService {
   /**
    * Reset password with token
    */
-  async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    context: AuditRequestContext = {},
+  ): Promise<{ message: string }> {
     const user = await this.userRepository
       .createQueryBuilder('user')
       .where('user.resetToken = :token', { token })
@@ -312,11 +352,17 @@ export class UsersService {
       .getOne();
 
     if (!user) {
+      await this.recordPasswordEvent(AuditAction.PASSWORD_RESET, null, null, context, {
+        reason: 'invalid_token',
+      });
       throw new BadRequestException('Invalid or expired reset token');
     }
 
     // Check if token is expired
     if (user.resetTokenExpiry && user.resetTokenExpiry < new Date()) {
+      await this.recordPasswordEvent(AuditAction.PASSWORD_RESET, user.id, user.email, context, {
+        reason: 'token_expired',
+      });
       throw new BadRequestException('Reset token has expired. Please request a new one.');
     }
 
@@ -324,6 +370,9 @@ export class UsersService {
     const isSamePassword = await bcrypt.compare(newPassword, user.password);
     if (isSamePassword) {
       this.logger.warn(`User ${user.username} attempted to reset password with the same password`);
+      await this.recordPasswordEvent(AuditAction.PASSWORD_RESET, user.id, user.email, context, {
+        reason: 'same_password',
+      });
       throw new BadRequestException(
         'New password cannot be the same as your current password. Please choose a different password.',
       );
@@ -340,6 +389,7 @@ export class UsersService {
     });
 
     this.logger.log(`Password reset successful for user: ${user.username}`);
+    await this.recordPasswordEvent(AuditAction.PASSWORD_RESET, user.id, user.email, context);
 
     return { message: 'Password reset successful. You can now login with your new password.' };
   }
@@ -409,7 +459,11 @@ export class UsersService {
   /**
    * Delete user account
    */
-  async deleteAccount(userId: string, password: string): Promise<{ message: string }> {
+  async deleteAccount(
+    userId: string,
+    password: string,
+    context: AuditRequestContext = {},
+  ): Promise<{ message: string }> {
     // Find user with password
     const user = await this.userRepository
       .createQueryBuilder('user')
@@ -424,6 +478,17 @@ export class UsersService {
     // Verify password before deletion
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await this.auditService.record({
+        action: AuditAction.ACCOUNT_DELETED,
+        outcome: AuditOutcome.FAILURE,
+        actorType: AuditActorType.USER,
+        actorId: user.id,
+        actorLabel: user.email,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { reason: 'invalid_password' },
+        ...context,
+      });
       throw new UnauthorizedException('Invalid password. Account deletion cancelled.');
     }
 
@@ -434,12 +499,58 @@ export class UsersService {
     await this.userRepository.delete(userId);
 
     this.logger.log(`User account deleted: ${user.username} (${user.email})`);
+    await this.auditService.record({
+      action: AuditAction.ACCOUNT_DELETED,
+      outcome: AuditOutcome.SUCCESS,
+      actorType: AuditActorType.USER,
+      actorId: user.id,
+      actorLabel: user.email,
+      targetType: 'user',
+      targetId: user.id,
+      metadata: { username: user.username },
+      ...context,
+    });
 
     return {
       message: 'Your account has been permanently deleted. All your data has been removed.',
     };
   }
 
+  private async recordLoginFailure(
+    identifier: string,
+    userId: string | null,
+    reason: string,
+    context: AuditRequestContext,
+  ): Promise<void> {
+    await this.auditService.record({
+      action: AuditAction.LOGIN_FAILED,
+      outcome: AuditOutcome.FAILURE,
+      actorType: userId ? AuditActorType.USER : AuditActorType.ANONYMOUS,
+      actorId: userId,
+      actorLabel: identifier,
+      metadata: { reason },
+      ...context,
+    });
+  }
+
+  private async recordPasswordEvent(
+    action: AuditAction.PASSWORD_RESET | AuditAction.PASSWORD_RESET_REQUESTED,
+    userId: string | null,
+    email: string | null,
+    context: AuditRequestContext,
+    failure?: { reason: string },
+  ): Promise<void> {
+    await this.auditService.record({
+      action,
+      outcome: failure ? AuditOutcome.FAILURE : AuditOutcome.SUCCESS,
+      actorType: userId ? AuditActorType.USER : AuditActorType.ANONYMOUS,
+      actorId: userId,
+      actorLabel: email,
+      metadata: failure,
+      ...context,
+    });
+  }
+
   /**
    * Validate user by ID (for guards)
    */
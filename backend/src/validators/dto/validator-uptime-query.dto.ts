@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ValidatorUptimeQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of most recent tracked blocks to evaluate',
+    default: 100,
+    minimum: 1,
+    maximum: 20000,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20000)
+  blocks = 100;
+}
+
+export class MissedBlocksQueryDto extends ValidatorUptimeQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of consecutive blocks per heatmap cell',
+    default: 1,
+    minimum: 1,
+    maximum: 1000,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  bucket_size = 1;
+}
@@ -0,0 +1,18 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class VotingPowerHistoryQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of daily snapshots to return, counting back from today',
+    default: 30,
+    minimum: 1,
+    maximum: 365,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days = 30;
+}
@@ -0,0 +1,4 @@
+export enum ValidatorJailEventType {
+  JAILED = 'jailed',
+  UNJAILED = 'unjailed',
+}
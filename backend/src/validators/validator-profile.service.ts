@@ -0,0 +1,425 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { toAccountAddress } from '../common/utils/address.utils';
+import { ValidatorPowerSnapshot } from '../database/entities/validator-power-snapshot.entity';
+import { ZigscanPostgresService } from '../zigscan-postgres/zigscan-postgres.service';
+import { VotingPowerHistoryQueryDto } from './dto/voting-power-history-query.dto';
+
+export interface ValidatorDelegator {
+  delegator_address: string;
+  shares: string;
+  amount: string;
+  denom: string;
+  share_of_validator: number;
+}
+
+export interface ValidatorDelegators {
+  validator_address: string;
+  total_count: number;
+  total_stake: string;
+  data: ValidatorDelegator[];
+  limit: number;
+  offset: number;
+}
+
+export interface VotingPowerHistory {
+  validator_address: string;
+  points: Array<{
+    date: string;
+    tokens: string;
+    voting_power: string;
+    // Share of all bonded tokens that day; null while the validator is outside the active set
+    share_of_bonded: number | null;
+    rank: number | null;
+    status: string;
+    jailed: boolean;
+    commission_rate: string;
+  }>;
+}
+
+export interface CommissionHistory {
+  validator_address: string;
+  current: {
+    rate: string;
+    max_rate: string;
+    max_change_rate: string;
+    update_time: string;
+  };
+  changes: Array<{
+    tx_hash: string;
+    height: number;
+    block_time: string;
+    // Null for the oldest indexed edit, whose preceding rate is not known
+    previous_rate: string | null;
+    new_rate: string;
+  }>;
+}
+
+export interface ValidatorSelfBond {
+  validator_address: string;
+  account_address: string;
+  amount: string;
+  denom: string;
+  shares: string;
+  min_self_delegation: string;
+  share_of_tokens: number;
+}
+
+const BOND_DENOM = 'uzig';
+// Consensus voting power is bonded tokens divided by the staking power reduction
+const POWER_REDUCTION = 1_000_000n;
+
+@Injectable()
+export class ValidatorProfileService {
+  private readonly logger = new Logger(ValidatorProfileService.name);
+  private readonly DELEGATIONS_TTL_MS = 60 * 1000;
+  private readonly MAX_COMMISSION_EVENTS = 500;
+  private readonly delegationsCache = new Map<
+    string,
+    { delegations: ValidatorDelegator[]; totalStake: bigint; fetchedAt: number }
+  >();
+
+  constructor(
+    @InjectRepository(ValidatorPowerSnapshot)
+    private readonly snapshotRepository: Repository<ValidatorPowerSnapshot>,
+    private readonly blockchainService: BlockchainService,
+    private readonly zigscanPostgresService: ZigscanPostgresService,
+  ) {}
+
+  /**
+   * Delegations to a validator ordered by stake, largest first. The LCD cannot sort, so every
+   * page is fetched and the sorted list is cached briefly per validator.
+   */
+  async getDelegators(
+    operatorAddress: string,
+    query: PaginationQueryDto,
+  ): Promise<ValidatorDelegators | { error: string }> {
+    if (!toAccountAddress(operatorAddress)) {
+      return { error: 'Invalid validator address' };
+    }
+
+    const limit = query.limit ?? 10;
+    const offset = query.offset ?? 0;
+
+    try {
+      let cached = this.delegationsCache.get(operatorAddress);
+      if (!cached || Date.now() - cached.fetchedAt >= this.DELEGATIONS_TTL_MS) {
+        const delegations = await this.fetchAllDelegations(operatorAddress);
+        if ('error' in delegations) {
+          return delegations;
+        }
+        cached = { ...delegations, fetchedAt: Date.now() };
+        this.delegationsCache.set(operatorAddress, cached);
+      }
+
+      return {
+        validator_address: operatorAddress,
+        total_count: cached.delegations.length,
+        total_stake: cached.totalStake.toString(),
+        data: cached.delegations.slice(offset, offset + limit),
+        limit,
+        offset,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch delegators for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Daily voting power from validator_power_snapshots, oldest first. Days before snapshots
+   * started being captured are simply absent.
+   */
+  async getVotingPowerHistory(
+    operatorAddress: string,
+    query: VotingPowerHistoryQueryDto,
+  ): Promise<VotingPowerHistory | { error: string }> {
+    if (!toAccountAddress(operatorAddress)) {
+      return { error: 'Invalid validator address' };
+    }
+
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - ((query.days ?? 30) - 1));
+
+    try {
+      const rows: Array<{
+        snapshot_date: string | Date;
+        tokens: string;
+        status: string;
+        jailed: boolean;
+        commission_rate: string;
+        bonded_total: string | null;
+        rank: string | null;
+      }> = await this.snapshotRepository.query(
+        `
+          WITH daily AS (
+              SELECT operator_address,
+                     snapshot_date,
+                     tokens,
+                     status,
+                     jailed,
+                     commission_rate,
+                     SUM(tokens) FILTER (WHERE status = 'BOND_STATUS_BONDED')
+                         OVER (PARTITION BY snapshot_date) AS bonded_total,
+                     CASE
+                         WHEN status = 'BOND_STATUS_BONDED' THEN
+                             RANK() OVER (
+                                 PARTITION BY snapshot_date, status = 'BOND_STATUS_BONDED'
+                                 ORDER BY tokens DESC
+                             )
+                     END AS rank
+              FROM validator_power_snapshots
+              WHERE snapshot_date >= $2
+          )
+          SELECT snapshot_date, tokens::text AS tokens, status, jailed,
+                 commission_rate::text AS commission_rate, bonded_total::text AS bonded_total, rank
+          FROM daily
+          WHERE operator_address = $1
+          ORDER BY snapshot_date
+        `,
+        [operatorAddress, since.toISOString().slice(0, 10)],
+      );
+
+      return {
+        validator_address: operatorAddress,
+        points: rows.map(row => {
+          const bonded = row.status === 'BOND_STATUS_BONDED';
+          const bondedTotal = Number(row.bonded_total ?? 0);
+          return {
+            date:
+              row.snapshot_date instanceof Date
+                ? row.snapshot_date.toISOString().slice(0, 10)
+                : row.snapshot_date,
+            tokens: row.tokens,
+            voting_power: (BigInt(row.tokens) / POWER_REDUCTION).toString(),
+            share_of_bonded:
+              bonded && bondedTotal > 0
+                ? Number((Number(row.tokens) / bondedTotal).toFixed(6))
+                : null,
+            rank: bonded && row.rank ? Number(row.rank) : null,
+            status: row.status,
+            jailed: row.jailed,
+            commission_rate: row.commission_rate,
+          };
+        }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch voting power history for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Commission rate changes from the validator's indexed edit_validator messages, newest first.
+   * Edits that left the rate unchanged (description or min self delegation only) are dropped.
+   */
+  async getCommissionHistory(
+    operatorAddress: string,
+  ): Promise<CommissionHistory | { error: string }> {
+    const accountAddress = toAccountAddress(operatorAddress);
+    if (!accountAddress) {
+      return { error: 'Invalid validator address' };
+    }
+
+    try {
+      const validator = await this.fetchValidator(operatorAddress);
+
+      // edit_validator events carry no validator attribute, so they are attributed through the
+      // message signer, which is always the operator's own account
+      const result = await this.zigscanPostgresService.query<{
+        tx_hash: string;
+        height: number;
+        block_time: Date | string;
+        commission_rate: string | null;
+      }>(
+        `
+          SELECT at.tx_hash, at.height, at.block_time, e.attributes ->> 'commission_rate' AS commission_rate
+          FROM (
+              SELECT DISTINCT tx_hash, height, tx_index, block_time
+              FROM address_transactions
+              WHERE address = $1
+                AND code = 0
+          ) at
+          JOIN events e ON e.tx_hash = at.tx_hash AND e.event_type = 'edit_validator'
+          WHERE EXISTS (
+              SELECT 1
+              FROM events m
+              WHERE m.tx_hash = at.tx_hash
+                AND m.event_type = 'message'
+                AND m.attributes ->> 'sender' = $1
+                AND (m.attributes ->> 'msg_index') IS NOT DISTINCT FROM (e.attributes ->> 'msg_index')
+          )
+          ORDER BY at.height DESC, at.tx_index DESC
+          LIMIT $2
+        `,
+        [accountAddress, this.MAX_COMMISSION_EVENTS],
+      );
+
+      // Newest edits were fetched first; walk them oldest to newest to pair up previous rates
+      const changes: CommissionHistory['changes'] = [];
+      let previousRate: string | null = null;
+      for (const row of [...result.rows].reverse()) {
+        const rate = this.parseCommissionRate(row.commission_rate);
+        if (!rate || rate === previousRate) {
+          continue;
+        }
+        changes.push({
+          tx_hash: row.tx_hash,
+          height: Number(row.height),
+          block_time: new Date(row.block_time).toISOString(),
+          previous_rate: previousRate,
+          new_rate: rate,
+        });
+        previousRate = rate;
+      }
+
+      const commission = (validator.commission ?? {}) as Record<string, any>;
+      const rates = (commission.commission_rates ?? {}) as Record<string, string>;
+
+      return {
+        validator_address: operatorAddress,
+        current: {
+          rate: rates.rate,
+          max_rate: rates.max_rate,
+          max_change_rate: rates.max_change_rate,
+          update_time: commission.update_time,
+        },
+        changes: changes.reverse(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch commission history for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * The `commission_rate` attribute holds the whole `Commission` struct as text, e.g.
+   * `commission_rates:<rate:"50000000000000000" max_rate:... > update_time:<...>`. Returns its
+   * `rate` as an 18-decimal string, the format the LCD uses.
+   */
+  private parseCommissionRate(raw: string | null): string | null {
+    if (!raw) {
+      return null;
+    }
+    const match = /^\s*([0-9.]+)\s*$/.exec(raw) ?? /(?:^|[^\w])rate:\s*"?([0-9.]+)"?/.exec(raw);
+    if (!match) {
+      return null;
+    }
+
+    const value = match[1];
+    if (value.includes('.')) {
+      const [whole, fraction = ''] = value.split('.');
+      return `${BigInt(whole || '0')}.${fraction.padEnd(18, '0').slice(0, 18)}`;
+    }
+    // Protobuf text encodes LegacyDec as its integer scaled by 10^18
+    const padded = value.padStart(19, '0');
+    return `${BigInt(padded.slice(0, -18))}.${padded.slice(-18)}`;
+  }
+
+  async getSelfBond(operatorAddress: string): Promise<ValidatorSelfBond | { error: string }> {
+    const accountAddress = toAccountAddress(operatorAddress);
+    if (!accountAddress) {
+      return { error: 'Invalid validator address' };
+    }
+
+    try {
+      const [validator, response] = await Promise.all([
+        this.fetchValidator(operatorAddress),
+        this.blockchainService.getFromApi<Record<string, any>>(
+          `/cosmos/staking/v1beta1/validators/${operatorAddress}/delegations/${accountAddress}`,
+        ),
+      ]);
+
+      // The LCD answers 404 (or 400 on some versions) when the operator has no self delegation
+      const delegation = response.status === 200 ? response.data?.delegation_response : null;
+      if (!delegation && response.status !== 404 && response.status !== 400) {
+        return { error: `Failed to fetch self delegation: HTTP ${response.status}` };
+      }
+
+      const amount = delegation?.balance?.amount ?? '0';
+      const tokens = Number(validator.tokens ?? 0);
+
+      return {
+        validator_address: operatorAddress,
+        account_address: accountAddress,
+        amount,
+        denom: delegation?.balance?.denom ?? BOND_DENOM,
+        shares: delegation?.delegation?.shares ?? '0',
+        min_self_delegation: validator.min_self_delegation ?? '0',
+        share_of_tokens: tokens > 0 ? Number((Number(amount) / tokens).toFixed(6)) : 0,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch self bond for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private async fetchAllDelegations(
+    operatorAddress: string,
+  ): Promise<{ delegations: ValidatorDelegator[]; totalStake: bigint } | { error: string }> {
+    const raw: Array<{ delegation: Record<string, string>; balance: Record<string, string> }> = [];
+    let nextKey: string | null = null;
+
+    do {
+      const response = await this.blockchainService.getFromApi<Record<string, any>>(
+        `/cosmos/staking/v1beta1/validators/${operatorAddress}/delegations`,
+        {
+          params: {
+            'pagination.limit': 1000,
+            ...(nextKey ? { 'pagination.key': nextKey } : {}),
+          },
+        },
+      );
+
+      if (response.status === 404) {
+        return { error: `Validator not found: ${operatorAddress}` };
+      }
+      if (response.status !== 200 || !response.data) {
+        return { error: `Failed to fetch delegations: HTTP ${response.status}` };
+      }
+
+      raw.push(...(response.data.delegation_responses ?? []));
+      nextKey = response.data.pagination?.next_key ?? null;
+    } while (nextKey);
+
+    const totalStake = raw.reduce((sum, item) => sum + BigInt(item.balance?.amount ?? '0'), 0n);
+    const delegations = raw
+      .map(item => ({
+        delegator_address: item.delegation.delegator_address,
+        shares: item.delegation.shares,
+        amount: item.balance?.amount ?? '0',
+        denom: item.balance?.denom ?? BOND_DENOM,
+        share_of_validator:
+          totalStake > 0n
+            ? Number((Number(item.balance?.amount ?? 0) / Number(totalStake)).toFixed(6))
+            : 0,
+      }))
+      .sort((a, b) => {
+        const difference = BigInt(b.amount) - BigInt(a.amount);
+        return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+      });
+
+    return { delegations, totalStake };
+  }
+
+  private async fetchValidator(operatorAddress: string): Promise<Record<string, any>> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/cosmos/staking/v1beta1/validators/${operatorAddress}`,
+    );
+
+    if (response.status === 404) {
+      throw new Error(`Validator not found: ${operatorAddress}`);
+    }
+    if (response.status !== 200 || !response.data?.validator) {
+      throw new Error(`Validator lookup failed: HTTP ${response.status}`);
+    }
+    return response.data.validator as Record<string, any>;
+  }
+}
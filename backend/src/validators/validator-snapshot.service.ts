@@ -0,0 +1,67 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ValidatorPowerSnapshot } from '../database/entities/validator-power-snapshot.entity';
+import { ValidatorsService } from './validators.service';
+
+/**
+ * Keeps today's row in validator_power_snapshots up to date for every validator, which builds
+ * the daily voting power and commission series the LCD cannot provide.
+ */
+@Injectable()
+export class ValidatorSnapshotService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ValidatorSnapshotService.name);
+  private readonly pollIntervalMs = 60 * 60 * 1000;
+  private snapshotTimer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(ValidatorPowerSnapshot)
+    private readonly snapshotRepository: Repository<ValidatorPowerSnapshot>,
+    private readonly validatorsService: ValidatorsService,
+  ) {}
+
+  onModuleInit(): void {
+    // Capture right away so restarts inside the hour cannot skip a day
+    void this.captureSnapshot();
+    this.snapshotTimer = setInterval(() => {
+      void this.captureSnapshot();
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+    }
+  }
+
+  private async captureSnapshot(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const validators = await this.validatorsService.listAllValidators();
+      const snapshotDate = new Date().toISOString().slice(0, 10);
+
+      await this.snapshotRepository.upsert(
+        validators.map(validator => ({
+          operatorAddress: validator.operator_address,
+          snapshotDate,
+          tokens: validator.tokens ?? '0',
+          delegatorShares: validator.delegator_shares ?? '0',
+          commissionRate: validator.commission?.commission_rates?.rate ?? '0',
+          status: validator.status,
+          jailed: Boolean(validator.jailed),
+        })),
+        ['operatorAddress', 'snapshotDate'],
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to capture validator snapshot: ${message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { BlocksService } from '../blocks/blocks.service';
+import { consensusAddressFromPubkey, toConsensusBech32 } from '../common/utils/address.utils';
+import { ValidatorBlockSignature } from '../database/entities/validator-block-signature.entity';
+import { ValidatorJailEvent } from '../database/entities/validator-jail-event.entity';
+import { ValidatorJailEventType } from './enums/validator-jail-event.enum';
+import { ValidatorsService } from './validators.service';
+
+// Number of recent blocks whose signatures are kept; uptime windows are capped to this
+export const UPTIME_RETENTION_BLOCKS = 20_000;
+
+/**
+ * Records the signers of every new block commit into validator_block_signatures and notices
+ * validators being jailed or unjailed, which the LCD only exposes as current state.
+ */
+@Injectable()
+export class ValidatorUptimeTrackerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ValidatorUptimeTrackerService.name);
+  private readonly pollIntervalMs = 15_000;
+  private readonly MAX_BLOCKS_PER_RUN = 100;
+  private trackingTimer?: NodeJS.Timeout;
+  private running = false;
+  // Last seen jailed flag per operator address; loaded from validator_jail_events on first run
+  private jailedState: Map<string, boolean> | null = null;
+
+  constructor(
+    @InjectRepository(ValidatorBlockSignature)
+    private readonly signatureRepository: Repository<ValidatorBlockSignature>,
+    @InjectRepository(ValidatorJailEvent)
+    private readonly jailEventRepository: Repository<ValidatorJailEvent>,
+    private readonly blockchainService: BlockchainService,
+    private readonly blocksService: BlocksService,
+    private readonly validatorsService: ValidatorsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.trackingTimer = setInterval(() => {
+      void this.track();
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.trackingTimer) {
+      clearInterval(this.trackingTimer);
+    }
+  }
+
+  private async track(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const latestHeight = await this.getLatestHeight();
+      await this.recordSignatures(latestHeight);
+      await this.detectJailChanges(latestHeight);
+      await this.signatureRepository.delete({
+        height: LessThan(String(latestHeight - UPTIME_RETENTION_BLOCKS)),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Validator uptime tracking run failed: ${message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async recordSignatures(latestHeight: number): Promise<void> {
+    const result = await this.signatureRepository
+      .createQueryBuilder('signature')
+      .select('MAX(signature.height)', 'height')
+      .getRawOne<{ height: string | null }>();
+
+    // The commit for height H is carried in block H + 1, so the newest recordable height is
+    // latest - 1. A fresh install, or one that fell behind the retention window, starts near tip.
+    const lastRecorded = result?.height ? Number(result.height) : latestHeight - 2;
+    const start = Math.max(lastRecorded + 1, latestHeight - UPTIME_RETENTION_BLOCKS);
+    const end = Math.min(latestHeight - 1, start + this.MAX_BLOCKS_PER_RUN - 1);
+
+    for (let height = start; height <= end; height += 1) {
+      const [block, validatorSet] = await Promise.all([
+        this.blocksService.getBlockDetail(height + 1) as Promise<Record<string, any>>,
+        this.getValidatorSet(height),
+      ]);
+
+      const signatures = (block.block?.last_commit?.signatures ?? []) as Array<{
+        block_id_flag: string;
+        validator_address: string;
+        timestamp: string;
+      }>;
+      const committed = signatures.filter(
+        signature => signature.block_id_flag === 'BLOCK_ID_FLAG_COMMIT',
+      );
+      const signers = committed.map(signature =>
+        Buffer.from(signature.validator_address, 'base64').toString('hex').toUpperCase(),
+      );
+      const signerSet = new Set(signers);
+
+      await this.signatureRepository.save({
+        height: String(height),
+        blockTime: committed[0]?.timestamp ? new Date(committed[0].timestamp) : null,
+        signers,
+        absent: validatorSet.filter(address => !signerSet.has(address)),
+      });
+    }
+  }
+
+  /**
+   * Hex consensus addresses of the validator set that was expected to sign `height`
+   */
+  private async getValidatorSet(height: number): Promise<string[]> {
+    const addresses: string[] = [];
+    const perPage = 100;
+
+    for (let page = 1; ; page += 1) {
+      const response = await this.blockchainService.getFromRpc<Record<string, any>>('/validators', {
+        params: { height, page, per_page: perPage },
+      });
+      if (response.status !== 200 || !response.data?.result) {
+        throw new Error(`Failed to fetch validator set at ${height}: HTTP ${response.status}`);
+      }
+
+      const validators = (response.data.result.validators ?? []) as Array<{ address: string }>;
+      addresses.push(...validators.map(validator => validator.address.toUpperCase()));
+
+      const total = Number(response.data.result.total ?? addresses.length);
+      if (addresses.length >= total || validators.length < perPage) {
+        return addresses;
+      }
+    }
+  }
+
+  private async detectJailChanges(latestHeight: number): Promise<void> {
+    const validators = await this.validatorsService.listAllValidators();
+
+    if (!this.jailedState) {
+      // Validators without recorded events start from their current state, not as a change
+      const latestEvents: Array<{ operator_address: string; event: ValidatorJailEventType }> =
+        await this.jailEventRepository.query(`
+          SELECT DISTINCT ON (operator_address) operator_address, event
+          FROM validator_jail_events
+          ORDER BY operator_address, id DESC
+        `);
+      const recorded = new Map(
+        latestEvents.map(row => [
+          row.operator_address,
+          row.event === ValidatorJailEventType.JAILED,
+        ]),
+      );
+      this.jailedState = new Map(
+        validators.map(validator => [
+          validator.operator_address as string,
+          recorded.get(validator.operator_address) ?? Boolean(validator.jailed),
+        ]),
+      );
+    }
+
+    for (const validator of validators) {
+      const operatorAddress = validator.operator_address as string;
+      const jailed = Boolean(validator.jailed);
+      const previous = this.jailedState.get(operatorAddress);
+      this.jailedState.set(operatorAddress, jailed);
+
+      if (previous === undefined || previous === jailed) {
+        continue;
+      }
+
+      const consensusHex = consensusAddressFromPubkey(validator.consensus_pubkey);
+      const consensusAddress = consensusHex
+        ? toConsensusBech32(operatorAddress, consensusHex)
+        : null;
+      const signingInfo =
+        jailed && consensusAddress ? await this.getSigningInfo(consensusAddress) : null;
+
+      await this.jailEventRepository.save(
+        this.jailEventRepository.create({
+          operatorAddress,
+          consensusAddress,
+          event: jailed ? ValidatorJailEventType.JAILED : ValidatorJailEventType.UNJAILED,
+          height: String(latestHeight),
+          reason: signingInfo ? (signingInfo.tombstoned ? 'double_sign' : 'downtime') : null,
+          jailedUntil: signingInfo?.jailed_until ? new Date(signingInfo.jailed_until) : null,
+        }),
+      );
+      this.logger.log(
+        `Validator ${operatorAddress} ${jailed ? 'jailed' : 'unjailed'} around height ${latestHeight}`,
+      );
+    }
+  }
+
+  private async getSigningInfo(
+    consensusAddress: string,
+  ): Promise<{ tombstoned?: boolean; jailed_until?: string } | null> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      `/cosmos/slashing/v1beta1/signing_infos/${consensusAddress}`,
+    );
+    return response.status === 200 ? (response.data?.val_signing_info ?? null) : null;
+  }
+
+  private async getLatestHeight(): Promise<number> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      '/cosmos/base/tendermint/v1beta1/blocks/latest',
+    );
+    const height = Number(response.data?.block?.header?.height);
+    if (response.status !== 200 || !Number.isFinite(height)) {
+      throw new Error(`Failed to fetch latest block: HTTP ${response.status}`);
+    }
+    return height;
+  }
+}
@@ -0,0 +1,305 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { consensusAddressFromPubkey, toConsensusBech32 } from '../common/utils/address.utils';
+import { ValidatorBlockSignature } from '../database/entities/validator-block-signature.entity';
+import { ValidatorJailEvent } from '../database/entities/validator-jail-event.entity';
+import { MissedBlocksQueryDto, ValidatorUptimeQueryDto } from './dto/validator-uptime-query.dto';
+import { ValidatorJailEventType } from './enums/validator-jail-event.enum';
+import { ValidatorsService } from './validators.service';
+
+export interface ValidatorUptime {
+  operator_address: string;
+  consensus_address: string;
+  from_height: number | null;
+  to_height: number | null;
+  tracked_blocks: number;
+  signed_blocks: number;
+  missed_blocks: number;
+  // Null when the validator was not in the active set for any of the tracked blocks
+  uptime: number | null;
+}
+
+export interface MissedBlocksHeatmap {
+  operator_address: string;
+  consensus_address: string;
+  bucket_size: number;
+  buckets: Array<{
+    start_height: number;
+    end_height: number;
+    signed: number;
+    missed: number;
+  }>;
+}
+
+export interface ValidatorSigningInfo {
+  operator_address: string;
+  consensus_address: string;
+  start_height: string;
+  index_offset: string;
+  jailed_until: string;
+  tombstoned: boolean;
+  missed_blocks_counter: string;
+  signed_blocks_window: string;
+  min_signed_per_window: string;
+  // Share of the slashing window signed, as the slashing module counts it
+  window_uptime: number | null;
+  // Missed blocks left before the validator falls below min_signed_per_window and is jailed
+  missed_blocks_until_jail: number | null;
+}
+
+export interface ValidatorJailHistory {
+  operator_address: string;
+  consensus_address: string;
+  jailed: boolean;
+  tombstoned: boolean;
+  jailed_until: string | null;
+  events: Array<{
+    event: ValidatorJailEventType;
+    height: string;
+    reason: string | null;
+    jailed_until: string | null;
+    detected_at: string;
+  }>;
+}
+
+interface ConsensusIdentity {
+  hex: string;
+  bech32: string;
+  jailed: boolean;
+}
+
+@Injectable()
+export class ValidatorUptimeService {
+  private readonly logger = new Logger(ValidatorUptimeService.name);
+
+  constructor(
+    @InjectRepository(ValidatorBlockSignature)
+    private readonly signatureRepository: Repository<ValidatorBlockSignature>,
+    @InjectRepository(ValidatorJailEvent)
+    private readonly jailEventRepository: Repository<ValidatorJailEvent>,
+    private readonly blockchainService: BlockchainService,
+    private readonly validatorsService: ValidatorsService,
+  ) {}
+
+  /**
+   * Signed and missed counts over the most recent tracked blocks. Blocks where the validator was
+   * outside the active set count as neither.
+   */
+  async getUptime(
+    operatorAddress: string,
+    query: ValidatorUptimeQueryDto,
+  ): Promise<ValidatorUptime | { error: string }> {
+    const identity = await this.resolveConsensusIdentity(operatorAddress);
+    if ('error' in identity) {
+      return identity;
+    }
+
+    try {
+      const [row] = await this.signatureRepository.query(
+        `
+          SELECT MIN(height) AS from_height,
+                 MAX(height) AS to_height,
+                 COUNT(*) AS tracked_blocks,
+                 COUNT(*) FILTER (WHERE $1 = ANY(signers)) AS signed_blocks,
+                 COUNT(*) FILTER (WHERE $1 = ANY(absent)) AS missed_blocks
+          FROM (
+              SELECT height, signers, absent
+              FROM validator_block_signatures
+              ORDER BY height DESC
+              LIMIT $2
+          ) recent
+        `,
+        [identity.hex, query.blocks ?? 100],
+      );
+
+      const signed = Number(row?.signed_blocks ?? 0);
+      const missed = Number(row?.missed_blocks ?? 0);
+
+      return {
+        operator_address: operatorAddress,
+        consensus_address: identity.bech32,
+        from_height: row?.from_height ? Number(row.from_height) : null,
+        to_height: row?.to_height ? Number(row.to_height) : null,
+        tracked_blocks: Number(row?.tracked_blocks ?? 0),
+        signed_blocks: signed,
+        missed_blocks: missed,
+        uptime: signed + missed > 0 ? Number((signed / (signed + missed)).toFixed(4)) : null,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to compute uptime for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Signed / missed counts per run of `bucket_size` consecutive heights, oldest first
+   */
+  async getMissedBlocksHeatmap(
+    operatorAddress: string,
+    query: MissedBlocksQueryDto,
+  ): Promise<MissedBlocksHeatmap | { error: string }> {
+    const identity = await this.resolveConsensusIdentity(operatorAddress);
+    if ('error' in identity) {
+      return identity;
+    }
+
+    const bucketSize = query.bucket_size ?? 1;
+
+    try {
+      const rows: Array<{
+        bucket: string;
+        start_height: string;
+        end_height: string;
+        signed: string;
+        missed: string;
+      }> = await this.signatureRepository.query(
+        `
+          SELECT height / $3 AS bucket,
+                 MIN(height) AS start_height,
+                 MAX(height) AS end_height,
+                 COUNT(*) FILTER (WHERE $1 = ANY(signers)) AS signed,
+                 COUNT(*) FILTER (WHERE $1 = ANY(absent)) AS missed
+          FROM (
+              SELECT height, signers, absent
+              FROM validator_block_signatures
+              ORDER BY height DESC
+              LIMIT $2
+          ) recent
+          GROUP BY 1
+          ORDER BY 1
+        `,
+        [identity.hex, query.blocks ?? 100, bucketSize],
+      );
+
+      return {
+        operator_address: operatorAddress,
+        consensus_address: identity.bech32,
+        bucket_size: bucketSize,
+        buckets: rows.map(row => ({
+          start_height: Number(row.start_height),
+          end_height: Number(row.end_height),
+          signed: Number(row.signed),
+          missed: Number(row.missed),
+        })),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to build missed blocks heatmap for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  async getSigningInfo(operatorAddress: string): Promise<ValidatorSigningInfo | { error: string }> {
+    const identity = await this.resolveConsensusIdentity(operatorAddress);
+    if ('error' in identity) {
+      return identity;
+    }
+
+    try {
+      const [infoResponse, paramsResponse] = await Promise.all([
+        this.blockchainService.getFromApi<Record<string, any>>(
+          `/cosmos/slashing/v1beta1/signing_infos/${identity.bech32}`,
+        ),
+        this.blockchainService.getFromApi<Record<string, any>>('/cosmos/slashing/v1beta1/params'),
+      ]);
+
+      if (infoResponse.status === 404) {
+        return { error: `Signing info not found for ${identity.bech32}` };
+      }
+      if (infoResponse.status !== 200 || paramsResponse.status !== 200) {
+        return {
+          error: `Failed to fetch signing info: HTTP ${infoResponse.status}/${paramsResponse.status}`,
+        };
+      }
+
+      const info = (infoResponse.data?.val_signing_info ?? {}) as Record<string, any>;
+      const params = (paramsResponse.data?.params ?? {}) as Record<string, any>;
+      const window = Number(params.signed_blocks_window ?? 0);
+      const missed = Number(info.missed_blocks_counter ?? 0);
+      const maxMissed = Math.floor(window * (1 - Number(params.min_signed_per_window ?? 0)));
+
+      return {
+        operator_address: operatorAddress,
+        consensus_address: identity.bech32,
+        start_height: info.start_height ?? '0',
+        index_offset: info.index_offset ?? '0',
+        jailed_until: info.jailed_until ?? null,
+        tombstoned: Boolean(info.tombstoned),
+        missed_blocks_counter: info.missed_blocks_counter ?? '0',
+        signed_blocks_window: params.signed_blocks_window ?? null,
+        min_signed_per_window: params.min_signed_per_window ?? null,
+        window_uptime: window > 0 ? Number(((window - missed) / window).toFixed(4)) : null,
+        missed_blocks_until_jail: window > 0 ? Math.max(maxMissed - missed, 0) : null,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch signing info for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  /**
+   * Jail and unjail transitions seen by the uptime tracker, newest first. Transitions before the
+   * tracker was deployed are not available.
+   */
+  async getJailHistory(operatorAddress: string): Promise<ValidatorJailHistory | { error: string }> {
+    const identity = await this.resolveConsensusIdentity(operatorAddress);
+    if ('error' in identity) {
+      return identity;
+    }
+
+    try {
+      const [events, signingInfo] = await Promise.all([
+        this.jailEventRepository.find({
+          where: { operatorAddress },
+          order: { createdAt: 'DESC', id: 'DESC' },
+        }),
+        this.getSigningInfo(operatorAddress),
+      ]);
+
+      const info = 'error' in signingInfo ? null : signingInfo;
+
+      return {
+        operator_address: operatorAddress,
+        consensus_address: identity.bech32,
+        jailed: identity.jailed,
+        tombstoned: info?.tombstoned ?? false,
+        jailed_until: identity.jailed ? (info?.jailed_until ?? null) : null,
+        events: events.map(event => ({
+          event: event.event,
+          height: event.height,
+          reason: event.reason,
+          jailed_until: event.jailedUntil ? event.jailedUntil.toISOString() : null,
+          detected_at: event.createdAt.toISOString(),
+        })),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to fetch jail history for ${operatorAddress}: ${message}`);
+      return { error: message };
+    }
+  }
+
+  private async resolveConsensusIdentity(
+    operatorAddress: string,
+  ): Promise<ConsensusIdentity | { error: string }> {
+    const validator = await this.validatorsService.getValidatorDetails(operatorAddress);
+    if ('error' in validator) {
+      return validator;
+    }
+
+    const hex = consensusAddressFromPubkey(validator.consensus_pubkey);
+    if (!hex) {
+      return { error: 'Validator consensus key type is not supported' };
+    }
+
+    return {
+      hex,
+      bech32: toConsensusBech32(operatorAddress, hex),
+      jailed: Boolean(validator.jailed),
+    };
+  }
+}
@@ -8,16 +8,40 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
 import { ValidatorDetails, ValidatorsResponse } from '../dto/schema.dto';
 import { ValidatorsService } from './validators.service';
 import { ValidatorsQueryDto } from './dto/validators-query.dto';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { VotingPowerHistoryQueryDto } from './dto/voting-power-history-query.dto';
+import {
+  CommissionHistory,
+  ValidatorDelegators,
+  ValidatorProfileService,
+  ValidatorSelfBond,
+  VotingPowerHistory,
+} from './validator-profile.service';
+import { MissedBlocksQueryDto, ValidatorUptimeQueryDto } from './dto/validator-uptime-query.dto';
+import {
+  MissedBlocksHeatmap,
+  ValidatorJailHistory,
+  ValidatorSigningInfo,
+  ValidatorUptime,
+  ValidatorUptimeService,
+} from './validator-uptime.service';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 
 @ApiTags('Validators')
 @ApiBearerAuth('api-key')
 @Controller('api/v2')
+@RequireScopes(ApiScope.VALIDATORS_READ)
 export class ValidatorsController {
-  constructor(private readonly validatorsService: ValidatorsService) {}
+  constructor(
+    private readonly validatorsService: ValidatorsService,
+    private readonly validatorUptimeService: ValidatorUptimeService,
+    private readonly validatorProfileService: ValidatorProfileService,
+  ) {}
 
   @Get('validators')
   @UseGuards(ApiKeyGuard)
@@ -38,4 +62,182 @@ export class ValidatorsController {
 
     return result;
   }
+
+  @Get('validator/:validatorAddress/uptime')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Signed and missed block counts over the most recent tracked blocks' })
+  async getValidatorUptime(
+    @Param('validatorAddress') validatorAddress: string,
+    @Query() query: ValidatorUptimeQueryDto,
+  ): Promise<ValidatorUptime> {
+    const result = await this.validatorUptimeService.getUptime(validatorAddress, query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/missed-blocks')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Missed blocks heatmap, bucketed by consecutive heights' })
+  async getValidatorMissedBlocks(
+    @Param('validatorAddress') validatorAddress: string,
+    @Query() query: MissedBlocksQueryDto,
+  ): Promise<MissedBlocksHeatmap> {
+    const result = await this.validatorUptimeService.getMissedBlocksHeatmap(
+      validatorAddress,
+      query,
+    );
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/signing-info')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Slashing module signing info and remaining missed-block allowance' })
+  async getValidatorSigningInfo(
+    @Param('validatorAddress') validatorAddress: string,
+  ): Promise<ValidatorSigningInfo> {
+    const result = await this.validatorUptimeService.getSigningInfo(validatorAddress);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/jail-history')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Jail and unjail events detected for a validator' })
+  async getValidatorJailHistory(
+    @Param('validatorAddress') validatorAddress: string,
+  ): Promise<ValidatorJailHistory> {
+    const result = await this.validatorUptimeService.getJailHistory(validatorAddress);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('supported')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/delegators')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Delegators of a validator, sorted by stake' })
+  async getValidatorDelegators(
+    @Param('validatorAddress') validatorAddress: string,
+    @Query() query: PaginationQueryDto,
+  ): Promise<ValidatorDelegators> {
+    const result = await this.validatorProfileService.getDelegators(validatorAddress, query);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('invalid')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/voting-power-history')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Daily voting power, share of bonded stake and rank' })
+  async getValidatorVotingPowerHistory(
+    @Param('validatorAddress') validatorAddress: string,
+    @Query() query: VotingPowerHistoryQueryDto,
+  ): Promise<VotingPowerHistory> {
+    const result = await this.validatorProfileService.getVotingPowerHistory(
+      validatorAddress,
+      query,
+    );
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('invalid')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/commission-history')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Current commission and past commission rate changes' })
+  async getValidatorCommissionHistory(
+    @Param('validatorAddress') validatorAddress: string,
+  ): Promise<CommissionHistory> {
+    const result = await this.validatorProfileService.getCommissionHistory(validatorAddress);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('invalid')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
+
+  @Get('validator/:validatorAddress/self-bond')
+  @UseGuards(ApiKeyGuard)
+  @ApiOperation({ summary: 'Amount the operator has delegated to its own validator' })
+  async getValidatorSelfBond(
+    @Param('validatorAddress') validatorAddress: string,
+  ): Promise<ValidatorSelfBond> {
+    const result = await this.validatorProfileService.getSelfBond(validatorAddress);
+
+    if ('error' in result) {
+      const normalized = result.error.toLowerCase();
+      const status = normalized.includes('not found')
+        ? HttpStatus.NOT_FOUND
+        : normalized.includes('invalid')
+          ? HttpStatus.BAD_REQUEST
+          : HttpStatus.BAD_GATEWAY;
+      throw new HttpException(result.error, status);
+    }
+
+    return result;
+  }
 }
@@ -1,14 +1,37 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from '../auth/auth.module';
 import { BlockchainModule } from '../blockchain/blockchain.module';
+import { BlocksModule } from '../blocks/blocks.module';
+import { ValidatorBlockSignature } from '../database/entities/validator-block-signature.entity';
+import { ValidatorJailEvent } from '../database/entities/validator-jail-event.entity';
+import { ValidatorPowerSnapshot } from '../database/entities/validator-power-snapshot.entity';
+import { ZigscanPostgresModule } from '../zigscan-postgres/zigscan-postgres.module';
 import { ValidatorsController } from './validators.controller';
 import { ValidatorsService } from './validators.service';
 import { KeybaseService } from './keybase.service';
+import { ValidatorUptimeService } from './validator-uptime.service';
+import { ValidatorUptimeTrackerService } from './validator-uptime-tracker.service';
+import { ValidatorProfileService } from './validator-profile.service';
+import { ValidatorSnapshotService } from './validator-snapshot.service';
 
 @Module({
-  imports: [AuthModule, BlockchainModule],
+  imports: [
+    AuthModule,
+    BlockchainModule,
+    BlocksModule,
+    ZigscanPostgresModule,
+    TypeOrmModule.forFeature([ValidatorBlockSignature, ValidatorJailEvent, ValidatorPowerSnapshot]),
+  ],
   controllers: [ValidatorsController],
-  providers: [ValidatorsService, KeybaseService],
+  providers: [
+    ValidatorsService,
+    KeybaseService,
+    ValidatorUptimeService,
+    ValidatorUptimeTrackerService,
+    ValidatorProfileService,
+    ValidatorSnapshotService,
+  ],
   exports: [ValidatorsService],
 })
 export class ValidatorsModule {}
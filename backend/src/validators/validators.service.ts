@@ -7,6 +7,8 @@ import { KeybaseService } from './keybase.service';
 @Injectable()
 export class ValidatorsService {
   private readonly logger = new Logger(ValidatorsService.name);
+  private readonly MONIKER_TTL_MS = 5 * 60 * 1000;
+  private monikers: { byAddress: Map<string, string>; fetchedAt: number } | null = null;
 
   constructor(
     private readonly blockchainService: BlockchainService,
@@ -134,4 +136,43 @@ export class ValidatorsService {
       return { error: message };
     }
   }
+
+  /**
+   * Operator address to moniker for validators in every bond status, cached for a few minutes.
+   * Returns the previous (or an empty) map when the LCD is unavailable.
+   */
+  async getValidatorMonikers(): Promise<Map<string, string>> {
+    if (this.monikers && Date.now() - this.monikers.fetchedAt < this.MONIKER_TTL_MS) {
+      return this.monikers.byAddress;
+    }
+
+    try {
+      const validators = await this.listAllValidators();
+      const byAddress = new Map<string, string>();
+      for (const validator of validators) {
+        byAddress.set(validator.operator_address, validator.description?.moniker ?? '');
+      }
+      this.monikers = { byAddress, fetchedAt: Date.now() };
+      return byAddress;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to refresh validator monikers: ${message}`);
+      return this.monikers?.byAddress ?? new Map();
+    }
+  }
+
+  /**
+   * Raw LCD records of every validator regardless of bond status
+   */
+  async listAllValidators(): Promise<Record<string, any>[]> {
+    const response = await this.blockchainService.getFromApi<Record<string, any>>(
+      '/cosmos/staking/v1beta1/validators',
+      { params: { 'pagination.limit': 1000 } },
+    );
+
+    if (response.status !== 200 || !Array.isArray(response.data?.validators)) {
+      throw new Error(`Unexpected response: HTTP ${response.status}`);
+    }
+    return response.data.validators as Record<string, any>[];
+  }
 }
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { WebhookOwnerContext } from '../guards/webhook-owner.guard';
+
+type WebhookRequest = Request & { webhookOwner?: WebhookOwnerContext };
+
+export const WebhookOwner = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): WebhookOwnerContext => {
+    const request = context.switchToHttp().getRequest<WebhookRequest>();
+    return request.webhookOwner as WebhookOwnerContext;
+  },
+);
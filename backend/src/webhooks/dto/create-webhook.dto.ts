@@ -0,0 +1,84 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+
+export class WebhookFiltersDto {
+  @ApiPropertyOptional({
+    description: 'transaction.matched: addresses whose transactions should be delivered',
+    type: [String],
+    example: ['zig1...'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  addresses?: string[];
+
+  @ApiPropertyOptional({
+    description: 'transaction.matched: message types to deliver; `%` is a wildcard',
+    type: [String],
+    example: ['/cosmwasm.wasm.v1.MsgExecuteContract'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  messageTypes?: string[];
+
+  @ApiPropertyOptional({
+    description: 'tvl.changed: minimum absolute change of total TVL, in percent',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minTvlChangePercent?: number;
+}
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'Endpoint that receives signed JSON payloads via POST',
+    example: 'https://example.com/zigscan/webhook',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  url: string;
+
+  @ApiProperty({ enum: WebhookEventType, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  events: WebhookEventType[];
+
+  @ApiPropertyOptional({ type: WebhookFiltersDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WebhookFiltersDto)
+  filters?: WebhookFiltersDto;
+
+  @ApiPropertyOptional({ example: 'Production indexer' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
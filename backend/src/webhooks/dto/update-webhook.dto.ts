@@ -0,0 +1,51 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { WebhookFiltersDto } from './create-webhook.dto';
+
+export class UpdateWebhookDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  url?: string;
+
+  @ApiPropertyOptional({ enum: WebhookEventType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(WebhookEventType, { each: true })
+  events?: WebhookEventType[];
+
+  @ApiPropertyOptional({ type: WebhookFiltersDto, description: 'Replaces the existing filters' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WebhookFiltersDto)
+  filters?: WebhookFiltersDto;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @MaxLength(200)
+  description?: string | null;
+
+  @ApiPropertyOptional({ description: 'Pause or resume deliveries' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
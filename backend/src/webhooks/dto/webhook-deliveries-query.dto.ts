@@ -0,0 +1,11 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { WebhookDeliveryStatus } from '../enums/webhook-event.enum';
+
+export class WebhookDeliveriesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: WebhookDeliveryStatus })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+}
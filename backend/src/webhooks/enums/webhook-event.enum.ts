@@ -0,0 +1,13 @@
+export enum WebhookEventType {
+  BLOCK_NEW = 'block.new',
+  TRANSACTION_MATCHED = 'transaction.matched',
+  TVL_CHANGED = 'tvl.changed',
+}
+
+export enum WebhookDeliveryStatus {
+  // Waiting for its first attempt or for the next retry
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  // Retries exhausted; kept for inspection and manual redelivery
+  DEAD = 'dead',
+}
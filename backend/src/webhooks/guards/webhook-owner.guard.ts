@@ -0,0 +1,81 @@
+import { ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { Request, Response } from 'express';
+import { ApiKeyAuthService } from '../../auth/api-key-auth.service';
+import { READ_ONLY_ROUTE_KEY } from '../../auth/decorators/read-only-route.decorator';
+import { REQUIRED_SCOPES_KEY } from '../../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../../auth/enums/api-scope.enum';
+import { RateLimitExceededException } from '../../auth/exceptions/rate-limit-exceeded.exception';
+import { RateLimitService } from '../../auth/rate-limit.service';
+
+export interface WebhookOwnerContext {
+  userId: string | null;
+  apiKeyId: string | null;
+}
+
+type WebhookRequest = Request & {
+  user?: { id: string };
+  webhookOwner?: WebhookOwnerContext;
+};
+
+/**
+ * Accepts either a user session JWT or a database-backed API key. Webhooks are scoped to
+ * whichever credential created them. API keys go through the same route checks as
+ * `ApiKeyGuard`: the controller's scope, and an admin key for anything but reads.
+ */
+@Injectable()
+export class WebhookOwnerGuard extends AuthGuard('jwt') {
+  constructor(
+    private readonly apiKeyAuthService: ApiKeyAuthService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly reflector: Reflector,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<WebhookRequest>();
+    const authorization = request.headers['authorization'] as string | undefined;
+    const [scheme, bearer] = (authorization ?? '').split(' ');
+
+    // API keys are hex strings, so a dotted bearer token can only be a session JWT
+    if (scheme?.toLowerCase() === 'bearer' && bearer?.split('.').length === 3) {
+      await super.canActivate(context);
+      request.webhookOwner = { userId: request.user!.id, apiKeyId: null };
+      return true;
+    }
+
+    const apiKey = this.apiKeyAuthService.validateAuthorizationHeader(authorization);
+    const response = context.switchToHttp().getResponse<Response>();
+    const authContext = await this.apiKeyAuthService.validateApiKey(apiKey).catch(error => {
+      if (error instanceof RateLimitExceededException) {
+        this.rateLimitService.setHeaders(response, error.state);
+      }
+      throw error;
+    });
+    if (authContext.rateLimit) {
+      this.rateLimitService.setHeaders(response, authContext.rateLimit);
+    }
+    if (!authContext.apiKeyId) {
+      throw new ForbiddenException('Webhooks require a user session or a registered API key');
+    }
+    this.apiKeyAuthService.authorizeRoute(
+      authContext,
+      { method: request.method, url: request.originalUrl || request.url || 'unknown' },
+      {
+        readOnly: this.reflector.getAllAndOverride<boolean | undefined>(READ_ONLY_ROUTE_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ]),
+        scopes: this.reflector.getAllAndOverride<ApiScope[] | undefined>(REQUIRED_SCOPES_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ]),
+      },
+    );
+
+    request.webhookOwner = { userId: null, apiKeyId: authContext.apiKeyId };
+    return true;
+  }
+}
@@ -0,0 +1,222 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { Repository } from 'typeorm';
+import { findWebhookUrlProblem } from '../common/utils/webhook-url.utils';
+import { AppConfiguration } from '../config/configuration';
+import { WebhookDelivery } from '../database/entities/webhook-delivery.entity';
+import { Webhook } from '../database/entities/webhook.entity';
+import { WebhookDeliveryStatus, WebhookEventType } from './enums/webhook-event.enum';
+
+/**
+ * Persists one delivery per (event, subscribed webhook) and works the queue: signed POSTs,
+ * exponential backoff on failure and dead-lettering once the attempts are exhausted. Because
+ * the queue lives in Postgres, pending retries survive restarts.
+ */
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly config: AppConfiguration['webhooks'];
+  private readonly pollIntervalMs = 5000;
+  private readonly BATCH_SIZE = 50;
+  private readonly MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+  private readonly SUBSCRIBER_CACHE_MS = 30_000;
+  private queueTimer?: NodeJS.Timeout;
+  private running = false;
+  private subscriberCache: { loadedAt: number; webhooks: Webhook[] } | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Webhook)
+    private readonly webhookRepository: Repository<Webhook>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+  ) {
+    this.config = this.configService.getOrThrow<AppConfiguration['webhooks']>('webhooks');
+  }
+
+  onModuleInit(): void {
+    this.queueTimer = setInterval(() => {
+      void this.processQueue();
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+    }
+  }
+
+  /**
+   * Queues `data` for every active webhook subscribed to `eventType` that passes `accept`.
+   * Returns the number of deliveries created.
+   */
+  async enqueue(
+    eventType: WebhookEventType,
+    eventId: string,
+    data: Record<string, unknown>,
+    accept?: (webhook: Webhook) => boolean,
+  ): Promise<number> {
+    const webhooks = (await this.getSubscribers()).filter(
+      webhook => webhook.events.includes(eventType) && (!accept || accept(webhook)),
+    );
+    if (webhooks.length === 0) {
+      return 0;
+    }
+
+    const payload = {
+      event_id: eventId,
+      type: eventType,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    const deliveries = webhooks.map(webhook =>
+      this.deliveryRepository.create({
+        webhookId: webhook.id,
+        eventType,
+        eventId,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastAttemptAt: null,
+        responseStatus: null,
+        lastError: null,
+        deliveredAt: null,
+      }),
+    );
+    await this.deliveryRepository.save(deliveries);
+
+    return deliveries.length;
+  }
+
+  /**
+   * Drops the cached subscriber list so webhook changes apply to the next event.
+   */
+  invalidateSubscribers(): void {
+    this.subscriberCache = null;
+  }
+
+  /**
+   * Performs one delivery attempt and records the outcome on the delivery row.
+   */
+  async attempt(delivery: WebhookDelivery, webhook: Webhook): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = new Date();
+
+    try {
+      const urlProblem = await findWebhookUrlProblem(webhook.url, this.config.allowInsecureUrls);
+      if (urlProblem) {
+        throw new Error(urlProblem);
+      }
+
+      const response = await axios.post(webhook.url, body, {
+        timeout: this.config.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ZigScan-Webhooks/1.0',
+          'X-Zigscan-Event': delivery.eventType,
+          'X-Zigscan-Delivery': delivery.id,
+          'X-Zigscan-Timestamp': String(timestamp),
+          'X-Zigscan-Signature': `sha256=${this.sign(webhook.secret, timestamp, body)}`,
+        },
+      });
+
+      delivery.responseStatus = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        delivery.status = WebhookDeliveryStatus.DELIVERED;
+        delivery.deliveredAt = new Date();
+        delivery.nextAttemptAt = null;
+        delivery.lastError = null;
+        await this.deliveryRepository.save(delivery);
+        await this.webhookRepository.update(webhook.id, { lastDeliveryAt: delivery.deliveredAt });
+        return delivery;
+      }
+
+      delivery.lastError = `Endpoint responded with HTTP ${response.status}`;
+    } catch (error) {
+      delivery.responseStatus = null;
+      delivery.lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (delivery.attempts >= this.config.maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.DEAD;
+      delivery.nextAttemptAt = null;
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} dead-lettered after ${delivery.attempts} attempts: ${delivery.lastError}`,
+      );
+    } else {
+      delivery.status = WebhookDeliveryStatus.PENDING;
+      delivery.nextAttemptAt = new Date(
+        Date.now() + this.retryDelaySeconds(delivery.attempts) * 1000,
+      );
+    }
+
+    return this.deliveryRepository.save(delivery);
+  }
+
+  /**
+   * Hex HMAC-SHA256 over `<timestamp>.<raw body>`, sent as `X-Zigscan-Signature: sha256=<hex>`.
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const due = await this.deliveryRepository
+        .createQueryBuilder('delivery')
+        .innerJoinAndSelect('delivery.webhook', 'webhook')
+        .where('delivery.status = :status', { status: WebhookDeliveryStatus.PENDING })
+        .andWhere('delivery.nextAttemptAt <= :now', { now: new Date() })
+        .andWhere('webhook.isActive = true')
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .take(this.BATCH_SIZE)
+        .getMany();
+
+      for (const delivery of due) {
+        const webhook = delivery.webhook!;
+        delete delivery.webhook;
+        await this.attempt(delivery, webhook);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Webhook queue run failed: ${message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private retryDelaySeconds(attempts: number): number {
+    return Math.min(
+      this.config.retryBaseSeconds * 2 ** Math.max(attempts - 1, 0),
+      this.MAX_RETRY_DELAY_SECONDS,
+    );
+  }
+
+  private async getSubscribers(): Promise<Webhook[]> {
+    if (
+      this.subscriberCache &&
+      Date.now() - this.subscriberCache.loadedAt < this.SUBSCRIBER_CACHE_MS
+    ) {
+      return this.subscriberCache.webhooks;
+    }
+
+    const webhooks = await this.webhookRepository.find({ where: { isActive: true } });
+    this.subscriberCache = { loadedAt: Date.now(), webhooks };
+    return webhooks;
+  }
+}
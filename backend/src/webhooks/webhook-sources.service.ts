@@ -0,0 +1,117 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { concatMap, Subscription } from 'rxjs';
+import { buildMessageTypeMatcher } from '../common/utils/message-type.utils';
+import { Webhook } from '../database/entities/webhook.entity';
+import { StreamEvent, StreamTransaction, StreamService } from '../stream/stream.service';
+import { TvlService, TvlSnapshot } from '../tvl/tvl.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookEventType } from './enums/webhook-event.enum';
+
+/**
+ * Turns chain and TVL activity into webhook events. Blocks and transactions come from the
+ * shared live feed; TVL snapshots are written by an external process, so they are polled.
+ */
+@Injectable()
+export class WebhookSourcesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookSourcesService.name);
+  private readonly tvlPollIntervalMs = 60_000;
+  private feedSubscription?: Subscription;
+  private tvlTimer?: NodeJS.Timeout;
+  private lastTvlSnapshot: TvlSnapshot | null = null;
+
+  constructor(
+    private readonly streamService: StreamService,
+    private readonly tvlService: TvlService,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {}
+
+  onModuleInit(): void {
+    this.feedSubscription = this.streamService
+      .events()
+      .pipe(concatMap(event => this.handleFeedEvent(event)))
+      .subscribe();
+
+    this.tvlTimer = setInterval(() => {
+      void this.checkTvl();
+    }, this.tvlPollIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    this.feedSubscription?.unsubscribe();
+    if (this.tvlTimer) {
+      clearInterval(this.tvlTimer);
+    }
+  }
+
+  private async handleFeedEvent(event: StreamEvent): Promise<void> {
+    try {
+      if (event.type === 'block') {
+        await this.dispatcher.enqueue(WebhookEventType.BLOCK_NEW, `block:${event.data.height}`, {
+          ...event.data,
+        });
+      } else if (event.type === 'transaction') {
+        const tx = event.data;
+        await this.dispatcher.enqueue(
+          WebhookEventType.TRANSACTION_MATCHED,
+          `tx:${tx.tx_hash}`,
+          { ...tx },
+          webhook => this.matchesTransaction(webhook, tx),
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to enqueue ${event.type} webhook event: ${message}`);
+    }
+  }
+
+  private matchesTransaction(webhook: Webhook, tx: StreamTransaction): boolean {
+    const { addresses, messageTypes } = webhook.filters ?? {};
+
+    const addressMatches =
+      !addresses?.length || tx.addresses.some(address => addresses.includes(address));
+    const typeMatches =
+      !messageTypes?.length ||
+      messageTypes.some(pattern => buildMessageTypeMatcher(pattern)(tx.message_type));
+
+    return addressMatches && typeMatches;
+  }
+
+  private async checkTvl(): Promise<void> {
+    try {
+      const snapshot = await this.tvlService.getLatestSnapshot();
+      if (!snapshot) {
+        return;
+      }
+
+      const previous = this.lastTvlSnapshot;
+      this.lastTvlSnapshot = snapshot;
+      // The first poll after startup only records the baseline
+      if (!previous || previous.timestamp === snapshot.timestamp) {
+        return;
+      }
+
+      const change = snapshot.total_tvl - previous.total_tvl;
+      const changePercent =
+        previous.total_tvl !== 0 ? Number(((change / previous.total_tvl) * 100).toFixed(4)) : null;
+
+      await this.dispatcher.enqueue(
+        WebhookEventType.TVL_CHANGED,
+        `tvl:${snapshot.timestamp}`,
+        {
+          previous,
+          current: snapshot,
+          change: { total_tvl: Number(change.toFixed(2)), percent: changePercent },
+        },
+        webhook => {
+          const threshold = webhook.filters?.minTvlChangePercent;
+          return threshold === undefined || changePercent === null
+            ? true
+            : Math.abs(changePercent) >= threshold;
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`TVL webhook check failed: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookDeliveriesQueryDto } from './dto/webhook-deliveries-query.dto';
+import { WebhookDeliveryStatus } from './enums/webhook-event.enum';
+import { WebhookOwner } from './decorators/webhook-owner.decorator';
+import { WebhookOwnerContext, WebhookOwnerGuard } from './guards/webhook-owner.guard';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { ApiScope } from '../auth/enums/api-scope.enum';
+
+@ApiTags('Webhooks')
+@Controller('api/v2/webhooks')
+@UseGuards(WebhookOwnerGuard)
+@RequireScopes(ApiScope.WEBHOOKS)
+@ApiBearerAuth('jwt')
+@ApiBearerAuth('api-key')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register a webhook',
+    description:
+      'Payloads are POSTed as JSON with `X-Zigscan-Event`, `X-Zigscan-Delivery`, ' +
+      '`X-Zigscan-Timestamp` and `X-Zigscan-Signature: sha256=<hex>` headers. The signature ' +
+      'is HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the secret returned here. ' +
+      'Non-2xx responses are retried with exponential backoff, then dead-lettered.',
+  })
+  @ApiResponse({ status: 201, description: 'Webhook created; response includes the secret' })
+  @ApiResponse({ status: 400, description: 'Invalid URL, filters or webhook limit reached' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createWebhook(
+    @WebhookOwner() owner: WebhookOwnerContext,
+    @Body() createWebhookDto: CreateWebhookDto,
+  ) {
+    return this.webhooksService.createWebhook(owner, createWebhookDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your webhooks' })
+  @ApiResponse({ status: 200, description: 'Webhooks retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getWebhooks(@WebhookOwner() owner: WebhookOwnerContext) {
+    return this.webhooksService.getWebhooks(owner);
+  }
+
+  @Get('dead-letters')
+  @ApiOperation({ summary: 'Deliveries that exhausted their retries, across all your webhooks' })
+  @ApiResponse({ status: 200, description: 'Dead-lettered deliveries retrieved successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDeadLetters(
+    @WebhookOwner() owner: WebhookOwnerContext,
+    @Query() query: WebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooksService.getDeliveries(owner, {
+      ...query,
+      status: WebhookDeliveryStatus.DEAD,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook by ID' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Webhook retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getWebhookById(@WebhookOwner() owner: WebhookOwnerContext, @Param('id') id: string) {
+    return this.webhooksService.getWebhookById(owner, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a webhook, or pause/resume deliveries' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Webhook updated successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateWebhook(
+    @WebhookOwner() owner: WebhookOwnerContext,
+    @Param('id') id: string,
+    @Body() updateWebhookDto: UpdateWebhookDto,
+  ) {
+    return this.webhooksService.updateWebhook(owner, id, updateWebhookDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID to delete' })
+  @ApiResponse({ status: 200, description: 'Webhook deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async deleteWebhook(@WebhookOwner() owner: WebhookOwnerContext, @Param('id') id: string) {
+    return this.webhooksService.deleteWebhook(owner, id);
+  }
+
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Generate a new signing secret for a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'New secret returned' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rotateSecret(@WebhookOwner() owner: WebhookOwnerContext, @Param('id') id: string) {
+    return this.webhooksService.rotateSecret(owner, id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Delivery history for a webhook' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiResponse({ status: 200, description: 'Delivery history retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDeliveries(
+    @WebhookOwner() owner: WebhookOwnerContext,
+    @Param('id') id: string,
+    @Query() query: WebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooksService.getDeliveries(owner, query, id);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a dead-lettered or delivered payload again' })
+  @ApiParam({ name: 'id', description: 'Webhook ID' })
+  @ApiParam({ name: 'deliveryId', description: 'Delivery ID' })
+  @ApiResponse({ status: 200, description: 'Delivery attempted; returns the updated delivery' })
+  @ApiResponse({ status: 400, description: 'Delivery is still queued' })
+  @ApiResponse({ status: 404, description: 'Webhook or delivery not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async redeliver(
+    @WebhookOwner() owner: WebhookOwnerContext,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.redeliver(owner, id, deliveryId);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { Webhook } from '../database/entities/webhook.entity';
+import { WebhookDelivery } from '../database/entities/webhook-delivery.entity';
+import { StreamModule } from '../stream/stream.module';
+import { TvlModule } from '../tvl/tvl.module';
+import { UsersModule } from '../users/users.module';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { WebhookSourcesService } from './webhook-sources.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookOwnerGuard } from './guards/webhook-owner.guard';
+
+@Module({
+  imports: [
+    ConfigModule,
+    AuthModule,
+    UsersModule, // Import to use JWT authentication
+    StreamModule,
+    TvlModule,
+    TypeOrmModule.forFeature([Webhook, WebhookDelivery]),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService, WebhookSourcesService, WebhookOwnerGuard],
+})
+export class WebhooksModule {}
@@ -0,0 +1,271 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import * as crypto from 'crypto';
+import { Repository } from 'typeorm';
+import { ensureDeliverableUrl } from '../common/utils/webhook-url.utils';
+import { AppConfiguration } from '../config/configuration';
+import { WebhookDelivery } from '../database/entities/webhook-delivery.entity';
+import { Webhook, WebhookFilters } from '../database/entities/webhook.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookDeliveriesQueryDto } from './dto/webhook-deliveries-query.dto';
+import { WebhookDeliveryStatus, WebhookEventType } from './enums/webhook-event.enum';
+import { WebhookOwnerContext } from './guards/webhook-owner.guard';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+export type WebhookResponse = Omit<Webhook, 'secret' | 'user' | 'apiKey'>;
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly allowInsecureUrls: boolean;
+  private readonly MAX_WEBHOOKS_PER_OWNER = 10;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(Webhook)
+    private readonly webhookRepository: Repository<Webhook>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly dispatcher: WebhookDispatcherService,
+  ) {
+    const config = this.configService.getOrThrow<AppConfiguration['webhooks']>('webhooks');
+    this.allowInsecureUrls = config.allowInsecureUrls;
+  }
+
+  /**
+   * Register a webhook; the signing secret is only returned here and on rotation
+   */
+  async createWebhook(
+    owner: WebhookOwnerContext,
+    dto: CreateWebhookDto,
+  ): Promise<WebhookResponse & { secret: string }> {
+    await ensureDeliverableUrl(dto.url, this.allowInsecureUrls);
+    const filters: WebhookFilters = { ...(dto.filters ?? {}) };
+    this.ensureFiltersFitEvents(dto.events, filters);
+
+    const existing = await this.webhookRepository.count({ where: this.ownerWhere(owner) });
+    if (existing >= this.MAX_WEBHOOKS_PER_OWNER) {
+      throw new BadRequestException(
+        `Webhook limit reached (${this.MAX_WEBHOOKS_PER_OWNER} webhooks per owner)`,
+      );
+    }
+
+    const webhook = this.webhookRepository.create({
+      userId: owner.userId,
+      apiKeyId: owner.apiKeyId,
+      url: dto.url,
+      description: dto.description ?? null,
+      secret: this.generateSecret(),
+      events: dto.events,
+      filters,
+      isActive: true,
+      lastDeliveryAt: null,
+    });
+
+    const result = await this.webhookRepository.save(webhook);
+    this.dispatcher.invalidateSubscribers();
+    this.logger.log(`${this.describeOwner(owner)} registered webhook ${result.id} (${dto.url})`);
+
+    return { ...this.toResponse(result), secret: result.secret };
+  }
+
+  /**
+   * List all webhooks for the owner
+   */
+  async getWebhooks(owner: WebhookOwnerContext): Promise<WebhookResponse[]> {
+    const webhooks = await this.webhookRepository.find({
+      where: this.ownerWhere(owner),
+      order: { createdAt: 'DESC' },
+    });
+    return webhooks.map(webhook => this.toResponse(webhook));
+  }
+
+  /**
+   * Get a specific webhook by ID
+   */
+  async getWebhookById(owner: WebhookOwnerContext, webhookId: string): Promise<WebhookResponse> {
+    return this.toResponse(await this.findOwnedWebhook(owner, webhookId));
+  }
+
+  /**
+   * Update the target, subscriptions or filters, or pause/resume a webhook
+   */
+  async updateWebhook(
+    owner: WebhookOwnerContext,
+    webhookId: string,
+    dto: UpdateWebhookDto,
+  ): Promise<WebhookResponse> {
+    const webhook = await this.findOwnedWebhook(owner, webhookId);
+
+    if (dto.url !== undefined) {
+      await ensureDeliverableUrl(dto.url, this.allowInsecureUrls);
+      webhook.url = dto.url;
+    }
+    if (dto.events !== undefined) {
+      webhook.events = dto.events;
+    }
+    if (dto.filters !== undefined) {
+      webhook.filters = { ...dto.filters };
+    }
+    if (dto.description !== undefined) {
+      webhook.description = dto.description;
+    }
+    if (dto.isActive !== undefined) {
+      webhook.isActive = dto.isActive;
+    }
+    this.ensureFiltersFitEvents(webhook.events, webhook.filters);
+
+    const result = await this.webhookRepository.save(webhook);
+    this.dispatcher.invalidateSubscribers();
+    this.logger.log(`${this.describeOwner(owner)} updated webhook ${webhookId}`);
+
+    return this.toResponse(result);
+  }
+
+  /**
+   * Delete a webhook and its delivery history
+   */
+  async deleteWebhook(owner: WebhookOwnerContext, webhookId: string): Promise<{ message: string }> {
+    const webhook = await this.findOwnedWebhook(owner, webhookId);
+
+    await this.webhookRepository.remove(webhook);
+    this.dispatcher.invalidateSubscribers();
+    this.logger.log(`${this.describeOwner(owner)} deleted webhook ${webhookId}`);
+
+    return { message: 'Webhook deleted successfully' };
+  }
+
+  /**
+   * Replace the signing secret; payloads signed with the old secret stop immediately
+   */
+  async rotateSecret(
+    owner: WebhookOwnerContext,
+    webhookId: string,
+  ): Promise<{ id: string; secret: string }> {
+    const webhook = await this.findOwnedWebhook(owner, webhookId);
+
+    webhook.secret = this.generateSecret();
+    await this.webhookRepository.save(webhook);
+    this.dispatcher.invalidateSubscribers();
+    this.logger.log(`${this.describeOwner(owner)} rotated secret of webhook ${webhookId}`);
+
+    return { id: webhook.id, secret: webhook.secret };
+  }
+
+  /**
+   * Delivery history across the owner's webhooks, or for a single webhook
+   */
+  async getDeliveries(
+    owner: WebhookOwnerContext,
+    query: WebhookDeliveriesQueryDto,
+    webhookId?: string,
+  ): Promise<{ items: WebhookDelivery[]; total: number; limit: number; offset: number }> {
+    if (webhookId) {
+      await this.findOwnedWebhook(owner, webhookId);
+    }
+
+    const limit = Math.min(query.limit ?? 20, 100);
+    const offset = query.offset ?? 0;
+
+    const builder = this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .innerJoin('delivery.webhook', 'webhook')
+      .orderBy('delivery.createdAt', 'DESC')
+      .skip(offset)
+      .take(limit);
+
+    if (owner.userId) {
+      builder.where('webhook.userId = :userId', { userId: owner.userId });
+    } else {
+      builder.where('webhook.apiKeyId = :apiKeyId', { apiKeyId: owner.apiKeyId });
+    }
+    if (webhookId) {
+      builder.andWhere('delivery.webhookId = :webhookId', { webhookId });
+    }
+    if (query.status) {
+      builder.andWhere('delivery.status = :status', { status: query.status });
+    }
+
+    const [items, total] = await builder.getManyAndCount();
+    return { items, total, limit, offset };
+  }
+
+  /**
+   * Send a dead-lettered (or already delivered) payload again right away. A failure puts it
+   * back on the regular retry schedule.
+   */
+  async redeliver(
+    owner: WebhookOwnerContext,
+    webhookId: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    const webhook = await this.findOwnedWebhook(owner, webhookId);
+    const delivery = /^\d+$/.test(deliveryId)
+      ? await this.deliveryRepository.findOne({
+          where: { id: deliveryId, webhookId: webhook.id },
+        })
+      : null;
+
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+    if (delivery.status === WebhookDeliveryStatus.PENDING) {
+      throw new BadRequestException('Delivery is already queued for retry');
+    }
+
+    delivery.attempts = 0;
+    const result = await this.dispatcher.attempt(delivery, webhook);
+    this.logger.log(
+      `${this.describeOwner(owner)} redelivered ${deliveryId} on webhook ${webhookId}: ${result.status}`,
+    );
+
+    return result;
+  }
+
+  private async findOwnedWebhook(owner: WebhookOwnerContext, webhookId: string): Promise<Webhook> {
+    if (!/^\d+$/.test(webhookId)) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    const webhook = await this.webhookRepository.findOne({
+      where: { id: webhookId, ...this.ownerWhere(owner) },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return webhook;
+  }
+
+  private ownerWhere(owner: WebhookOwnerContext): { userId: string } | { apiKeyId: string } {
+    return owner.userId ? { userId: owner.userId } : { apiKeyId: owner.apiKeyId as string };
+  }
+
+  private describeOwner(owner: WebhookOwnerContext): string {
+    return owner.userId ? `User ${owner.userId}` : `API key ${owner.apiKeyId}`;
+  }
+
+  private ensureFiltersFitEvents(events: WebhookEventType[], filters: WebhookFilters): void {
+    if (
+      events.includes(WebhookEventType.TRANSACTION_MATCHED) &&
+      !filters.addresses?.length &&
+      !filters.messageTypes?.length
+    ) {
+      throw new BadRequestException(
+        'filters.addresses or filters.messageTypes is required for transaction.matched',
+      );
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private toResponse(webhook: Webhook): WebhookResponse {
+    const { secret: _secret, user: _user, apiKey: _apiKey, ...rest } = webhook;
+    return rest;
+  }
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Pool, QueryResult } from 'pg';
+import { FieldDef, Pool, QueryResult } from 'pg';
+import * as crypto from 'crypto';
 import { AppConfiguration } from '../config/configuration';
 
 @Injectable()
@@ -58,6 +59,95 @@ export class ZigscanPostgresService implements OnModuleInit, OnModuleDestroy {
     return this.pool.query<T>(text, params);
   }
 
+  /**
+   * Runs `text` through a server-side cursor and yields rows in batches, so large result
+   * sets never have to be held in memory. Stopping iteration early closes the cursor.
+   */
+  async *stream<T = Record<string, unknown>>(
+    text: string,
+    params?: any[],
+    batchSize = 500,
+  ): AsyncGenerator<T[]> {
+    if (!this.pool) {
+      throw new Error('ZigScan Postgres pool is not configured');
+    }
+
+    const client = await this.pool.connect();
+    const cursorName = `zigscan_stream_${crypto.randomBytes(6).toString('hex')}`;
+    let committed = false;
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${text}`, params);
+
+      while (true) {
+        const result = await client.query<T>(`FETCH ${batchSize} FROM ${cursorName}`);
+        if (result.rows.length > 0) {
+          yield result.rows;
+        }
+        if (result.rows.length < batchSize) {
+          break;
+        }
+      }
+
+      await client.query('COMMIT');
+      committed = true;
+    } finally {
+      if (!committed) {
+        await client.query('ROLLBACK').catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          this.logger.warn(`Failed to roll back stream cursor ${cursorName}: ${message}`);
+        });
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Runs an ad-hoc statement inside a READ ONLY transaction under a statement timeout. Row-
+   * returning statements go through a cursor so at most `maxRows` rows (plus one, to detect
+   * truncation) are ever fetched. The transaction is always rolled back.
+   */
+  async readOnlyQuery<T = Record<string, unknown>>(
+    text: string,
+    options: { timeoutMs: number; maxRows: number },
+  ): Promise<{ fields: FieldDef[]; rows: T[]; truncated: boolean }> {
+    if (!this.pool) {
+      throw new Error('ZigScan Postgres pool is not configured');
+    }
+
+    const client = await this.pool.connect();
+    const cursorName = `zigscan_console_${crypto.randomBytes(6).toString('hex')}`;
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(
+        `SET LOCAL statement_timeout = ${Math.max(1, Math.floor(options.timeoutMs))}`,
+      );
+
+      let result: QueryResult<T>;
+      // DECLARE only accepts SELECT/VALUES, so EXPLAIN output is read directly
+      if (/^\s*explain\b/i.test(text)) {
+        result = await client.query<T>(text);
+      } else {
+        await client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${text}`);
+        result = await client.query<T>(`FETCH ${options.maxRows + 1} FROM ${cursorName}`);
+      }
+
+      return {
+        fields: result.fields,
+        rows: result.rows.slice(0, options.maxRows),
+        truncated: result.rows.length > options.maxRows,
+      };
+    } finally {
+      await client.query('ROLLBACK').catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Failed to roll back console query: ${message}`);
+      });
+      client.release();
+    }
+  }
+
   async onModuleDestroy(): Promise<void> {
     if (this.pool) {
       await this.pool.end();